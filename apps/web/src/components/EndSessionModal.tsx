@@ -0,0 +1,45 @@
+import { Button, Dialog, Flex } from "@radix-ui/themes";
+import type { SessionEndMode } from "@repo/shared";
+import { Icon } from "./Icon";
+
+interface EndSessionModalProps {
+  isOpen: boolean;
+  onChoose: (endMode: SessionEndMode) => void;
+  onCancel: () => void;
+}
+
+export function EndSessionModal({ isOpen, onChoose, onCancel }: EndSessionModalProps) {
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <Dialog.Content>
+        <Dialog.Title>
+          <Flex gap="2" align="center">
+            <Icon name="stop_circle" />
+            End session
+          </Flex>
+        </Dialog.Title>
+        <Dialog.Description>
+          What should happen to the current track and the ones still to come?
+        </Dialog.Description>
+
+        <Flex direction="column" gap="3" mt="5">
+          <Button variant="soft" onClick={() => onChoose("discard")}>
+            End without scrobbling remaining
+          </Button>
+          <Button variant="soft" onClick={() => onChoose("skip-remaining")}>
+            Mark remaining as skipped
+          </Button>
+          <Button variant="soft" color="orange" onClick={() => onChoose("scrobble-remaining")}>
+            Scrobble current + remaining as played
+          </Button>
+        </Flex>
+
+        <Flex justify="end" mt="5">
+          <Button variant="ghost" color="gray" onClick={onCancel}>
+            Cancel
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Icon } from "./Icon";
+import { useApiMutation } from "../hooks/useApiMutation";
+
+/**
+ * Prompt shown once Last.fm has stopped accepting the stored session key,
+ * e.g. after the user revoked access. Reconnecting starts the Last.fm auth
+ * flow again.
+ */
+export function LastFmReconnectPrompt() {
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { mutate: reconnect, loading, error } = useApiMutation<{ redirectUrl?: string }, void>(
+    () => ({ url: "/api/auth/lastfm/start", method: "GET" }),
+    {
+      onSuccess: (data) => {
+        if (data.redirectUrl) {
+          window.location.href = data.redirectUrl;
+        } else {
+          setActionError("Last.fm redirect was not provided.");
+        }
+      },
+    }
+  );
+
+  const handleReconnect = async () => {
+    setActionError(null);
+    await reconnect(undefined);
+  };
+
+  const message = actionError ?? error;
+
+  return (
+    <div className="rounded-xl border border-red-500/20 bg-red-500/5 p-4" role="alert">
+      <div className="flex items-start gap-3">
+        <Icon name="link_off" className="text-red-400 text-xl shrink-0" aria-hidden="true" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">Last.fm disconnected</p>
+          <p className="text-[11px] opacity-50 mt-0.5">
+            Last.fm no longer accepts this connection. Reconnect to keep scrobbling.
+          </p>
+          {message && <p className="text-[11px] text-red-400 mt-2">{message}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={() => void handleReconnect()}
+          disabled={loading}
+          className="shrink-0 text-sm font-semibold text-primary hover:text-primary/80 disabled:opacity-50 focus-ring"
+        >
+          {loading ? "Connecting…" : "Reconnect"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Icon } from "./Icon";
+import { LastFmReconnectPrompt } from "./LastFmReconnectPrompt";
+import { useApiMutation } from "../hooks/useApiMutation";
+import { useApiQuery } from "../hooks/useApiQuery";
+import { isLastFmDisconnectedError } from "../lib/errors";
+import type { PendingScrobble, PendingScrobblesResponse } from "@repo/shared";
+
+interface PendingScrobblesProps {
+  /** Called after a manual retry so the session can pick up new statuses */
+  onRetried?: (() => void) | undefined;
+}
+
+/**
+ * Scrobbles Last.fm has not accepted yet, with a manual "retry now" action.
+ * Renders nothing while the queue is empty.
+ */
+export function PendingScrobbles({ onRetried }: PendingScrobblesProps) {
+  // The queue as left by the last manual retry, once there has been one
+  const [retriedItems, setRetriedItems] = useState<PendingScrobble[] | null>(null);
+
+  const { data } = useApiQuery<PendingScrobblesResponse>("/api/scrobbles/pending", {
+    errorMessage: "Failed to load pending scrobbles",
+    retry: 0,
+  });
+  const items = retriedItems ?? data?.items ?? [];
+
+  const { mutate: retryNow, loading, error, errorCode } = useApiMutation<PendingScrobblesResponse>(() => ({
+    url: "/api/scrobbles/pending/retry",
+    method: "POST",
+  }));
+
+  const handleRetry = async () => {
+    const result = await retryNow();
+    if (result) {
+      setRetriedItems(result.items);
+      onRetried?.();
+    }
+  };
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const failedCount = items.filter((item) => item.status === "failed").length;
+  const needsReconnect = isLastFmDisconnectedError(errorCode);
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 p-4" role="status">
+        <div className="flex items-start gap-3">
+          <Icon name="sync_problem" className="text-amber-400 text-xl shrink-0" aria-hidden="true" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">
+              {items.length === 1 ? "1 scrobble" : `${items.length} scrobbles`} waiting for Last.fm
+            </p>
+            <p className="text-[11px] opacity-50 mt-0.5">
+              {failedCount > 0
+                ? `${failedCount} stopped retrying automatically`
+                : "Retrying automatically"}
+            </p>
+            <ul className="mt-2 space-y-1">
+              {items.map((item) => (
+                <li key={`${item.sessionId}:${item.trackIndex}`} className="text-[11px] opacity-60 truncate">
+                  {item.artist} – {item.track}
+                </li>
+              ))}
+            </ul>
+            {error && !needsReconnect && <p className="text-[11px] text-red-400 mt-2">{error}</p>}
+          </div>
+          <button
+            type="button"
+            onClick={() => void handleRetry()}
+            disabled={loading}
+            className="shrink-0 text-sm font-semibold text-primary hover:text-primary/80 disabled:opacity-50 focus-ring"
+          >
+            {loading ? "Retrying…" : "Retry now"}
+          </button>
+        </div>
+      </div>
+      {needsReconnect && <LastFmReconnectPrompt />}
+    </div>
+  );
+}
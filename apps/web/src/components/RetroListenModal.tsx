@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button, Dialog, Flex, Text, TextField } from "@radix-ui/themes";
+import { RETRO_MAX_AGE_MS, type RetroAnchor } from "@repo/shared";
+import { Icon } from "./Icon";
+import { formatDurationSec } from "../lib/format";
+
+/** Format epoch ms for a `datetime-local` input, in local time. */
+function toDateTimeLocal(valueMs: number): string {
+  const date = new Date(valueMs);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+interface RetroListenModalProps {
+  isOpen: boolean;
+  releaseTitle: string;
+  /** Length assumed for tracks without a duration */
+  defaultTrackSec: number;
+  submitting: boolean;
+  error: string | null;
+  onSubmit: (anchor: RetroAnchor, at: number) => void;
+  onCancel: () => void;
+}
+
+export function RetroListenModal({
+  isOpen,
+  releaseTitle,
+  defaultTrackSec,
+  submitting,
+  error,
+  onSubmit,
+  onCancel,
+}: RetroListenModalProps) {
+  const [now] = useState(() => Date.now());
+  const [anchor, setAnchor] = useState<RetroAnchor>("finished");
+  const [value, setValue] = useState(() => toDateTimeLocal(now));
+
+  const at = new Date(value).getTime();
+  const isValid = Number.isFinite(at) && at <= now && at >= now - RETRO_MAX_AGE_MS;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <Dialog.Content>
+        <Dialog.Title>
+          <Flex gap="2" align="center">
+            <Icon name="history" />
+            Log past listen
+          </Flex>
+        </Dialog.Title>
+        <Dialog.Description>
+          Scrobble <strong>{releaseTitle}</strong> as played. Tracks without a duration count as{" "}
+          {formatDurationSec(defaultTrackSec)}.
+        </Dialog.Description>
+
+        <Flex gap="3" mt="5">
+          <Button
+            variant={anchor === "started" ? "solid" : "soft"}
+            aria-pressed={anchor === "started"}
+            onClick={() => setAnchor("started")}
+          >
+            I started at
+          </Button>
+          <Button
+            variant={anchor === "finished" ? "solid" : "soft"}
+            aria-pressed={anchor === "finished"}
+            onClick={() => setAnchor("finished")}
+          >
+            I finished at
+          </Button>
+        </Flex>
+
+        <label className="block mt-4">
+          <Text as="div" size="2" mb="1" weight="medium">
+            {anchor === "started" ? "Started" : "Finished"}
+          </Text>
+          <TextField.Root
+            type="datetime-local"
+            min={toDateTimeLocal(now - RETRO_MAX_AGE_MS)}
+            max={toDateTimeLocal(now)}
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+          />
+        </label>
+        <Text as="p" size="1" color="gray" mt="2">
+          Last.fm only accepts listens from the last 14 days.
+        </Text>
+        {error && (
+          <Text as="p" size="2" color="red" mt="3" role="alert">
+            {error}
+          </Text>
+        )}
+
+        <Flex gap="3" justify="end" mt="6">
+          <Button variant="soft" color="gray" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button disabled={!isValid || submitting} onClick={() => onSubmit(anchor, at)}>
+            {submitting ? "Logging..." : "Log listen"}
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
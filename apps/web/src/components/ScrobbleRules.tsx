@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { Icon } from "./Icon";
+import { ErrorMessage } from "./ErrorMessage";
+import { useApiMutation } from "../hooks/useApiMutation";
+import { useApiQuery } from "../hooks/useApiQuery";
+import { previewScrobbleRules, ScrobbleRuleSchema } from "@repo/shared";
+import type {
+  ScrobbleRule,
+  ScrobbleRuleField,
+  ScrobbleRuleMatch,
+  ScrobbleRulesRequest,
+  ScrobbleRulesResponse,
+} from "@repo/shared";
+
+const FIELD_LABELS: Record<ScrobbleRuleField, string> = {
+  artist: "Artist",
+  title: "Title",
+  album: "Album",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as ScrobbleRuleField[];
+
+interface RuleDraft {
+  match: ScrobbleRuleMatch;
+  find: string;
+  replace: string;
+  fields: ScrobbleRuleField[];
+  releaseId: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = { match: "literal", find: "", replace: "", fields: ["title"], releaseId: "" };
+
+const inputClassName =
+  "w-full text-sm bg-transparent border border-slate-200 dark:border-border-dark rounded-lg px-2 py-1";
+
+function describeRule(rule: ScrobbleRule): string {
+  const fields = rule.fields.map((field) => FIELD_LABELS[field]).join(", ");
+  const find = rule.match === "regex" ? `/${rule.find}/` : `“${rule.find}”`;
+  return `${fields}: ${find} → ${rule.replace ? `“${rule.replace}”` : "removed"}`;
+}
+
+/**
+ * Manage the correction rules applied to artist, title and album before
+ * they are sent to Last.fm, with a preview of their effect on sample track
+ * details.
+ */
+export function ScrobbleRules() {
+  // The rules as last saved, once they have been changed here
+  const [savedRules, setSavedRules] = useState<ScrobbleRule[] | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [sample, setSample] = useState({ artist: "", title: "", album: "", releaseId: "" });
+
+  const { data, loading, error: loadError } = useApiQuery<ScrobbleRulesResponse>("/api/rules", {
+    errorMessage: "Failed to load scrobble corrections",
+    retry: 0,
+  });
+  const rules = savedRules ?? data?.rules ?? [];
+
+  const {
+    mutate: saveRules,
+    loading: saving,
+    error: saveError,
+  } = useApiMutation<ScrobbleRulesResponse, ScrobbleRulesRequest>((vars) => ({
+    url: "/api/rules",
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(vars),
+  }));
+
+  const updateRules = async (next: ScrobbleRule[]): Promise<boolean> => {
+    const result = await saveRules({ rules: next });
+    if (result) {
+      setSavedRules(result.rules);
+    }
+    return Boolean(result);
+  };
+
+  const handleAdd = async () => {
+    const releaseId = draft.releaseId.trim();
+    const parsed = ScrobbleRuleSchema.safeParse({
+      id: crypto.randomUUID(),
+      match: draft.match,
+      find: draft.find,
+      replace: draft.replace,
+      fields: draft.fields,
+      ...(releaseId ? { releaseId } : {}),
+    });
+    if (!parsed.success) {
+      setDraftError(parsed.error.issues[0]?.message ?? "Rule is invalid.");
+      return;
+    }
+    setDraftError(null);
+    if (await updateRules([...rules, parsed.data])) {
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const handleMoveUp = (index: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    if (!rule) return;
+    next.splice(index - 1, 0, rule);
+    void updateRules(next);
+  };
+
+  const toggleDraftField = (field: ScrobbleRuleField, checked: boolean) => {
+    setDraft((current) => ({
+      ...current,
+      fields: checked
+        ? FIELDS.filter((option) => option === field || current.fields.includes(option))
+        : current.fields.filter((option) => option !== field),
+    }));
+  };
+
+  const preview = previewScrobbleRules(
+    { artist: sample.artist, title: sample.title, album: sample.album },
+    rules,
+    sample.releaseId.trim() || null
+  );
+  const hasSample = Boolean(sample.artist || sample.title || sample.album);
+  const error = loadError ?? saveError;
+
+  return (
+    <div className="space-y-3">
+      {error && <ErrorMessage message={error} />}
+
+      {/* Saved rules, in the order they run */}
+      <div className="bg-white dark:bg-surface-dark rounded-xl border border-slate-200 dark:border-border-dark overflow-hidden">
+        {loading ? (
+          <p className="p-4 text-xs text-slate-500">Loading corrections...</p>
+        ) : rules.length === 0 ? (
+          <p className="p-4 text-xs text-slate-500">No corrections yet</p>
+        ) : (
+          <ol>
+            {rules.map((rule, index) => (
+              <li
+                key={rule.id}
+                className="flex items-center justify-between gap-3 p-4 border-b last:border-b-0 border-slate-100 dark:border-border-dark"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium break-words">{describeRule(rule)}</p>
+                  <p className="text-[11px] text-slate-500">
+                    {rule.releaseId ? `Release ${rule.releaseId}` : "All releases"}
+                    {rule.match === "regex" ? " · Regex" : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleMoveUp(index)}
+                    aria-label={`Move up: ${describeRule(rule)}`}
+                    disabled={index === 0 || saving}
+                    className="p-1 text-slate-500 hover:text-primary transition-colors disabled:opacity-30"
+                  >
+                    <Icon name="arrow_upward" className="text-base" />
+                  </button>
+                  <button
+                    onClick={() => void updateRules(rules.filter((other) => other.id !== rule.id))}
+                    aria-label={`Delete: ${describeRule(rule)}`}
+                    disabled={saving}
+                    className="p-1 text-slate-500 hover:text-red-400 transition-colors disabled:opacity-30"
+                  >
+                    <Icon name="delete" className="text-base" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {/* New rule */}
+      <div className="bg-white dark:bg-surface-dark rounded-xl border border-slate-200 dark:border-border-dark p-4 space-y-3">
+        <p className="text-sm font-medium">Add Correction</p>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-slate-500">
+            Find
+            <input
+              value={draft.find}
+              onChange={(e) => setDraft((current) => ({ ...current, find: e.target.value }))}
+              placeholder="(Remastered 2011)"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            Replace with
+            <input
+              value={draft.replace}
+              onChange={(e) => setDraft((current) => ({ ...current, replace: e.target.value }))}
+              placeholder="Leave empty to remove"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            Match
+            <select
+              value={draft.match}
+              onChange={(e) =>
+                setDraft((current) => ({ ...current, match: e.target.value as ScrobbleRuleMatch }))
+              }
+              className={`${inputClassName} mt-1`}
+            >
+              <option value="literal">Exact text</option>
+              <option value="regex">Regular expression</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-500">
+            Release ID
+            <input
+              value={draft.releaseId}
+              onChange={(e) => setDraft((current) => ({ ...current, releaseId: e.target.value }))}
+              placeholder="All releases"
+              inputMode="numeric"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+        </div>
+        <div className="flex items-center gap-4">
+          {FIELDS.map((field) => (
+            <label key={field} className="flex items-center gap-1.5 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.fields.includes(field)}
+                onChange={(e) => toggleDraftField(field, e.target.checked)}
+              />
+              {FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+        {draftError && (
+          <p className="text-xs text-red-400" role="alert">
+            {draftError}
+          </p>
+        )}
+        <button
+          onClick={() => void handleAdd()}
+          disabled={saving}
+          className="w-full py-2 rounded-lg bg-primary text-white text-sm font-semibold hover:opacity-90 transition-all disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Add Correction"}
+        </button>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-white dark:bg-surface-dark rounded-xl border border-slate-200 dark:border-border-dark p-4 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Preview</p>
+          <p className="text-xs text-slate-500">Try the corrections on a track before it is scrobbled</p>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {(["artist", "title", "album"] as const).map((field) => (
+            <input
+              key={field}
+              value={sample[field]}
+              onChange={(e) => setSample((current) => ({ ...current, [field]: e.target.value }))}
+              placeholder={FIELD_LABELS[field]}
+              aria-label={`Preview ${FIELD_LABELS[field].toLowerCase()}`}
+              className={inputClassName}
+            />
+          ))}
+          <input
+            value={sample.releaseId}
+            onChange={(e) => setSample((current) => ({ ...current, releaseId: e.target.value }))}
+            placeholder="Release ID"
+            aria-label="Preview release ID"
+            inputMode="numeric"
+            className={inputClassName}
+          />
+        </div>
+        {hasSample && (
+          <div className="text-sm space-y-1" role="status">
+            {FIELDS.map((field) => (
+              <p key={field}>
+                <span className="text-slate-500">{FIELD_LABELS[field]}: </span>
+                {preview.fields[field] || "—"}
+              </p>
+            ))}
+            <p className="text-[11px] text-slate-500">
+              {preview.appliedRuleIds.length === 1
+                ? "1 correction applied"
+                : `${preview.appliedRuleIds.length} corrections applied`}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
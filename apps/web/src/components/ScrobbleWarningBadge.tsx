@@ -0,0 +1,56 @@
+import { Icon } from "./Icon";
+import type { ScrobbleIgnoredReason, ScrobbleResponse } from "@repo/shared";
+
+const IGNORED_REASON_LABELS: Record<ScrobbleIgnoredReason, string> = {
+  "artist-ignored": "Artist ignored by Last.fm",
+  "track-ignored": "Track ignored by Last.fm",
+  "timestamp-too-old": "Listen too old for Last.fm",
+  "timestamp-too-new": "Listen time in the future",
+  "daily-limit-exceeded": "Daily scrobble limit reached",
+  unknown: "Ignored by Last.fm",
+};
+
+/**
+ * Describe a scrobble Last.fm ignored or corrected, or null when it was
+ * recorded as submitted.
+ */
+function describeScrobbleResponse(response: ScrobbleResponse): string | null {
+  if (response.ignoredReason) {
+    return IGNORED_REASON_LABELS[response.ignoredReason];
+  }
+
+  const { artist, track, album } = response.corrected;
+  const corrections = [
+    artist && `artist "${artist}"`,
+    track && `track "${track}"`,
+    album && `album "${album}"`,
+  ].filter(Boolean);
+  return corrections.length > 0 ? `Corrected by Last.fm to ${corrections.join(", ")}` : null;
+}
+
+interface ScrobbleWarningBadgeProps {
+  response: ScrobbleResponse | undefined;
+}
+
+/**
+ * Warning for a track whose scrobble Last.fm ignored or recorded with
+ * corrected metadata. Renders nothing otherwise.
+ */
+export function ScrobbleWarningBadge({ response }: ScrobbleWarningBadgeProps) {
+  const description = response ? describeScrobbleResponse(response) : null;
+  if (!response || !description) {
+    return null;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] ${
+        response.accepted ? "text-amber-400" : "text-red-400"
+      }`}
+      title={response.ignoredMessage ?? description}
+    >
+      <Icon name={response.accepted ? "edit_note" : "warning"} className="text-sm" aria-hidden="true" />
+      <span className="truncate">{description}</span>
+    </span>
+  );
+}
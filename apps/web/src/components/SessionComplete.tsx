@@ -1,18 +1,23 @@
 import { Link } from "react-router-dom";
 import { Icon } from "./Icon";
+import { PendingScrobbles } from "./PendingScrobbles";
+import { ScrobbleWarningBadge } from "./ScrobbleWarningBadge";
 import { formatDurationMs, formatDurationSec } from "../lib/format";
 import type { Session } from "@repo/shared";
 
 interface SessionCompleteProps {
   session: Session;
   onDismiss: () => void;
+  /** Called after pending scrobbles were retried by hand */
+  onScrobblesRetried?: () => void;
 }
 
-export function SessionComplete({ session, onDismiss }: SessionCompleteProps) {
+export function SessionComplete({ session, onDismiss, onScrobblesRetried }: SessionCompleteProps) {
   const { release, tracks, startedAt } = session;
 
   const scrobbledTracks = tracks.filter((t) => t.status === "scrobbled");
   const skippedTracks = tracks.filter((t) => t.status === "skipped");
+  const hasPendingRetries = tracks.some((t) => t.status === "retrying" || t.status === "failed");
 
   const lastScrobbleAt = scrobbledTracks.reduce(
     (latest, t) => (t.scrobbledAt && t.scrobbledAt > latest ? t.scrobbledAt : latest),
@@ -20,8 +25,9 @@ export function SessionComplete({ session, onDismiss }: SessionCompleteProps) {
   );
   const sessionDurationMs = lastScrobbleAt > 0 ? lastScrobbleAt - startedAt : 0;
 
+  // Skipped tracks were not listened to, so they don't count towards playback time
   const totalPlaybackSec = release.tracks.reduce(
-    (sum, t) => sum + (t.durationSec ?? 0),
+    (sum, t) => (tracks[t.index]?.status === "skipped" ? sum : sum + (t.durationSec ?? 0)),
     0
   );
 
@@ -89,6 +95,12 @@ export function SessionComplete({ session, onDismiss }: SessionCompleteProps) {
               </div>
             </div>
 
+            {hasPendingRetries && (
+              <div className="mt-6">
+                <PendingScrobbles onRetried={onScrobblesRetried} />
+              </div>
+            )}
+
             {/* Actions */}
             <div className="mt-8 flex flex-col gap-3">
               <Link
@@ -124,6 +136,8 @@ export function SessionComplete({ session, onDismiss }: SessionCompleteProps) {
                 const trackState = tracks[track.index];
                 const isScrobbled = trackState?.status === "scrobbled";
                 const isSkipped = trackState?.status === "skipped";
+                const isRetrying = trackState?.status === "retrying";
+                const isFailed = trackState?.status === "failed";
 
                 return (
                   <div
@@ -146,6 +160,7 @@ export function SessionComplete({ session, onDismiss }: SessionCompleteProps) {
                       <p className="text-[10px] opacity-40 truncate">
                         {track.artist || release.artist}
                       </p>
+                      <ScrobbleWarningBadge response={trackState?.scrobbleResponse} />
                     </div>
                     <div className="flex items-center gap-2 shrink-0">
                       {track.durationSec ? (
@@ -165,6 +180,18 @@ export function SessionComplete({ session, onDismiss }: SessionCompleteProps) {
                           className="text-sm opacity-40"
                           aria-label="Skipped track"
                         />
+                      ) : isRetrying ? (
+                        <Icon
+                          name="sync"
+                          className="text-amber-400 text-lg"
+                          aria-label="Scrobble retrying"
+                        />
+                      ) : isFailed ? (
+                        <Icon
+                          name="sync_problem"
+                          className="text-red-400 text-lg"
+                          aria-label="Scrobble failed"
+                        />
                       ) : (
                         <span className="w-[18px]" />
                       )}
@@ -1,3 +1,6 @@
+import { useState } from "react";
+import type { SessionEndMode } from "@repo/shared";
+import { EndSessionModal } from "./EndSessionModal";
 import { Icon } from "./Icon";
 
 interface SessionControlsProps {
@@ -7,7 +10,8 @@ interface SessionControlsProps {
   onPlayPause: () => void;
   onSkipBack: () => void;
   onSkipForward: () => void;
-  onEnd: () => void;
+  onSkipWithoutScrobble: () => void;
+  onEnd: (endMode: SessionEndMode) => void;
   disabled?: boolean;
 }
 
@@ -18,9 +22,12 @@ export function SessionControls({
   onPlayPause,
   onSkipBack,
   onSkipForward,
+  onSkipWithoutScrobble,
   onEnd,
   disabled = false,
 }: SessionControlsProps) {
+  const [isEndChooserOpen, setIsEndChooserOpen] = useState(false);
+
   return (
     <div className="space-y-4">
       {/* Primary Controls */}
@@ -51,18 +58,37 @@ export function SessionControls({
         >
           <Icon name="skip_next" className="text-3xl" />
         </button>
+
+        <button
+          onClick={onSkipWithoutScrobble}
+          disabled={!canSkipForward || disabled}
+          className="flex items-center justify-center w-10 h-10 rounded-full bg-white/5 hover:bg-white/10 active:bg-white/15 transition-all disabled:opacity-30 disabled:cursor-not-allowed focus-ring"
+          aria-label="Skip track without scrobbling"
+          title="Skip without scrobbling"
+        >
+          <Icon name="fast_forward" className="text-xl" />
+        </button>
       </div>
 
       {/* Secondary Controls */}
       <div className="flex items-center justify-center gap-2">
         <button
-          onClick={onEnd}
+          onClick={() => setIsEndChooserOpen(true)}
           disabled={disabled}
           className="px-4 py-2 text-sm font-medium rounded-lg bg-white/5 hover:bg-white/10 active:bg-white/15 transition-all disabled:opacity-50 disabled:cursor-not-allowed focus-ring"
         >
           End Session
         </button>
       </div>
+
+      <EndSessionModal
+        isOpen={isEndChooserOpen}
+        onChoose={(endMode) => {
+          setIsEndChooserOpen(false);
+          onEnd(endMode);
+        }}
+        onCancel={() => setIsEndChooserOpen(false)}
+      />
     </div>
   );
 }
@@ -1,8 +1,11 @@
+import { Icon } from "./Icon";
+
 interface SessionProgressProps {
   elapsedMs: number;
   durationMs: number | null;
   progressPercent: number;
   formatTime: (ms: number | null) => string;
+  onEditDuration?: () => void;
 }
 
 export function SessionProgress({
@@ -10,6 +13,7 @@ export function SessionProgress({
   durationMs,
   progressPercent,
   formatTime,
+  onEditDuration,
 }: SessionProgressProps) {
   return (
     <div className="space-y-3">
@@ -29,7 +33,19 @@ export function SessionProgress({
       {/* Time Display */}
       <div className="flex items-center justify-between text-xs opacity-60">
         <span>{formatTime(elapsedMs)}</span>
-        <span>{formatTime(durationMs)}</span>
+        {onEditDuration ? (
+          <button
+            type="button"
+            onClick={onEditDuration}
+            className="flex items-center gap-1 hover:opacity-100 transition-opacity focus-ring rounded"
+            aria-label="Edit track duration"
+          >
+            {formatTime(durationMs)}
+            <Icon name="edit" className="text-sm" />
+          </button>
+        ) : (
+          <span>{formatTime(durationMs)}</span>
+        )}
       </div>
     </div>
   );
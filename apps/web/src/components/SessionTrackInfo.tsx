@@ -32,9 +32,9 @@ export function SessionTrackInfo({ track, release }: SessionTrackInfoProps) {
       {/* Track Details */}
       <div className="mt-8 text-center space-y-2">
         <div className="flex items-center justify-center gap-2">
-          {track.side && (
+          {(track.side ?? track.disc) && (
             <span className="px-2 py-0.5 text-[10px] font-bold uppercase tracking-widest rounded bg-white/10 opacity-60">
-              Side {track.side}
+              {track.side ? `Side ${track.side}` : `Disc ${track.disc}`}
             </span>
           )}
           {track.position && (
@@ -11,6 +11,15 @@ interface SideCompletionModalProps {
   isOpen: boolean;
 }
 
+/**
+ * Whether `nextSide` is the other side of the same record: sides pair up as
+ * A/B, C/D, E/F and so on, and a double-A side ("AA") backs side A.
+ */
+function isSameRecord(currentSide: string, nextSide: string): boolean {
+  const recordOf = (side: string) => Math.floor((side.charCodeAt(0) - "A".charCodeAt(0)) / 2);
+  return currentSide !== "" && nextSide !== "" && recordOf(currentSide) === recordOf(nextSide);
+}
+
 export function SideCompletionModal(props: SideCompletionModalProps) {
   const {
     currentSide,
@@ -21,6 +30,7 @@ export function SideCompletionModal(props: SideCompletionModalProps) {
     onContinue,
     onPause,
   } = props;
+  const flip = isSameRecord(currentSide, nextSide);
 
   return (
     <Dialog.Root open={isOpen}>
@@ -28,11 +38,11 @@ export function SideCompletionModal(props: SideCompletionModalProps) {
         <Dialog.Title>
           <Flex gap="2" align="center">
             <Icon name="album" />
-            Time to flip the record
+            {flip ? "Time to flip the record" : "Time to change the record"}
           </Flex>
         </Dialog.Title>
         <Dialog.Description>
-          You just finished side {currentSide}. Flip to side {nextSide} to keep listening.
+          You just finished side {currentSide}. {flip ? "Flip to" : "Put on"} side {nextSide} to keep listening.
         </Dialog.Description>
 
         <Text as="p" size="2" color="gray" mt="3" mb="5">
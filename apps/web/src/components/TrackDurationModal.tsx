@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Button, Checkbox, Dialog, Flex, Text, TextField } from "@radix-ui/themes";
+import type { SessionDurationScope } from "@repo/shared";
+import { Icon } from "./Icon";
+
+interface TrackDurationModalProps {
+  isOpen: boolean;
+  trackTitle: string;
+  durationSec: number | null;
+  onSave: (durationSec: number, scope: SessionDurationScope) => void;
+  onCancel: () => void;
+}
+
+export function TrackDurationModal({
+  isOpen,
+  trackTitle,
+  durationSec,
+  onSave,
+  onCancel,
+}: TrackDurationModalProps) {
+  const [minutes, setMinutes] = useState(durationSec ? String(Math.floor(durationSec / 60)) : "");
+  const [seconds, setSeconds] = useState(durationSec ? String(durationSec % 60) : "");
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  const totalSec = (Number(minutes) || 0) * 60 + (Number(seconds) || 0);
+  const isValid = Number.isInteger(totalSec) && totalSec > 0 && totalSec <= 3600;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <Dialog.Content>
+        <Dialog.Title>
+          <Flex gap="2" align="center">
+            <Icon name="timer" />
+            Edit track duration
+          </Flex>
+        </Dialog.Title>
+        <Dialog.Description>
+          Set how long <strong>{trackTitle}</strong> runs. This only changes the current session.
+        </Dialog.Description>
+
+        <Flex gap="3" mt="5" align="end">
+          <label className="flex-1">
+            <Text as="div" size="2" mb="1" weight="medium">
+              Minutes
+            </Text>
+            <TextField.Root
+              type="number"
+              min={0}
+              value={minutes}
+              onChange={(event) => setMinutes(event.target.value)}
+            />
+          </label>
+          <label className="flex-1">
+            <Text as="div" size="2" mb="1" weight="medium">
+              Seconds
+            </Text>
+            <TextField.Root
+              type="number"
+              min={0}
+              max={59}
+              value={seconds}
+              onChange={(event) => setSeconds(event.target.value)}
+            />
+          </label>
+        </Flex>
+
+        <Text as="label" size="2" mt="4">
+          <Flex gap="2" align="center" mt="4">
+            <Checkbox checked={applyToAll} onCheckedChange={(checked) => setApplyToAll(checked === true)} />
+            Apply to all tracks
+          </Flex>
+        </Text>
+
+        <Flex gap="3" justify="end" mt="6">
+          <Button variant="soft" color="gray" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button disabled={!isValid} onClick={() => onSave(totalSec, applyToAll ? "all" : "track")}>
+            Save
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -6,7 +6,7 @@ import { createFetchMock } from "../test-utils";
 const fetchMock = createFetchMock();
 
 function MutationTest() {
-  const { mutate, data, error, loading } = useApiMutation<{ ok: boolean }, void>(() => ({
+  const { mutate, data, error, errorCode, loading } = useApiMutation<{ ok: boolean }, void>(() => ({
     url: "/api/test",
     method: "POST",
   }));
@@ -16,6 +16,7 @@ function MutationTest() {
       <button onClick={() => void mutate(undefined)}>Run</button>
       {loading && <div>Loading...</div>}
       {error && <div>Error: {error}</div>}
+      {errorCode && <div>Code: {errorCode}</div>}
       {data && <div>Done: {data.ok ? "yes" : "no"}</div>}
     </div>
   );
@@ -64,4 +65,23 @@ describe("useApiMutation", () => {
       expect(screen.getByText("Error: Server error")).toBeInTheDocument();
     });
   });
+
+  it("returns the API error code on failure", async () => {
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: false,
+        status: 401,
+        json: () =>
+          Promise.resolve({ error: { code: "LASTFM_NOT_CONNECTED", message: "Last.fm connection required" } }),
+      })
+    );
+
+    render(<MutationTest />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Run" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("Code: LASTFM_NOT_CONNECTED")).toBeInTheDocument();
+    });
+  });
 });
@@ -18,6 +18,8 @@ interface UseApiMutationResult<TData, TVariables> {
   mutate: (variables: TVariables) => Promise<TData | null>;
   data: TData | null;
   error: string | null;
+  /** API error code of the last failure, when the response had one */
+  errorCode: string | null;
   loading: boolean;
   reset: () => void;
 }
@@ -55,12 +57,14 @@ export function useApiMutation<TData = unknown, TVariables = void>(
 
   const [data, setData] = useState<TData | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
   const mutate = useCallback(
     async (variables: TVariables): Promise<TData | null> => {
       setLoading(true);
       setError(null);
+      setErrorCode(null);
       setData(null);
 
       const { url, method = "POST", body, headers } = requestConfig(variables);
@@ -80,10 +84,12 @@ export function useApiMutation<TData = unknown, TVariables = void>(
               (!retryOn5xxOnly || response.status >= 500);
 
             let errorMessage = `Request failed with status ${response.status}`;
+            let code: string | null = null;
             try {
-              const errorData: { error?: { message?: string } } =
+              const errorData: { error?: { code?: string; message?: string } } =
                 await response.json();
               errorMessage = errorData.error?.message ?? errorMessage;
+              code = errorData.error?.code ?? null;
             } catch {
               // Ignore JSON parse error
             }
@@ -91,6 +97,7 @@ export function useApiMutation<TData = unknown, TVariables = void>(
             if (!shouldRetry) {
               // Non-retriable HTTP error: set error state and return without going through generic retry path
               setError(errorMessage);
+              setErrorCode(code);
               setLoading(false);
 
               if (onError) {
@@ -147,6 +154,7 @@ export function useApiMutation<TData = unknown, TVariables = void>(
   const reset = useCallback(() => {
     setData(null);
     setError(null);
+    setErrorCode(null);
     setLoading(false);
   }, []);
 
@@ -154,6 +162,7 @@ export function useApiMutation<TData = unknown, TVariables = void>(
     mutate,
     data,
     error,
+    errorCode,
     loading,
     reset,
   };
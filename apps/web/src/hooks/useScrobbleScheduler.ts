@@ -1,5 +1,5 @@
 import { useEffect, useRef } from "react";
-import { getScrobbleThresholdMs } from "@repo/shared";
+import { createScrobblePolicy, getScrobbleThresholdMs } from "@repo/shared";
 import { getScrobbleDelay } from "../lib/settings";
 
 /**
@@ -39,8 +39,9 @@ export function useScrobbleScheduler(
     }
 
     const thresholdPercent = getScrobbleDelay();
-    const thresholdMs = getScrobbleThresholdMs(durationMs, thresholdPercent);
+    const thresholdMs = getScrobbleThresholdMs(durationMs, createScrobblePolicy(thresholdPercent));
 
+    // Null means the track is too short to scrobble at all
     if (!thresholdMs) return;
 
     // Set up a recurring check every 100ms to see if we've hit the threshold
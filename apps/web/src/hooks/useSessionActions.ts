@@ -1,11 +1,10 @@
 import { useCallback, useState } from "react";
+import { isSessionActionResponse } from "../lib/api";
 import { useApiMutation } from "./useApiMutation";
-import type { Session, SessionActionResponse, SessionTrackStatus } from "@repo/shared";
+import { endSession } from "@repo/shared";
+import type { Session, SessionActionResponse, SessionEndMode, SessionTrackStatus } from "@repo/shared";
 
-function isSessionActionResponse(value: unknown): value is SessionActionResponse {
-  if (!value || typeof value !== "object") return false;
-  return "session" in value;
-}
+type SessionAction = "pause" | "resume" | "flip" | "next" | "track-changed" | "skip" | "prev" | "end";
 
 /**
  * Manages session actions (play, pause, skip, end) with consistent error handling.
@@ -16,17 +15,22 @@ export function useSessionActions(
 ) {
   const [localError, setLocalError] = useState<string | null>(null);
   const sessionId = session?.id ?? "";
-  const { mutate, loading, error, reset } = useApiMutation<SessionActionResponse, {
-    action: "pause" | "resume" | "next" | "end";
+  const { mutate, loading, error, errorCode, reset } = useApiMutation<SessionActionResponse, {
+    action: SessionAction;
+    endMode?: SessionEndMode | undefined;
   }>(
-    ({ action }) => ({
+    ({ action, endMode }) => ({
       url: `/api/session/${sessionId}/${action}`,
       method: "POST",
+      ...(endMode && {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endMode }),
+      }),
     })
   );
 
   const executeAction = useCallback(
-    async (action: "pause" | "resume" | "next" | "end") => {
+    async (action: SessionAction, endMode?: SessionEndMode) => {
       if (!sessionId || !session) return;
 
       setLocalError(null);
@@ -36,21 +40,24 @@ export function useSessionActions(
         if (action === "pause") {
           return { ...session, state: "paused" as const };
         }
-        if (action === "resume") {
+        if (action === "resume" || action === "flip") {
           return { ...session, state: "running" as const };
         }
-        if (action === "next") {
+        if (action === "next" || action === "track-changed" || action === "skip") {
           const nextIndex = Math.min(
             session.currentIndex + 1,
             session.release.tracks.length - 1
           );
           
-          // Mark current track as scrobbled (matching backend behavior)
-          const updatedTracks = session.tracks.map((track, index) =>
-            index === session.currentIndex
+          // Mark current track as scrobbled or skipped (matching backend behavior)
+          const updatedTracks = session.tracks.map((track, index) => {
+            if (index !== session.currentIndex || track.status !== "pending") {
+              return track;
+            }
+            return action !== "skip"
               ? { ...track, status: "scrobbled" as SessionTrackStatus, scrobbledAt: Date.now() }
-              : track
-          );
+              : { ...track, status: "skipped" as SessionTrackStatus };
+          });
           
           if (nextIndex === session.currentIndex) {
             return { ...session, state: "ended" as const, tracks: updatedTracks };
@@ -58,8 +65,21 @@ export function useSessionActions(
           
           return { ...session, currentIndex: nextIndex, tracks: updatedTracks };
         }
+        if (action === "prev") {
+          if (session.currentIndex <= 0) {
+            return session;
+          }
+
+          // Restart the previous track; scrobble statuses are left as they are
+          const previousIndex = session.currentIndex - 1;
+          const updatedTracks = session.tracks.map((track, index) =>
+            index === previousIndex ? { ...track, startedAt: Date.now() } : track
+          );
+
+          return { ...session, currentIndex: previousIndex, tracks: updatedTracks };
+        }
         if (action === "end") {
-          return { ...session, state: "ended" as const };
+          return endSession(session, { endMode: endMode ?? "discard", endedAt: Date.now() });
         }
         return session;
       })();
@@ -68,7 +88,7 @@ export function useSessionActions(
         onSessionUpdate(optimisticSession);
       }
 
-      const raw = await mutate({ action });
+      const raw = await mutate({ action, endMode });
       if (!raw) {
         onSessionUpdate(previousSession);
         return;
@@ -87,16 +107,29 @@ export function useSessionActions(
 
   const pause = useCallback(() => executeAction("pause"), [executeAction]);
   const resume = useCallback(() => executeAction("resume"), [executeAction]);
+  const flip = useCallback(() => executeAction("flip"), [executeAction]);
   const next = useCallback(() => executeAction("next"), [executeAction]);
-  const end = useCallback(() => executeAction("end"), [executeAction]);
+  const trackChanged = useCallback(() => executeAction("track-changed"), [executeAction]);
+  const skip = useCallback(() => executeAction("skip"), [executeAction]);
+  const prev = useCallback(() => executeAction("prev"), [executeAction]);
+  const end = useCallback(
+    (endMode: SessionEndMode) => executeAction("end", endMode),
+    [executeAction]
+  );
 
   return {
     pause,
     resume,
+    flip,
     next,
+    trackChanged,
+    skip,
+    prev,
     end,
     isLoading: loading,
     error: localError ?? error,
+    /** API error code of the last failed action, when the response had one */
+    errorCode: localError ? null : errorCode,
     clearError: () => {
       setLocalError(null);
       reset();
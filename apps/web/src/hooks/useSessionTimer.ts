@@ -1,14 +1,33 @@
 import { useEffect, useRef, useState } from "react";
 import { formatDurationMs } from "../lib/format";
 
+function timerStorageKey(sessionId: string, trackIndex: number): string {
+  return `now-spinning:session-timer:${sessionId}:${trackIndex}`;
+}
+
+/**
+ * Forget the persisted elapsed time for a track so it starts again from zero
+ * the next time it becomes current (e.g. after moving back a track).
+ */
+export function clearSessionTimer(sessionId: string, trackIndex: number): void {
+  try {
+    sessionStorage.removeItem(timerStorageKey(sessionId, trackIndex));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
 /**
  * Manages elapsed time tracking for a session with sessionStorage persistence.
  * Handles running/paused states and persists timer state across page reloads.
+ * A track the server starts later (after the needle-drop gap) counts up from
+ * its `startedAt`, staying at zero until then.
  */
 export function useSessionTimer(
   sessionId: string | null,
   trackIndex: number,
-  isRunning: boolean
+  isRunning: boolean,
+  startedAt: number | null = null
 ) {
   const [nowMs, setNowMs] = useState(() => Date.now());
   const [elapsedMs, setElapsedMs] = useState(0);
@@ -44,7 +63,7 @@ export function useSessionTimer(
     const trackKey = `${sessionId}:${trackIndex}`;
     if (lastTrackKeyRef.current !== trackKey) {
       lastTrackKeyRef.current = trackKey;
-      storageKeyRef.current = `now-spinning:session-timer:${trackKey}`;
+      storageKeyRef.current = timerStorageKey(sessionId, trackIndex);
 
       try {
         const stored = sessionStorage.getItem(storageKeyRef.current);
@@ -69,7 +88,8 @@ export function useSessionTimer(
             localStartRef.current = null;
           }
         } else {
-          localElapsedRef.current = 0;
+          // Negative until a track that starts after the gap begins
+          localElapsedRef.current = startedAt !== null ? Math.min(0, Date.now() - startedAt) : 0;
           localStartRef.current = isRunning ? Date.now() : null;
         }
       } catch {
@@ -79,8 +99,10 @@ export function useSessionTimer(
       
       // Update elapsedMs state immediately to reflect the new track's time
       setElapsedMs(
-        localElapsedRef.current +
-          (localStartRef.current ? Date.now() - localStartRef.current : 0)
+        Math.max(
+          0,
+          localElapsedRef.current + (localStartRef.current ? Date.now() - localStartRef.current : 0)
+        )
       );
       return;
     }
@@ -96,15 +118,16 @@ export function useSessionTimer(
     }
 
     setElapsedMs(
-      localElapsedRef.current +
-        (localStartRef.current ? Date.now() - localStartRef.current : 0)
+      Math.max(
+        0,
+        localElapsedRef.current + (localStartRef.current ? Date.now() - localStartRef.current : 0)
+      )
     );
-  }, [sessionId, trackIndex, isRunning]);
+  }, [sessionId, trackIndex, isRunning, startedAt]);
 
   useEffect(() => {
     setElapsedMs(
-      localElapsedRef.current +
-        (localStartRef.current ? nowMs - localStartRef.current : 0)
+      Math.max(0, localElapsedRef.current + (localStartRef.current ? nowMs - localStartRef.current : 0))
     );
   }, [nowMs]);
 
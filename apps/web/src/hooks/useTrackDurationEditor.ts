@@ -0,0 +1,52 @@
+import { useCallback } from "react";
+import { setTrackDuration } from "@repo/shared";
+import type { Session, SessionActionResponse, SessionDurationScope } from "@repo/shared";
+import { isSessionActionResponse } from "../lib/api";
+import { useApiMutation } from "./useApiMutation";
+
+/**
+ * Overrides track durations for the current session.
+ * The edit is applied optimistically so timers pick up the new duration straight away.
+ */
+export function useTrackDurationEditor(
+  session: Session | null,
+  onSessionUpdate: (session: Session | null) => void
+) {
+  const sessionId = session?.id ?? "";
+  const { mutate, loading, error } = useApiMutation<SessionActionResponse, {
+    trackIndex: number;
+    durationSec: number;
+    scope: SessionDurationScope;
+  }>(
+    ({ trackIndex, durationSec, scope }) => ({
+      url: `/api/session/${sessionId}/tracks/${trackIndex}`,
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ durationSec, scope }),
+    })
+  );
+
+  const editDuration = useCallback(
+    async (trackIndex: number, durationSec: number, scope: SessionDurationScope) => {
+      if (!sessionId || !session) return;
+
+      const previousSession = session;
+      onSessionUpdate(setTrackDuration(session, trackIndex, durationSec, Date.now(), scope));
+
+      const raw = await mutate({ trackIndex, durationSec, scope });
+      if (!raw || !isSessionActionResponse(raw)) {
+        onSessionUpdate(previousSession);
+        return;
+      }
+
+      onSessionUpdate(raw.session);
+    },
+    [mutate, onSessionUpdate, session, sessionId]
+  );
+
+  return {
+    editDuration,
+    isLoading: loading,
+    error,
+  };
+}
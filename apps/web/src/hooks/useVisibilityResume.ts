@@ -1,6 +1,5 @@
 import { useCallback, useEffect, useRef } from "react";
 import { apiFetch } from "../lib/api";
-import { getScrobbleDelay } from "../lib/settings";
 import type { Session, SessionSyncResponse } from "@repo/shared";
 
 function isSessionSyncResponse(value: unknown): value is SessionSyncResponse {
@@ -11,8 +10,8 @@ function isSessionSyncResponse(value: unknown): value is SessionSyncResponse {
 interface UseVisibilityResumeOptions {
   /** Callback when sync succeeds — receives the server-authoritative session */
   onSync: (session: Session, scrobbledCount: number) => void;
-  /** Callback on sync error */
-  onError?: (error: string) => void;
+  /** Callback on sync error, with the API error code when the response had one */
+  onError?: (error: string, code: string | null) => void;
 }
 
 /**
@@ -52,21 +51,19 @@ export function useVisibilityResume(
     syncingRef.current = true;
 
     try {
-      const response = await apiFetch(`/api/session/${id}/sync`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ thresholdPercent: getScrobbleDelay() }),
-      });
+      const response = await apiFetch(`/api/session/${id}/sync`, { method: "POST" });
 
       if (!response.ok) {
         let message = `Sync failed (${response.status})`;
+        let code: string | null = null;
         try {
-          const body: { error?: { message?: string } } = await response.json();
+          const body: { error?: { code?: string; message?: string } } = await response.json();
           message = body.error?.message ?? message;
+          code = body.error?.code ?? null;
         } catch {
           // Ignore JSON parse error
         }
-        optionsRef.current.onError?.(message);
+        optionsRef.current.onError?.(message, code);
         return;
       }
 
@@ -76,7 +73,7 @@ export function useVisibilityResume(
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Sync request failed";
-      optionsRef.current.onError?.(message);
+      optionsRef.current.onError?.(message, null);
     } finally {
       syncingRef.current = false;
     }
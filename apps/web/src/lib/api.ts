@@ -1,3 +1,5 @@
+import type { SessionActionResponse } from "@repo/shared";
+
 /**
  * Construct the full API URL for a given endpoint path.
  * Uses environment variable or falls back to relative path for local dev.
@@ -25,3 +27,11 @@ export function apiFetch(path: string, init?: RequestInit): Promise<Response> {
     ...init,
   });
 }
+
+/**
+ * Whether a response body carries the session returned by a session action.
+ */
+export function isSessionActionResponse(value: unknown): value is SessionActionResponse {
+  if (!value || typeof value !== "object") return false;
+  return "session" in value;
+}
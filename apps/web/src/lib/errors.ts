@@ -1,7 +1,17 @@
+import { ErrorCode } from "@repo/shared";
+
 /**
  * Shared error message utilities for the web app.
  */
 
+/**
+ * Whether an API error code means Last.fm needs connecting again, either
+ * because it was never connected or because Last.fm revoked the session.
+ */
+export function isLastFmDisconnectedError(code: string | null): boolean {
+  return code === ErrorCode.LASTFM_NOT_CONNECTED || code === ErrorCode.LASTFM_SESSION_EXPIRED;
+}
+
 export async function getApiErrorMessage(response: Response, fallback: string): Promise<string> {
   try {
     const payload: unknown = await response.json();
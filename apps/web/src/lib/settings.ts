@@ -2,11 +2,25 @@
  * User settings persistence using localStorage
  */
 
+import type { ArtistCreditPolicy, DiscogsReleaseProfile } from '@repo/shared';
+
 const SCROBBLE_DELAY_KEY = 'scrobbleDelay';
 const NOTIFY_ON_SIDE_COMPLETION_KEY = 'notifyOnSideCompletion';
+const DEFAULT_TRACK_DURATION_KEY = 'defaultTrackDuration';
+const TRACK_GAP_KEY = 'trackGap';
+const ARTIST_CREDIT_KEY = 'artistCredit';
+const CLASSICAL_RELEASES_KEY = 'classicalReleases';
 
 const DEFAULT_SCROBBLE_DELAY = 50; // percentage
 const DEFAULT_NOTIFY_ON_SIDE_COMPLETION = true;
+const DEFAULT_TRACK_DURATION = 180; // seconds
+const DEFAULT_TRACK_GAP = 0; // seconds
+const DEFAULT_ARTIST_CREDIT: ArtistCreditPolicy = 'full';
+
+const MIN_TRACK_DURATION = 30;
+const MAX_TRACK_DURATION = 1800;
+const MAX_TRACK_GAP = 60;
+const ARTIST_CREDIT_POLICIES: readonly ArtistCreditPolicy[] = ['full', 'primary', 'feat'];
 
 /**
  * Check if localStorage is available (handles SSR and test environments)
@@ -81,3 +95,139 @@ export function setNotifyOnSideCompletion(value: boolean): void {
   }
   localStorage.setItem(NOTIFY_ON_SIDE_COMPLETION_KEY, value.toString());
 }
+
+/**
+ * Get the length assumed for tracks Discogs lists without a duration
+ * @returns Length in seconds (30-1800)
+ */
+export function getDefaultTrackDuration(): number {
+  if (!isLocalStorageAvailable()) {
+    return DEFAULT_TRACK_DURATION;
+  }
+
+  const stored = localStorage.getItem(DEFAULT_TRACK_DURATION_KEY);
+  if (stored === null) {
+    return DEFAULT_TRACK_DURATION;
+  }
+  const parsed = parseInt(stored, 10);
+  if (isNaN(parsed) || parsed < MIN_TRACK_DURATION || parsed > MAX_TRACK_DURATION) {
+    return DEFAULT_TRACK_DURATION;
+  }
+  return parsed;
+}
+
+/**
+ * Set the length assumed for tracks without a duration
+ * @param value - Length in seconds (30-1800)
+ */
+export function setDefaultTrackDuration(value: number): void {
+  if (value < MIN_TRACK_DURATION || value > MAX_TRACK_DURATION) {
+    throw new Error('Default track duration must be between 30 and 1800 seconds');
+  }
+  if (!isLocalStorageAvailable()) {
+    return; // Silently fail in environments without localStorage
+  }
+  localStorage.setItem(DEFAULT_TRACK_DURATION_KEY, value.toString());
+}
+
+/**
+ * Get the needle-drop gap between one track ending and the next starting
+ * @returns Gap in seconds (0-60)
+ */
+export function getTrackGap(): number {
+  if (!isLocalStorageAvailable()) {
+    return DEFAULT_TRACK_GAP;
+  }
+
+  const stored = localStorage.getItem(TRACK_GAP_KEY);
+  if (stored === null) {
+    return DEFAULT_TRACK_GAP;
+  }
+  const parsed = parseInt(stored, 10);
+  if (isNaN(parsed) || parsed < 0 || parsed > MAX_TRACK_GAP) {
+    return DEFAULT_TRACK_GAP;
+  }
+  return parsed;
+}
+
+/**
+ * Set the needle-drop gap between tracks
+ * @param value - Gap in seconds (0-60)
+ */
+export function setTrackGap(value: number): void {
+  if (value < 0 || value > MAX_TRACK_GAP) {
+    throw new Error('Track gap must be between 0 and 60 seconds');
+  }
+  if (!isLocalStorageAvailable()) {
+    return; // Silently fail in environments without localStorage
+  }
+  localStorage.setItem(TRACK_GAP_KEY, value.toString());
+}
+
+/**
+ * Get how releases with several credited artists are named
+ * @returns 'full', 'primary' or 'feat'
+ */
+export function getArtistCredit(): ArtistCreditPolicy {
+  if (!isLocalStorageAvailable()) {
+    return DEFAULT_ARTIST_CREDIT;
+  }
+
+  const stored = localStorage.getItem(ARTIST_CREDIT_KEY);
+  return ARTIST_CREDIT_POLICIES.find((policy) => policy === stored) ?? DEFAULT_ARTIST_CREDIT;
+}
+
+/**
+ * Set how releases with several credited artists are named
+ * @param value - 'full', 'primary' or 'feat'
+ */
+export function setArtistCredit(value: ArtistCreditPolicy): void {
+  if (!isLocalStorageAvailable()) {
+    return; // Silently fail in environments without localStorage
+  }
+  localStorage.setItem(ARTIST_CREDIT_KEY, value);
+}
+
+/**
+ * Read the ids of releases set to the classical profile
+ */
+function getClassicalReleaseIds(): string[] {
+  const stored = localStorage.getItem(CLASSICAL_RELEASES_KEY);
+  if (stored === null) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get how a release's tracks are titled and credited
+ * @param releaseId - Discogs release ID
+ * @returns 'classical' if chosen for this release, else 'standard'
+ */
+export function getReleaseProfile(releaseId: string): DiscogsReleaseProfile {
+  if (!isLocalStorageAvailable()) {
+    return 'standard';
+  }
+  return getClassicalReleaseIds().includes(releaseId) ? 'classical' : 'standard';
+}
+
+/**
+ * Set how a release's tracks are titled and credited
+ * @param releaseId - Discogs release ID
+ * @param profile - 'standard' or 'classical'
+ */
+export function setReleaseProfile(releaseId: string, profile: DiscogsReleaseProfile): void {
+  if (!isLocalStorageAvailable()) {
+    return; // Silently fail in environments without localStorage
+  }
+  const others = getClassicalReleaseIds().filter((id) => id !== releaseId);
+  localStorage.setItem(
+    CLASSICAL_RELEASES_KEY,
+    JSON.stringify(profile === 'classical' ? [...others, releaseId] : others)
+  );
+}
@@ -146,6 +146,32 @@ describe("Release Page", () => {
     });
   });
 
+  it("groups a multi-disc CD by disc", async () => {
+    const cdRelease: NormalizedRelease = {
+      ...mockRelease,
+      tracks: mockRelease.tracks.map((track) => ({
+        ...track,
+        position: `${track.index < 2 ? 1 : 2}-0${track.index + 1}`,
+        side: null,
+        disc: track.index < 2 ? 1 : 2,
+      })),
+    };
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => ({ release: cdRelease } satisfies DiscogsReleaseResponse<NormalizedRelease>),
+      })
+    );
+
+    renderWithRouter();
+
+    await waitFor(() => {
+      expect(screen.getByText("Disc 1")).toBeInTheDocument();
+      expect(screen.getByText("Disc 2")).toBeInTheDocument();
+    });
+    expect(screen.queryByText("Tracks")).not.toBeInTheDocument();
+  });
+
   it("displays all track information", async () => {
     fetchMock.mockImplementationOnce(() =>
       Promise.resolve({
@@ -366,6 +392,178 @@ describe("Release Page", () => {
     });
   });
 
+  it("starts a session timed by side when chosen", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => ({ release: mockRelease } satisfies DiscogsReleaseResponse<NormalizedRelease>),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: { id: "sess-123" } }),
+        })
+      );
+
+    renderWithRouter();
+
+    fireEvent.click(await screen.findByRole("checkbox", { name: /Time by side/i }));
+    fireEvent.click(screen.getByRole("button", { name: /Start Scrobbling/i }));
+
+    await waitFor(() => {
+      expect(fetchMock.mock.calls[1]?.[0]).toContain("/api/session/start");
+    });
+    const body = JSON.parse((fetchMock.mock.calls[1]?.[1] as RequestInit).body as string) as Record<string, unknown>;
+    expect(body.timerMode).toBe("side");
+    expect(body.pauseAtSideEnd).toBe(true);
+    expect(body).toMatchObject({ defaultTrackSec: 180, trackGapSec: 0 });
+  });
+
+  it("loads and starts the release with the chosen artist credit", async () => {
+    localStorage.setItem("artistCredit", "feat");
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => ({ release: mockRelease } satisfies DiscogsReleaseResponse<NormalizedRelease>),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: { id: "sess-123" } }),
+        })
+      );
+
+    try {
+      renderWithRouter();
+
+      fireEvent.click(await screen.findByRole("button", { name: /Start Scrobbling/i }));
+
+      await waitFor(() => {
+        expect(fetchMock.mock.calls[1]?.[0]).toContain("/api/session/start");
+      });
+      expect(fetchMock.mock.calls[0]?.[0]).toContain("/api/discogs/release/12345?artists=feat&profile=standard");
+      const body = JSON.parse((fetchMock.mock.calls[1]?.[1] as RequestInit).body as string) as Record<string, unknown>;
+      expect(body.artistCredit).toBe("feat");
+    } finally {
+      localStorage.removeItem("artistCredit");
+    }
+  });
+
+  it("reloads and starts the release with classical titles when chosen", async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => ({ release: mockRelease } satisfies DiscogsReleaseResponse<NormalizedRelease>),
+      })
+    );
+
+    try {
+      renderWithRouter();
+
+      fireEvent.click(await screen.findByRole("checkbox", { name: /Classical titles/i }));
+
+      await waitFor(() => {
+        expect(fetchMock.mock.calls[1]?.[0]).toContain("/api/discogs/release/12345?artists=full&profile=classical");
+      });
+      expect(localStorage.getItem("classicalReleases")).toBe(JSON.stringify(["12345"]));
+
+      fireEvent.click(await screen.findByRole("button", { name: /Start Scrobbling/i }));
+
+      await waitFor(() => {
+        expect(fetchMock.mock.calls[2]?.[0]).toContain("/api/session/start");
+      });
+      const body = JSON.parse((fetchMock.mock.calls[2]?.[1] as RequestInit).body as string) as Record<string, unknown>;
+      expect(body.profile).toBe("classical");
+    } finally {
+      fetchMock.mockReset();
+      localStorage.removeItem("classicalReleases");
+    }
+  });
+
+  it("logs a past listen from when it finished", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => ({ release: mockRelease } satisfies DiscogsReleaseResponse<NormalizedRelease>),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: {
+                id: "sess-retro",
+                tracks: [{ status: "scrobbled" }, { status: "scrobbled" }, { status: "scrobbled" }],
+              },
+            }),
+        })
+      );
+
+    renderWithRouter();
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: /Log past listen/i })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: /Log past listen/i }));
+    fireEvent.click(await screen.findByRole("button", { name: "Log listen" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("Logged 3 scrobbles from a past listen")).toBeInTheDocument();
+    });
+    expect(fetchMock.mock.calls[1]?.[0]).toContain("/api/session/retro");
+    const body = JSON.parse((fetchMock.mock.calls[1]?.[1] as RequestInit).body as string) as Record<string, unknown>;
+    expect(body).toMatchObject({
+      releaseId: "12345",
+      anchor: "finished",
+      defaultTrackSec: 180,
+      artistCredit: "full",
+      profile: "standard",
+    });
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("counts only the past listen's scrobbles Last.fm accepted", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => ({ release: mockRelease } satisfies DiscogsReleaseResponse<NormalizedRelease>),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: {
+                id: "sess-retro",
+                tracks: [
+                  { status: "scrobbled" },
+                  { status: "retrying" },
+                  { status: "scrobbled", scrobbleResponse: { accepted: false } },
+                ],
+              },
+            }),
+        })
+      );
+
+    renderWithRouter();
+
+    fireEvent.click(await screen.findByRole("button", { name: /Log past listen/i }));
+    fireEvent.click(await screen.findByRole("button", { name: "Log listen" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("Logged 1 scrobble from a past listen")).toBeInTheDocument();
+    });
+  });
+
   it("displays year when available", async () => {
     fetchMock.mockImplementationOnce(() =>
       Promise.resolve({
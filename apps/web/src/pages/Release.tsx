@@ -1,13 +1,33 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
+import { Checkbox, Flex, Text } from "@radix-ui/themes";
 import { Icon } from "../components/Icon";
 import { ErrorMessage } from "../components/ErrorMessage";
 import { ReleaseSkeleton } from "../components/ReleaseSkeleton";
+import { RetroListenModal } from "../components/RetroListenModal";
 import { useApiMutation } from "../hooks/useApiMutation";
 import { useApiQuery } from "../hooks/useApiQuery";
 import { formatDurationSec } from "../lib/format";
-import { getScrobbleDelay } from "../lib/settings";
-import type { DiscogsReleaseResponse, NormalizedRelease, SessionStartResponse } from "@repo/shared";
+import {
+  getArtistCredit,
+  getDefaultTrackDuration,
+  getNotifyOnSideCompletion,
+  getReleaseProfile,
+  getScrobbleDelay,
+  getTrackGap,
+  setReleaseProfile,
+} from "../lib/settings";
+import type {
+  ArtistCreditPolicy,
+  DiscogsReleaseProfile,
+  DiscogsReleaseResponse,
+  NormalizedRelease,
+  RetroAnchor,
+  SessionActionResponse,
+  SessionRetroRequest,
+  SessionStartResponse,
+  SessionTimerMode,
+} from "@repo/shared";
 import { DiscogsReleaseIdSchema } from "@repo/shared";
 
 export function Release() {
@@ -15,9 +35,14 @@ export function Release() {
   const navigate = useNavigate();
   const releaseIdResult = DiscogsReleaseIdSchema.safeParse(id ?? "");
   const releaseId = releaseIdResult.success ? releaseIdResult.data : null;
+  // Read once so the release shown is the one the session will scrobble
+  const [artistCredit] = useState(() => getArtistCredit());
+  const [profile, setProfile] = useState<DiscogsReleaseProfile>(() =>
+    releaseId ? getReleaseProfile(releaseId) : "standard"
+  );
 
   const { data, loading, error, refetch } = useApiQuery<DiscogsReleaseResponse<NormalizedRelease>>(
-    releaseId ? `/api/discogs/release/${releaseId}` : "",
+    releaseId ? `/api/discogs/release/${releaseId}?artists=${artistCredit}&profile=${profile}` : "",
     {
       enabled: Boolean(releaseId),
       errorMessage: "Failed to load release",
@@ -26,13 +51,26 @@ export function Release() {
   );
 
   const release = data?.release ?? null;
+  const [timeBySide, setTimeBySide] = useState(false);
 
   const {
     mutate: startSession,
     loading: starting,
     error: startError,
     reset: resetStartError,
-  } = useApiMutation<SessionStartResponse, { releaseId: string; thresholdPercent: number }>(
+  } = useApiMutation<
+    SessionStartResponse,
+    {
+      releaseId: string;
+      thresholdPercent: number;
+      timerMode: SessionTimerMode;
+      pauseAtSideEnd: boolean;
+      defaultTrackSec: number;
+      trackGapSec: number;
+      artistCredit: ArtistCreditPolicy;
+      profile: DiscogsReleaseProfile;
+    }
+  >(
     (vars) => ({
       url: "/api/session/start",
       method: "POST",
@@ -46,14 +84,43 @@ export function Release() {
     }
   );
 
+  const [showRetroModal, setShowRetroModal] = useState(false);
+  const [retroLogged, setRetroLogged] = useState<number | null>(null);
+
+  const {
+    mutate: logRetroListen,
+    loading: loggingRetro,
+    error: retroError,
+    reset: resetRetroError,
+  } = useApiMutation<SessionActionResponse, SessionRetroRequest>(
+    (vars) => ({
+      url: "/api/session/retro",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(vars),
+    }),
+    {
+      onSuccess: (data) => {
+        setShowRetroModal(false);
+        // Scrobbles queued for a retry or ignored by Last.fm are not logged yet
+        setRetroLogged(
+          data.session.tracks.filter(
+            (track) => track.status === "scrobbled" && track.scrobbleResponse?.accepted !== false
+          ).length
+        );
+      },
+    }
+  );
+
   const groupedTracks = useMemo(() => {
     if (!release) return [];
 
     const groups = new Map<string, typeof release.tracks>();
     const order: string[] = [];
 
+    // Vinyl and cassettes group by side, multi-disc CDs by disc
     release.tracks.forEach((track) => {
-      const key = track.side ?? "Tracks";
+      const key = track.side ? `Side ${track.side}` : track.disc ? `Disc ${track.disc}` : "Tracks";
       if (!groups.has(key)) {
         groups.set(key, []);
         order.push(key);
@@ -63,7 +130,7 @@ export function Release() {
 
     return order.map((key) => ({
       key,
-      label: key === "Tracks" ? "Tracks" : `Side ${key}`,
+      label: key,
       tracks: groups.get(key) ?? [],
     }));
   }, [release]);
@@ -71,7 +138,31 @@ export function Release() {
   const handleStartSession = async () => {
     if (!release) return;
     resetStartError();
-    await startSession({ releaseId: release.id, thresholdPercent: getScrobbleDelay() });
+    await startSession({
+      releaseId: release.id,
+      thresholdPercent: getScrobbleDelay(),
+      timerMode: timeBySide ? "side" : "track",
+      pauseAtSideEnd: getNotifyOnSideCompletion(),
+      defaultTrackSec: getDefaultTrackDuration(),
+      trackGapSec: getTrackGap(),
+      artistCredit,
+      profile,
+    });
+  };
+
+  const handleLogRetroListen = async (anchor: RetroAnchor, at: number) => {
+    if (!release) return;
+    resetRetroError();
+    setRetroLogged(null);
+    await logRetroListen({
+      releaseId: release.id,
+      anchor,
+      at,
+      thresholdPercent: getScrobbleDelay(),
+      defaultTrackSec: getDefaultTrackDuration(),
+      artistCredit,
+      profile,
+    });
   };
 
   const errorMessage = error ?? startError;
@@ -159,6 +250,52 @@ export function Release() {
             <Icon name={starting ? "sync" : "play_arrow"} className={starting ? "animate-spin" : ""} />
             {starting ? "Starting..." : "Start Scrobbling"}
           </button>
+          <Text as="label" size="2" className="block mt-3">
+            <Flex gap="2" align="start">
+              <Checkbox
+                checked={timeBySide}
+                onCheckedChange={(checked) => setTimeBySide(checked === true)}
+                className="mt-0.5"
+              />
+              <span>
+                Time by side
+                <span className="block text-[11px] opacity-50">
+                  One timer per side, for records with unreliable track lengths
+                </span>
+              </span>
+            </Flex>
+          </Text>
+          <Text as="label" size="2" className="block mt-3">
+            <Flex gap="2" align="start">
+              <Checkbox
+                checked={profile === "classical"}
+                onCheckedChange={(checked) => {
+                  const next = checked === true ? "classical" : "standard";
+                  setProfile(next);
+                  setReleaseProfile(release.id, next);
+                }}
+                className="mt-0.5"
+              />
+              <span>
+                Classical titles
+                <span className="block text-[11px] opacity-50">
+                  Scrobble movements as Composer: Work - Movement, credited to the performers
+                </span>
+              </span>
+            </Flex>
+          </Text>
+          <button
+            onClick={() => setShowRetroModal(true)}
+            className="mt-3 w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-white/10 text-sm font-semibold opacity-80 hover:bg-white/5 transition-all"
+          >
+            <Icon name="history" />
+            Log past listen
+          </button>
+          {retroLogged !== null && (
+            <p className="mt-3 text-center text-xs text-primary" role="status">
+              Logged {retroLogged} {retroLogged === 1 ? "scrobble" : "scrobbles"} from a past listen
+            </p>
+          )}
         </div>
         </div>{/* end left column */}
 
@@ -186,7 +323,11 @@ export function Release() {
                         <p className="text-[11px] opacity-40 truncate">{track.artist}</p>
                       ) : null}
                     </div>
-                    <span className="text-[10px] opacity-40 shrink-0">
+                    <span
+                      className="text-[10px] opacity-40 shrink-0"
+                      title={track.durationSource === "master" ? "Timing from the master release" : undefined}
+                    >
+                      {track.durationSource === "master" ? "~" : ""}
                       {formatDurationSec(track.durationSec)}
                     </span>
                   </div>
@@ -198,6 +339,21 @@ export function Release() {
         </div>{/* end desktop grid */}
       </main>
 
+      {showRetroModal && (
+        <RetroListenModal
+          isOpen={showRetroModal}
+          releaseTitle={release.title}
+          defaultTrackSec={getDefaultTrackDuration()}
+          submitting={loggingRetro}
+          error={retroError}
+          onSubmit={(anchor, at) => void handleLogRetroListen(anchor, at)}
+          onCancel={() => {
+            setShowRetroModal(false);
+            resetRetroError();
+          }}
+        />
+      )}
+
       {errorMessage && (
         <div className="fixed bottom-24 left-0 right-0 mx-auto max-w-md px-4">
           <ErrorMessage message={errorMessage} />
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { BrowserRouter } from "react-router-dom";
-import type { Session, SessionCurrentResponse } from "@repo/shared";
+import type { PendingScrobble, Session, SessionCurrentResponse } from "@repo/shared";
 import { SessionPage } from "./Session";
 import { createFetchMock } from "../test-utils";
 
@@ -44,14 +44,18 @@ const mockSession: Session = {
       status: "pending",
       startedAt: null,
       scrobbledAt: null,
+      pauses: [],
     },
     {
       index: 1,
       status: "pending",
       startedAt: null,
       scrobbledAt: null,
+      pauses: [],
     },
   ],
+  events: [],
+  version: 0,
 };
 
 const renderSessionPage = () => {
@@ -329,6 +333,74 @@ describe("SessionPage", () => {
     });
   });
 
+  it("flags a scrobbled track Last.fm corrected in the track list", async () => {
+    const correctedSession: Session = {
+      ...mockSession,
+      tracks: mockSession.tracks.map((track) =>
+        track.index === 0
+          ? {
+              ...track,
+              status: "scrobbled",
+              scrobbledAt: Date.now(),
+              scrobbleResponse: {
+                accepted: true,
+                ignoredReason: null,
+                ignoredMessage: null,
+                corrected: { artist: null, track: "First Track (Remastered)", album: null },
+              },
+            }
+          : track
+      ),
+    };
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ session: correctedSession } satisfies SessionCurrentResponse),
+      })
+    );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Corrected by Last.fm to track "First Track (Remastered)"')).toBeInTheDocument();
+    });
+  });
+
+  it("does not offer a retry for a track Last.fm ignored", async () => {
+    const ignoredSession: Session = {
+      ...mockSession,
+      currentIndex: 1,
+      tracks: mockSession.tracks.map((track) =>
+        track.index === 0
+          ? {
+              ...track,
+              status: "failed",
+              scrobbleResponse: {
+                accepted: false,
+                ignoredReason: "artist-ignored",
+                ignoredMessage: null,
+                corrected: { artist: null, track: null, album: null },
+              },
+            }
+          : track
+      ),
+    };
+    fetchMock.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ session: ignoredSession } satisfies SessionCurrentResponse),
+      })
+    );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByText("Artist ignored by Last.fm")).toBeInTheDocument();
+    });
+    expect(screen.queryByRole("button", { name: "Retry now" })).not.toBeInTheDocument();
+    expect(fetchMock.mock.calls.some(([url]) => (url as string).endsWith("/api/scrobbles/pending"))).toBe(false);
+  });
+
   it("handles pause action", async () => {
     fetchMock
       .mockImplementationOnce(() =>
@@ -436,6 +508,138 @@ describe("SessionPage", () => {
     });
   });
 
+  it("prompts a reconnect when moving on finds the Last.fm session expired", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: mockSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: false,
+          status: 401,
+          json: () =>
+            Promise.resolve({
+              error: { code: "LASTFM_SESSION_EXPIRED", message: "Last.fm session expired, reconnect to keep scrobbling" },
+            }),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Next track")).toBeInTheDocument();
+    });
+    expect(screen.queryByRole("button", { name: "Reconnect" })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Next track"));
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Reconnect" })).toBeInTheDocument();
+    });
+  });
+
+  it("handles skip without scrobbling action", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: mockSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: {
+                ...mockSession,
+                currentIndex: 1,
+                tracks: [
+                  { index: 0, status: "skipped", startedAt: null, scrobbledAt: null, pauses: [] },
+                  { index: 1, status: "pending", startedAt: Date.now(), scrobbledAt: null, pauses: [] },
+                ],
+              },
+            } satisfies SessionCurrentResponse),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Skip track without scrobbling")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByLabelText("Skip track without scrobbling"));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/session/sess-123/skip", {
+        credentials: "include",
+        method: "POST",
+      });
+    });
+  });
+
+  it("disables previous track button on the first track", async () => {
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ session: mockSession } satisfies SessionCurrentResponse),
+      })
+    );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Previous track")).toBeDisabled();
+    });
+  });
+
+  it("handles previous track action", async () => {
+    const secondTrackSession: Session = {
+      ...mockSession,
+      currentIndex: 1,
+      tracks: [
+        { index: 0, status: "scrobbled", startedAt: Date.now() - 300000, scrobbledAt: Date.now() - 60000, pauses: [] },
+        { index: 1, status: "pending", startedAt: Date.now() - 60000, scrobbledAt: null, pauses: [] },
+      ],
+    };
+
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: secondTrackSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: { ...secondTrackSession, currentIndex: 0 },
+            } satisfies SessionCurrentResponse),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Previous track")).toBeEnabled();
+    });
+
+    fireEvent.click(screen.getByLabelText("Previous track"));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/session/sess-123/prev", {
+        credentials: "include",
+        method: "POST",
+      });
+    });
+  });
+
   it("displays error message when action fails", async () => {
     fetchMock
       .mockImplementationOnce(() =>
@@ -541,6 +745,214 @@ describe("SessionPage", () => {
     expect(screen.getByRole("button", { name: "End Session" })).toBeInTheDocument();
   });
 
+  it("ends the session with the mode picked in the end chooser", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: mockSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: {
+                ...mockSession,
+                state: "ended",
+                tracks: mockSession.tracks.map((track) => ({ ...track, status: "skipped" as const })),
+              },
+            } satisfies SessionCurrentResponse),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "End Session" })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "End Session" }));
+    fireEvent.click(await screen.findByRole("button", { name: "Mark remaining as skipped" }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/session/sess-123/end", {
+        credentials: "include",
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endMode: "skip-remaining" }),
+      });
+    });
+  });
+
+  it("edits the current track duration for this session", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: mockSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: {
+                ...mockSession,
+                release: {
+                  ...mockSession.release,
+                  tracks: mockSession.release.tracks.map((track) =>
+                    track.index === 0 ? { ...track, durationSec: 330 } : track
+                  ),
+                },
+              },
+            } satisfies SessionCurrentResponse),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Edit track duration")).toHaveTextContent("4:00");
+    });
+
+    fireEvent.click(screen.getByLabelText("Edit track duration"));
+    fireEvent.change(await screen.findByLabelText("Minutes"), { target: { value: "5" } });
+    fireEvent.change(screen.getByLabelText("Seconds"), { target: { value: "30" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/session/sess-123/tracks/0", {
+        credentials: "include",
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ durationSec: 330, scope: "track" }),
+      });
+    });
+    expect(screen.getByLabelText("Edit track duration")).toHaveTextContent("5:30");
+  });
+
+  it("shows the side timer and reports a track change in side mode", async () => {
+    const sideSession: Session = { ...mockSession, timerMode: "side", sideDurationsMs: [300_000, 180_000] };
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: sideSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              session: {
+                ...sideSession,
+                currentIndex: 1,
+                sideDurationsMs: [60_000, 420_000],
+              },
+            } satisfies SessionCurrentResponse),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Track changed" })).toBeInTheDocument();
+    });
+    // The inferred length, not the listed 4:00
+    expect(screen.getByLabelText("Edit track duration")).toHaveTextContent("5:00");
+    expect(screen.getByText(/\/ 8:00/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Track changed" }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/session/sess-123/track-changed", {
+        credentials: "include",
+        method: "POST",
+      });
+    });
+    await waitFor(() => {
+      expect(screen.getByLabelText("Edit track duration")).toHaveTextContent("7:00");
+    });
+  });
+
+  it("asks for a flip when the session waits at the end of a side", async () => {
+    const flipSession: Session = {
+      ...mockSession,
+      state: "awaiting-flip",
+      currentIndex: 1,
+      release: {
+        ...mockSession.release,
+        tracks: mockSession.release.tracks.map((track) =>
+          track.index === 1 ? { ...track, position: "B1", side: "B" as const } : track
+        ),
+      },
+    };
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ session: flipSession } satisfies SessionCurrentResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({ session: { ...flipSession, state: "running" } } satisfies SessionCurrentResponse),
+        })
+      );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByText("Time to flip the record")).toBeInTheDocument();
+    });
+    expect(screen.getByLabelText("Play")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Continue to side B" }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith("/api/session/sess-123/flip", {
+        credentials: "include",
+        method: "POST",
+      });
+    });
+    await waitFor(() => {
+      expect(screen.queryByText("Time to flip the record")).not.toBeInTheDocument();
+    });
+  });
+
+  it("asks for the next record when the next side is on another one", async () => {
+    const changeSession: Session = {
+      ...mockSession,
+      state: "awaiting-flip",
+      currentIndex: 1,
+      release: {
+        ...mockSession.release,
+        tracks: mockSession.release.tracks.map((track) =>
+          track.index === 0 ? { ...track, position: "B4", side: "B" } : { ...track, position: "C1", side: "C" }
+        ),
+      },
+    };
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ session: changeSession } satisfies SessionCurrentResponse),
+      })
+    );
+
+    renderSessionPage();
+
+    await waitFor(() => {
+      expect(screen.getByText("Time to change the record")).toBeInTheDocument();
+    });
+    expect(screen.getByText(/Put on side C to keep listening/)).toBeInTheDocument();
+  });
+
   describe("session completion view", () => {
     const endedSession: Session = {
       ...mockSession,
@@ -552,12 +964,14 @@ describe("SessionPage", () => {
           status: "scrobbled",
           startedAt: Date.now() - 300000,
           scrobbledAt: Date.now() - 60000,
+          pauses: [],
         },
         {
           index: 1,
           status: "scrobbled",
           startedAt: Date.now() - 60000,
           scrobbledAt: Date.now() - 1000,
+          pauses: [],
         },
       ],
     };
@@ -695,12 +1109,14 @@ describe("SessionPage", () => {
             status: "scrobbled",
             startedAt: Date.now() - 300000,
             scrobbledAt: Date.now() - 60000,
+            pauses: [],
           },
           {
             index: 1,
             status: "skipped",
             startedAt: null,
             scrobbledAt: null,
+            pauses: [],
           },
         ],
       };
@@ -718,5 +1134,177 @@ describe("SessionPage", () => {
         expect(screen.getByText("1 skipped")).toBeInTheDocument();
       });
     });
+
+    it("flags tracks Last.fm ignored or corrected", async () => {
+      const sessionWithWarnings: Session = {
+        ...endedSession,
+        tracks: [
+          {
+            ...endedSession.tracks[0]!,
+            status: "failed",
+            scrobbledAt: null,
+            scrobbleResponse: {
+              accepted: false,
+              ignoredReason: "timestamp-too-old",
+              ignoredMessage: "Timestamp was too old",
+              corrected: { artist: null, track: null, album: null },
+            },
+          },
+          {
+            ...endedSession.tracks[1]!,
+            scrobbleResponse: {
+              accepted: true,
+              ignoredReason: null,
+              ignoredMessage: null,
+              corrected: { artist: null, track: "Second Track (Live)", album: null },
+            },
+          },
+        ],
+      };
+
+      // apiFetch always requests a URL string
+      fetchMock.mockImplementation((input) => {
+        const body: unknown = (input as string).endsWith("/api/scrobbles/pending")
+          ? { items: [] }
+          : { session: sessionWithWarnings };
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+      });
+
+      renderSessionPage();
+
+      await waitFor(() => {
+        expect(screen.getByText("Listen too old for Last.fm")).toBeInTheDocument();
+      });
+      expect(screen.getByTitle("Timestamp was too old")).toBeInTheDocument();
+      expect(screen.getByText('Corrected by Last.fm to track "Second Track (Live)"')).toBeInTheDocument();
+    });
+
+    it("lists pending scrobbles and retries them on request", async () => {
+      const sessionWithRetry: Session = {
+        ...endedSession,
+        tracks: [
+          {
+            index: 0,
+            status: "failed",
+            startedAt: Date.now() - 300000,
+            scrobbledAt: null,
+            pauses: [],
+          },
+          {
+            index: 1,
+            status: "scrobbled",
+            startedAt: Date.now() - 120000,
+            scrobbledAt: Date.now() - 60000,
+            pauses: [],
+          },
+        ],
+      };
+      const pending: PendingScrobble = {
+        sessionId: sessionWithRetry.id,
+        releaseId: sessionWithRetry.release.id,
+        trackIndex: 0,
+        artist: "Test Artist",
+        track: "First Track",
+        album: "Test Album",
+        durationSec: 240,
+        startedAt: Date.now() - 300000,
+        status: "failed",
+        attempts: 6,
+        nextAttemptAt: null,
+        lastError: "Service offline",
+      };
+      const retried: Session = {
+        ...sessionWithRetry,
+        tracks: sessionWithRetry.tracks.map((track) =>
+          track.index === 0 ? { ...track, status: "scrobbled", scrobbledAt: Date.now() } : track
+        ),
+      };
+
+      // apiFetch always requests a URL string
+      fetchMock.mockImplementation((input) => {
+        const url = input as string;
+        const body: unknown = url.endsWith("/api/scrobbles/pending")
+          ? { items: [pending] }
+          : url.endsWith("/api/scrobbles/pending/retry")
+            ? { items: [] }
+            : {
+                session: fetchMock.mock.calls.some(([called]) => (called as string).endsWith("/retry"))
+                  ? retried
+                  : sessionWithRetry,
+              };
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+      });
+
+      renderSessionPage();
+
+      await waitFor(() => {
+        expect(screen.getByText("1 scrobble waiting for Last.fm")).toBeInTheDocument();
+        expect(screen.getByText("1 stopped retrying automatically")).toBeInTheDocument();
+        expect(screen.getByLabelText("Scrobble failed")).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole("button", { name: "Retry now" }));
+
+      await waitFor(() => {
+        expect(screen.queryByText("1 scrobble waiting for Last.fm")).not.toBeInTheDocument();
+        expect(screen.queryByLabelText("Scrobble failed")).not.toBeInTheDocument();
+        expect(screen.getAllByLabelText("Scrobbled track")).toHaveLength(2);
+      });
+    });
+
+    it("prompts a reconnect when a retry finds Last.fm disconnected", async () => {
+      const sessionWithRetry: Session = {
+        ...endedSession,
+        tracks: endedSession.tracks.map((track) =>
+          track.index === 0 ? { ...track, status: "failed", scrobbledAt: null } : track
+        ),
+      };
+      const pending: PendingScrobble = {
+        sessionId: sessionWithRetry.id,
+        releaseId: sessionWithRetry.release.id,
+        trackIndex: 0,
+        artist: "Test Artist",
+        track: "First Track",
+        album: "Test Album",
+        durationSec: 240,
+        startedAt: Date.now() - 300000,
+        status: "failed",
+        attempts: 2,
+        nextAttemptAt: null,
+        lastError: "Invalid session key - Please re-authenticate",
+      };
+
+      // apiFetch always requests a URL string
+      fetchMock.mockImplementation((input) => {
+        const url = input as string;
+        if (url.endsWith("/api/scrobbles/pending/retry")) {
+          return Promise.resolve({
+            ok: false,
+            status: 401,
+            json: () =>
+              Promise.resolve({
+                error: { code: "LASTFM_NOT_CONNECTED", message: "Last.fm connection required" },
+              }),
+          });
+        }
+        const body: unknown = url.endsWith("/api/scrobbles/pending")
+          ? { items: [pending] }
+          : { session: sessionWithRetry };
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+      });
+
+      renderSessionPage();
+
+      await waitFor(() => {
+        expect(screen.getByText("1 scrobble waiting for Last.fm")).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole("button", { name: "Retry now" }));
+
+      await waitFor(() => {
+        expect(screen.getByText("Last.fm disconnected")).toBeInTheDocument();
+        expect(screen.getByRole("button", { name: "Reconnect" })).toBeInTheDocument();
+      });
+    });
   });
 });
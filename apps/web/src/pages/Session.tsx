@@ -5,17 +5,24 @@ import { SessionControls } from "../components/SessionControls";
 import { SessionProgress } from "../components/SessionProgress";
 import { SessionTrackInfo } from "../components/SessionTrackInfo";
 import { SideCompletionModal } from "../components/SideCompletionModal";
+import { TrackDurationModal } from "../components/TrackDurationModal";
 import { ErrorMessage } from "../components/ErrorMessage";
+import { LastFmReconnectPrompt } from "../components/LastFmReconnectPrompt";
+import { PendingScrobbles } from "../components/PendingScrobbles";
+import { ScrobbleWarningBadge } from "../components/ScrobbleWarningBadge";
 import { SessionComplete } from "../components/SessionComplete";
 import { SessionSkeleton } from "../components/SessionSkeleton";
-import { getNotifyOnSideCompletion } from "../lib/settings";
+import { isSessionActionResponse } from "../lib/api";
+import { isLastFmDisconnectedError } from "../lib/errors";
 import { useApiMutation } from "../hooks/useApiMutation";
 import { useApiQuery } from "../hooks/useApiQuery";
-import { useSessionTimer } from "../hooks/useSessionTimer";
+import { clearSessionTimer, useSessionTimer } from "../hooks/useSessionTimer";
 import { useAutoAdvance } from "../hooks/useAutoAdvance";
 import { useScrobbleScheduler } from "../hooks/useScrobbleScheduler";
 import { useSessionActions } from "../hooks/useSessionActions";
+import { useTrackDurationEditor } from "../hooks/useTrackDurationEditor";
 import { useVisibilityResume } from "../hooks/useVisibilityResume";
+import { getSessionTrackDurationMs, getSideTimer, parseDiscogsPosition } from "@repo/shared";
 import type { Session, SessionCurrentResponse, SessionActionResponse } from "@repo/shared";
 
 function isSessionCurrentResponse(value: unknown): value is SessionCurrentResponse {
@@ -23,20 +30,11 @@ function isSessionCurrentResponse(value: unknown): value is SessionCurrentRespon
   return "session" in value;
 }
 
-function isSessionActionResponse(value: unknown): value is SessionActionResponse {
-  if (!value || typeof value !== "object") return false;
-  return "session" in value;
-}
-
 export function SessionPage() {
   const [session, setSession] = useState<Session | null>(null);
-  const [showSideCompletionModal, setShowSideCompletionModal] = useState(false);
-  const [sideCompletionInfo, setSideCompletionInfo] = useState<{
-    currentSide: string;
-    nextSide: string;
-    currentTitle: string;
-    nextTitle: string;
-  } | null>(null);
+  // Track index of the flip prompt the user chose to keep paused on
+  const [dismissedFlipIndex, setDismissedFlipIndex] = useState<number | null>(null);
+  const [showDurationModal, setShowDurationModal] = useState(false);
   const sessionRef = useRef<Session | null>(null);
 
   const {
@@ -79,9 +77,13 @@ export function SessionPage() {
     return session.release.tracks[session.currentIndex - 1] ?? null;
   }, [session]);
 
-  const durationMs = currentTrack?.durationSec && currentTrack.durationSec > 0
-    ? currentTrack.durationSec * 1000
-    : null;
+  // In side mode this is the track's inferred length within the side
+  const durationMs = session ? getSessionTrackDurationMs(session, session.currentIndex) : null;
+
+  const sideTimer = useMemo(
+    () => (session?.timerMode === "side" ? getSideTimer(session) : null),
+    [session]
+  );
 
   const isRunning = session?.state === "running";
 
@@ -89,33 +91,31 @@ export function SessionPage() {
   const { elapsedMs, formatTime } = useSessionTimer(
     session?.id ?? null,
     session?.currentIndex ?? 0,
-    isRunning
+    isRunning,
+    session?.tracks[session.currentIndex]?.startedAt ?? null
   );
 
   const sessionActions = useSessionActions(session, setSession);
+  const durationEditor = useTrackDurationEditor(session, setSession);
 
-  const { mutate: scrobbleCurrent } = useApiMutation<
+  const { mutate: scrobbleCurrent, errorCode: scrobbleErrorCode } = useApiMutation<
     SessionActionResponse,
-    { sessionId: string; elapsedMs: number; thresholdPercent: number }
+    { sessionId: string; elapsedMs: number }
   >((vars) => ({
     url: `/api/session/${vars.sessionId}/scrobble-current`,
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      elapsedMs: vars.elapsedMs,
-      thresholdPercent: vars.thresholdPercent,
-    }),
+    body: JSON.stringify({ elapsedMs: vars.elapsedMs }),
   }));
 
   const handleScrobbleCurrent = useCallback(
-    async (elapsedMs: number, thresholdPercent: number) => {
+    async (elapsedMs: number) => {
       const currentSession = sessionRef.current;
       if (!currentSession) return;
 
       const raw = await scrobbleCurrent({
         sessionId: currentSession.id,
         elapsedMs,
-        thresholdPercent,
       });
 
       if (raw && isSessionActionResponse(raw)) {
@@ -134,6 +134,8 @@ export function SessionPage() {
     handleScrobbleCurrent
   );
 
+  const [syncErrorCode, setSyncErrorCode] = useState<string | null>(null);
+
   const handleVisibilitySync = useCallback(
     (syncedSession: Session, _scrobbledCount: number) => {
       for (const track of syncedSession.tracks) {
@@ -141,6 +143,7 @@ export function SessionPage() {
           markAsScrobbled(syncedSession.id, track.index);
         }
       }
+      setSyncErrorCode(null);
       setSession(syncedSession);
     },
     [markAsScrobbled]
@@ -148,63 +151,58 @@ export function SessionPage() {
 
   useVisibilityResume(session?.id ?? null, isRunning, {
     onSync: handleVisibilitySync,
+    onError: (_message, code) => setSyncErrorCode(code),
   });
 
+  // Any session request can find Last.fm disconnected, whether the server
+  // revoked the key while scrobbling or on an earlier request
+  const needsLastFmReconnect = [scrobbleErrorCode, sessionActions.errorCode, syncErrorCode].some(
+    isLastFmDisconnectedError
+  );
+
+  // Sessions stored before sides past D were recognised may lack the side
   const getSideFromTrack = useCallback((track: Session["release"]["tracks"][number] | undefined) => {
     if (!track) return null;
-    if (track.side) return track.side;
-    const match = track.position?.trim().match(/^[A-Za-z]/);
-    return match ? match[0].toUpperCase() : null;
+    return track.side ?? parseDiscogsPosition(track.position).side;
   }, []);
 
-  const getSideCompletionInfo = useCallback(() => {
-    if (!session) return null;
-    const current = session.release.tracks[session.currentIndex];
-    const next = session.release.tracks[session.currentIndex + 1];
-    if (!current || !next) return null;
-
-    const currentSide = getSideFromTrack(current);
-    const nextSide = getSideFromTrack(next);
-    if (!currentSide || !nextSide || currentSide === nextSide) return null;
+  // The server stops at the end of a side until the record is flipped
+  const sideCompletionInfo = useMemo(() => {
+    if (session?.state !== "awaiting-flip") return null;
+    const finished = session.release.tracks[session.currentIndex - 1];
+    const next = session.release.tracks[session.currentIndex];
+    if (!finished || !next) return null;
 
     return {
-      currentSide,
-      nextSide,
-      currentTitle: current.title || "Unknown",
+      currentSide: getSideFromTrack(finished) ?? "",
+      nextSide: getSideFromTrack(next) ?? "",
+      currentTitle: finished.title || "Unknown",
       nextTitle: next.title || "Unknown",
     };
   }, [getSideFromTrack, session]);
 
   const handleNext = useCallback(async () => {
-    const info = getSideCompletionInfo();
-    if (info && getNotifyOnSideCompletion()) {
-      setSideCompletionInfo(info);
-      setShowSideCompletionModal(true);
-      if (session?.state === "running") {
-        await sessionActions.pause();
-      }
-      return;
-    }
-
     await sessionActions.next();
-  }, [getSideCompletionInfo, session, sessionActions]);
+  }, [sessionActions]);
 
+  // In track mode the server starts the next track after the needle-drop gap;
+  // side mode waits it out here so the next track starts when it is heard
   useAutoAdvance(
     isRunning,
-    durationMs,
+    durationMs !== null
+      ? durationMs + (session?.timerMode === "side" ? (session.trackGapMs ?? 0) : 0)
+      : null,
     elapsedMs,
     handleNext
   );
 
   const handleSideCompletionContinue = useCallback(async () => {
-    setShowSideCompletionModal(false);
-    setSideCompletionInfo(null);
-    await sessionActions.next();
+    await sessionActions.flip();
   }, [sessionActions]);
 
   const handleSideCompletionPause = useCallback(() => {
-    setShowSideCompletionModal(false);
-  }, []);
+    setDismissedFlipIndex(session?.currentIndex ?? null);
+  }, [session]);
 
   const handlePlayPause = useCallback(async () => {
     if (session?.state === "running") {
@@ -218,17 +216,31 @@ export function SessionPage() {
     ? session.currentIndex < session.release.tracks.length - 1
     : false;
 
-  const handleSkipBack = () => {
-    // Skip back not implemented yet - would require API endpoint
-  };
+  const canSkipBack = session ? session.currentIndex > 0 : false;
+
+  // Tracks Last.fm ignored or refused are failed without being queued, so only
+  // retrying tracks mean the queue has something to retry
+  const hasPendingRetries = session
+    ? session.tracks.some((track) => track.status === "retrying")
+    : false;
+
+  const handleSkipBack = useCallback(async () => {
+    if (!session || session.currentIndex <= 0) return;
+
+    // Both tracks restart from zero when they next become current
+    clearSessionTimer(session.id, session.currentIndex);
+    clearSessionTimer(session.id, session.currentIndex - 1);
+    await sessionActions.prev();
+  }, [session, sessionActions]);
 
   const progressPct = durationMs
     ? Math.min(100, Math.max(0, (elapsedMs / durationMs) * 100))
     : 0;
 
-  const errorMessage = loadError ?? sessionActions.error;
+  const errorMessage = loadError ?? sessionActions.error ?? durationEditor.error;
 
-  if (loading) {
+  // Refetches keep showing the session they are refreshing
+  if (loading && !session) {
     return <SessionSkeleton />;
   }
 
@@ -269,6 +281,7 @@ export function SessionPage() {
       <SessionComplete
         session={session}
         onDismiss={() => setSession(null)}
+        onScrobblesRetried={() => void refetch()}
       />
     );
   }
@@ -318,29 +331,68 @@ export function SessionPage() {
                     <p className="text-[11px] opacity-50 truncate">
                       {previousTrack.artist || session.release.artist}
                     </p>
+                    <ScrobbleWarningBadge
+                      response={session.tracks[previousTrack.index]?.scrobbleResponse}
+                    />
                   </div>
                 </div>
               </div>
             )}
 
+            {needsLastFmReconnect && (
+              <div className="mt-6">
+                <LastFmReconnectPrompt />
+              </div>
+            )}
+
+            {hasPendingRetries && (
+              <div className="mt-6">
+                <PendingScrobbles onRetried={() => void refetch()} />
+              </div>
+            )}
+
             <div className="mt-8">
               <SessionProgress
                 elapsedMs={elapsedMs}
                 durationMs={durationMs}
                 progressPercent={progressPct}
                 formatTime={formatTime}
+                onEditDuration={() => setShowDurationModal(true)}
               />
             </div>
 
+            {sideTimer && (
+              <div className="mt-4 flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-[10px] uppercase tracking-[0.2em] text-primary/70 font-bold">
+                    {currentTrack?.side ? `Side ${currentTrack.side}` : "Side timer"}
+                  </p>
+                  <p className="text-xs opacity-60 mt-0.5">
+                    {formatTime(sideTimer.offsetMs + elapsedMs)} / {formatTime(sideTimer.lengthMs)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void sessionActions.trackChanged()}
+                  disabled={sessionActions.isLoading || session.state !== "running"}
+                  className="shrink-0 flex items-center gap-1 text-sm font-semibold text-primary hover:text-primary/80 disabled:opacity-50 focus-ring rounded"
+                >
+                  <Icon name="skip_next" className="text-base" aria-hidden="true" />
+                  Track changed
+                </button>
+              </div>
+            )}
+
             <div className="mt-8">
               <SessionControls
-                isPaused={session.state === "paused"}
-                canSkipBack={false}
+                isPaused={session.state !== "running"}
+                canSkipBack={canSkipBack}
                 canSkipForward={canSkipForward}
                 onPlayPause={() => void handlePlayPause()}
-                onSkipBack={handleSkipBack}
+                onSkipBack={() => void handleSkipBack()}
                 onSkipForward={() => void handleNext()}
-                onEnd={() => void sessionActions.end()}
+                onSkipWithoutScrobble={() => void sessionActions.skip()}
+                onEnd={(endMode) => void sessionActions.end(endMode)}
                 disabled={sessionActions.isLoading}
               />
             </div>
@@ -379,6 +431,7 @@ export function SessionPage() {
                           {track.title}
                         </p>
                         {isCurrent && <p className="text-[10px] opacity-50">Playing now</p>}
+                        <ScrobbleWarningBadge response={session.tracks[track.index]?.scrobbleResponse} />
                       </div>
                       {isCurrent ? (
                         <Icon name="graphic_eq" className="text-primary text-lg shrink-0" />
@@ -399,13 +452,26 @@ export function SessionPage() {
         </div>
       )}
 
+      {showDurationModal && currentTrack && (
+        <TrackDurationModal
+          isOpen={showDurationModal}
+          trackTitle={currentTrack.title}
+          durationSec={currentTrack.durationSec}
+          onSave={(durationSec, scope) => {
+            setShowDurationModal(false);
+            void durationEditor.editDuration(session.currentIndex, durationSec, scope);
+          }}
+          onCancel={() => setShowDurationModal(false)}
+        />
+      )}
+
       {sideCompletionInfo && (
         <SideCompletionModal
           currentSide={sideCompletionInfo.currentSide}
           nextSide={sideCompletionInfo.nextSide}
           currentTrackTitle={sideCompletionInfo.currentTitle}
           nextTrackTitle={sideCompletionInfo.nextTitle}
-          isOpen={showSideCompletionModal}
+          isOpen={dismissedFlipIndex !== session.currentIndex}
           onContinue={handleSideCompletionContinue}
           onPause={handleSideCompletionPause}
         />
@@ -1,7 +1,7 @@
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Settings } from "./Settings";
-import type { AuthStatusResponse } from "@repo/shared";
+import type { AuthStatusResponse, ScrobbleRulesResponse } from "@repo/shared";
 import { createFetchMock } from "../test-utils";
 
 const fetchMock = createFetchMock();
@@ -135,6 +135,27 @@ describe("Settings Page", () => {
     });
   });
 
+  it("prompts a reconnect when Last.fm rejected the session key", async () => {
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          ({
+            lastfmConnected: false,
+            discogsConnected: true,
+            lastfmSessionExpired: true,
+          } satisfies AuthStatusResponse),
+      })
+    );
+
+    render(<Settings />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Session expired, reconnect to keep scrobbling")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Reconnect Last.fm" })).toBeInTheDocument();
+    });
+  });
+
   it("displays Discogs connected status when connected", async () => {
     fetchMock.mockImplementationOnce(() =>
       Promise.resolve({
@@ -268,6 +289,34 @@ describe("Settings Page", () => {
     });
   });
 
+  it("stores the timing used for tracks without a duration", async () => {
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          ({
+            lastfmConnected: true,
+            discogsConnected: true,
+          } satisfies AuthStatusResponse),
+      })
+    );
+
+    render(<Settings />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Unknown Track Length")).toHaveValue("180");
+    });
+
+    fireEvent.change(screen.getByLabelText("Unknown Track Length"), { target: { value: "240" } });
+    fireEvent.change(screen.getByLabelText("Gap Between Tracks"), { target: { value: "3" } });
+
+    expect(screen.getByText("4:00")).toBeInTheDocument();
+    expect(screen.getByText("3s")).toBeInTheDocument();
+    expect(localStorage.getItem("defaultTrackDuration")).toBe("240");
+    expect(localStorage.getItem("trackGap")).toBe("3");
+    localStorage.clear();
+  });
+
   it("updates Last.fm status when disconnect clicked", async () => {
     fetchMock
       .mockImplementationOnce(() =>
@@ -410,4 +459,43 @@ describe("Settings Page", () => {
       expect(screen.getByText("View on GitHub")).toBeInTheDocument();
     });
   });
+
+  it("loads scrobble corrections and previews them when opened", async () => {
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            ({
+              lastfmConnected: true,
+              discogsConnected: true,
+            } satisfies AuthStatusResponse),
+        })
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            ({
+              rules: [
+                { id: "r1", match: "literal", find: " (Remastered 2011)", replace: "", fields: ["title"] },
+              ],
+            } satisfies ScrobbleRulesResponse),
+        })
+      );
+
+    render(<Settings />);
+
+    fireEvent.click(await screen.findByText("Manage Corrections"));
+
+    expect(await screen.findByText("Title: “ (Remastered 2011)” → removed")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith("/api/rules", expect.anything());
+
+    fireEvent.change(screen.getByLabelText("Preview title"), {
+      target: { value: "Come Together (Remastered 2011)" },
+    });
+
+    expect(screen.getByText("Come Together")).toBeInTheDocument();
+    expect(screen.getByText("1 correction applied")).toBeInTheDocument();
+  });
 });
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Icon } from "../components/Icon";
 import { ErrorMessage } from "../components/ErrorMessage";
 import { LoadingState } from "../components/LoadingState";
+import { ScrobbleRules } from "../components/ScrobbleRules";
 import { useApiMutation } from "../hooks/useApiMutation";
 import { useApiQuery } from "../hooks/useApiQuery";
 import {
@@ -9,8 +10,14 @@ import {
   setScrobbleDelay,
   getNotifyOnSideCompletion,
   setNotifyOnSideCompletion,
+  getDefaultTrackDuration,
+  setDefaultTrackDuration,
+  getTrackGap,
+  setTrackGap,
+  getArtistCredit,
+  setArtistCredit,
 } from "../lib/settings";
-import type { AuthStatusResponse } from "@repo/shared";
+import type { ArtistCreditPolicy, AuthStatusResponse } from "@repo/shared";
 
 export function Settings() {
   // Use authData directly instead of syncing to local state
@@ -20,6 +27,10 @@ export function Settings() {
   const [notifyOnSideCompletion, setNotifyOnSideCompletionState] = useState(() =>
     getNotifyOnSideCompletion()
   );
+  const [defaultTrackSec, setDefaultTrackSec] = useState(() => getDefaultTrackDuration());
+  const [trackGapSec, setTrackGapSec] = useState(() => getTrackGap());
+  const [artistCredit, setArtistCreditState] = useState(() => getArtistCredit());
+  const [showScrobbleRules, setShowScrobbleRules] = useState(false);
 
   const {
     data: authData,
@@ -200,6 +211,87 @@ export function Settings() {
               </p>
             </div>
 
+            {/* Timing for tracks without a duration */}
+            <div className="p-4 border-b border-slate-100 dark:border-border-dark">
+              <div className="flex justify-between items-center mb-4">
+                <label htmlFor="default-track-duration" className="text-sm font-medium">
+                  Unknown Track Length
+                </label>
+                <span className="text-primary font-bold">
+                  {Math.floor(defaultTrackSec / 60)}:{(defaultTrackSec % 60).toString().padStart(2, "0")}
+                </span>
+              </div>
+              <input
+                id="default-track-duration"
+                type="range"
+                min="60"
+                max="600"
+                step="30"
+                value={defaultTrackSec}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  setDefaultTrackSec(value);
+                  setDefaultTrackDuration(value);
+                }}
+                className="w-full h-1 rounded-full cursor-pointer accent-primary"
+              />
+              <p className="text-[11px] text-slate-500 mt-2">
+                Tracks Discogs lists without a duration are timed as this long.
+              </p>
+            </div>
+
+            <div className="p-4 border-b border-slate-100 dark:border-border-dark">
+              <div className="flex justify-between items-center mb-4">
+                <label htmlFor="track-gap" className="text-sm font-medium">
+                  Gap Between Tracks
+                </label>
+                <span className="text-primary font-bold">{trackGapSec}s</span>
+              </div>
+              <input
+                id="track-gap"
+                type="range"
+                min="0"
+                max="10"
+                step="1"
+                value={trackGapSec}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  setTrackGapSec(value);
+                  setTrackGap(value);
+                }}
+                className="w-full h-1 rounded-full cursor-pointer accent-primary"
+              />
+              <p className="text-[11px] text-slate-500 mt-2">
+                Silence between one track ending and the next starting. Applies from the next session on.
+              </p>
+            </div>
+
+            {/* Naming releases with several credited artists */}
+            <div className="p-4 border-b border-slate-100 dark:border-border-dark">
+              <div className="flex justify-between items-center gap-4">
+                <label htmlFor="artist-credit" className="text-sm font-medium">
+                  Multiple Artists
+                </label>
+                <select
+                  id="artist-credit"
+                  value={artistCredit}
+                  onChange={(e) => {
+                    const value = e.target.value as ArtistCreditPolicy;
+                    setArtistCreditState(value);
+                    setArtistCredit(value);
+                  }}
+                  className="text-sm bg-transparent border border-slate-200 dark:border-border-dark rounded-lg px-2 py-1"
+                >
+                  <option value="full">Full credit</option>
+                  <option value="primary">Primary artist only</option>
+                  <option value="feat">Featured artists after feat.</option>
+                </select>
+              </div>
+              <p className="text-[11px] text-slate-500 mt-2">
+                How records credited to several artists are shown and scrobbled, e.g. Jay-Z &amp; Kanye West feat. Otis Redding.
+              </p>
+            </div>
+
             {/* Toggles */}
             <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-border-dark">
               <div>
@@ -215,7 +307,7 @@ export function Settings() {
             <div className="flex items-center justify-between p-4">
               <div>
                 <p className="text-sm font-medium">Notify on side completion</p>
-                <p className="text-xs text-slate-500">Alert when the record side finishes</p>
+                <p className="text-xs text-slate-500">Wait for a flip when a side finishes, from the next session on</p>
               </div>
               <label className="relative inline-flex items-center">
                 <input
@@ -234,6 +326,27 @@ export function Settings() {
           </div>
         </section>
 
+        {/* Scrobble Corrections Section */}
+        <section className="mt-8 px-4">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 mb-3 px-1">
+            Scrobble Corrections
+          </h2>
+          {showScrobbleRules ? (
+            <ScrobbleRules />
+          ) : (
+            <button
+              onClick={() => setShowScrobbleRules(true)}
+              className="w-full bg-white dark:bg-surface-dark rounded-xl border border-slate-200 dark:border-border-dark p-4 flex items-center justify-between hover:bg-slate-50 dark:hover:bg-white/5 transition-colors"
+            >
+              <div className="text-left">
+                <p className="text-sm font-medium">Manage Corrections</p>
+                <p className="text-xs text-slate-500">Rewrite artist, title or album before they are scrobbled</p>
+              </div>
+              <Icon name="chevron_right" className="text-slate-400" />
+            </button>
+          )}
+        </section>
+
         {/* Accounts Section */}
         <section className="mt-8 px-4">
           <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 mb-3 px-1">
@@ -293,7 +406,11 @@ export function Settings() {
                       }`}
                     ></span>
                     <p className="text-xs text-slate-500">
-                      {authStatus?.lastfmConnected ? "Connected" : "Not connected"}
+                      {authStatus?.lastfmConnected
+                        ? "Connected"
+                        : authStatus?.lastfmSessionExpired
+                          ? "Session expired, reconnect to keep scrobbling"
+                          : "Not connected"}
                     </p>
                   </div>
                 </div>
@@ -304,7 +421,13 @@ export function Settings() {
                     ? handleDisconnectLastFm()
                     : handleConnectLastFm())
                 }
-                aria-label={authStatus?.lastfmConnected ? "Disconnect Last.fm" : "Connect Last.fm"}
+                aria-label={
+                  authStatus?.lastfmConnected
+                    ? "Disconnect Last.fm"
+                    : authStatus?.lastfmSessionExpired
+                      ? "Reconnect Last.fm"
+                      : "Connect Last.fm"
+                }
                 disabled={loading || connectingLastFm || disconnectingLastFm}
                 className="text-xs font-semibold text-primary/80 hover:text-primary transition-colors disabled:opacity-50"
               >
@@ -312,7 +435,9 @@ export function Settings() {
                   ? "Disconnect"
                   : connectingLastFm || disconnectingLastFm
                     ? "Connecting..."
-                    : "Connect"}
+                    : authStatus?.lastfmSessionExpired
+                      ? "Reconnect"
+                      : "Connect"}
               </button>
             </div>
           </div>
@@ -3,9 +3,12 @@ import { cors } from "hono/cors";
 import { health } from "./routes/health.js";
 import { authRoutes } from "./routes/auth.js";
 import { discogsRoutes } from "./routes/discogs.js";
+import { ruleRoutes } from "./routes/rules.js";
+import { scrobbleRoutes } from "./routes/scrobbles.js";
 import { sessionRoutes } from "./routes/session.js";
 import type { CloudflareBinding } from "./types.js";
 
+export { ScrobbleQueueDO } from "./scrobble-queue-do.js";
 export { SessionAlarmDO } from "./session-do.js";
 
 const app = new Hono<{ Bindings: CloudflareBinding }>();
@@ -42,5 +45,7 @@ app.route("/api", health);
 app.route("/api/auth", authRoutes);
 app.route("/api/discogs", discogsRoutes);
 app.route("/api/session", sessionRoutes);
+app.route("/api/scrobbles", scrobbleRoutes);
+app.route("/api/rules", ruleRoutes);
 
 export default app;
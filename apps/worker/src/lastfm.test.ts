@@ -1,5 +1,6 @@
-import { describe, expect, it } from "vitest";
-import { createLastFmSignature } from "./lastfm.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLastFmSignature, fetchLastFm, LastFmErrorCode } from "./lastfm.js";
+import type { CloudflareBinding } from "./types.js";
 
 describe("createLastFmSignature", () => {
   it("creates an MD5 signature from sorted params", () => {
@@ -186,3 +187,66 @@ describe("createLastFmSignature", () => {
     expect(signature).toHaveLength(32);
   });
 });
+
+describe("fetchLastFm", () => {
+  const env = { LASTFM_API_KEY: "test-key", LASTFM_API_SECRET: "test-secret" } as CloudflareBinding;
+
+  function lastFmError(code: number): Response {
+    return Response.json({ error: code, message: `Error ${code}` });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("classifies an invalid session key as an expired session", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(lastFmError(LastFmErrorCode.INVALID_SESSION_KEY));
+
+    const result = await fetchLastFm("track.scrobble", {}, env);
+
+    expect(result).toEqual({ ok: false, message: "Error 9", code: 9, kind: "session-expired" });
+  });
+
+  it.each([LastFmErrorCode.INVALID_PARAMETERS, LastFmErrorCode.INVALID_SIGNATURE])(
+    "treats error %i as permanent without retrying",
+    async (code) => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(lastFmError(code));
+
+      const result = await fetchLastFm("track.scrobble", {}, env);
+
+      expect(result).toMatchObject({ ok: false, code, kind: "permanent" });
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    }
+  );
+
+  it("retries a temporary error with backoff", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(lastFmError(LastFmErrorCode.SERVICE_OFFLINE))
+      .mockResolvedValueOnce(Response.json({ scrobbles: {} }));
+
+    const pending = fetchLastFm("track.scrobble", {}, env);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await pending).toEqual({ ok: true, data: { scrobbles: {} } });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up on a rate limit after two retries", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => lastFmError(LastFmErrorCode.RATE_LIMIT_EXCEEDED));
+
+    const pending = fetchLastFm("track.scrobble", {}, env);
+    await vi.advanceTimersByTimeAsync(1500);
+
+    expect(await pending).toMatchObject({ ok: false, code: 29, kind: "retryable" });
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+});
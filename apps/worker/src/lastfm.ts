@@ -32,16 +32,93 @@ export function createLastFmSignature(
   return hash;
 }
 
+/**
+ * Last.fm API error codes the app handles specifically.
+ * See https://www.last.fm/api/errorcodes
+ */
+export const LastFmErrorCode = {
+  INVALID_PARAMETERS: 6,
+  INVALID_SESSION_KEY: 9,
+  SERVICE_OFFLINE: 11,
+  INVALID_SIGNATURE: 13,
+  TEMPORARY_ERROR: 16,
+  RATE_LIMIT_EXCEEDED: 29,
+} as const;
+
+export type LastFmErrorCode = (typeof LastFmErrorCode)[keyof typeof LastFmErrorCode];
+
+/**
+ * How a failed Last.fm call should be handled:
+ * - "session-expired": the user revoked access and must reconnect
+ * - "retryable": the same call may succeed later
+ * - "permanent": the same call will fail again
+ */
+export type LastFmErrorKind = "session-expired" | "retryable" | "permanent";
+
+type LastFmResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; message: string; code: number | null; kind: LastFmErrorKind };
+
+/** Extra attempts for errors Last.fm says are temporary. */
+const LASTFM_RETRY_ATTEMPTS = 2;
+
+/** Delay before the first retry of a temporary error; doubles after each. */
+const LASTFM_RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Classify a Last.fm error code. Failures without a code (missing
+ * credentials, unexpected responses) and unrecognised codes are retryable.
+ */
+function getLastFmErrorKind(code: number | null): LastFmErrorKind {
+  switch (code) {
+    case LastFmErrorCode.INVALID_SESSION_KEY:
+      return "session-expired";
+    case LastFmErrorCode.INVALID_PARAMETERS:
+    case LastFmErrorCode.INVALID_SIGNATURE:
+      return "permanent";
+    default:
+      return "retryable";
+  }
+}
+
+function isTemporaryError(code: number | null): boolean {
+  return (
+    code === LastFmErrorCode.SERVICE_OFFLINE ||
+    code === LastFmErrorCode.TEMPORARY_ERROR ||
+    code === LastFmErrorCode.RATE_LIMIT_EXCEEDED
+  );
+}
+
+/**
+ * Call a signed Last.fm API method. Service-offline, temporary and rate-limit
+ * errors are retried a couple of times with backoff before giving up.
+ */
 export async function fetchLastFm<T>(
   method: string,
   params: Record<string, string>,
   env: CloudflareBinding
-): Promise<{ ok: true; data: T } | { ok: false; message: string }> {
+): Promise<LastFmResult<T>> {
+  let result = await requestLastFm<T>(method, params, env);
+  for (let attempt = 0; attempt < LASTFM_RETRY_ATTEMPTS; attempt++) {
+    if (result.ok || !isTemporaryError(result.code)) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LASTFM_RETRY_BASE_DELAY_MS * 2 ** attempt));
+    result = await requestLastFm<T>(method, params, env);
+  }
+  return result;
+}
+
+async function requestLastFm<T>(
+  method: string,
+  params: Record<string, string>,
+  env: CloudflareBinding
+): Promise<LastFmResult<T>> {
   const apiKey = env.LASTFM_API_KEY?.trim();
   const sharedSecret = env.LASTFM_API_SECRET?.trim();
 
   if (!apiKey || !sharedSecret) {
-    return { ok: false, message: "Last.fm credentials not configured" };
+    return { ok: false, message: "Last.fm credentials not configured", code: null, kind: "retryable" };
   }
 
   const payload: Record<string, string> = {
@@ -69,8 +146,9 @@ export async function fetchLastFm<T>(
   
   if (!response.ok || data.error) {
     const errorMessage = data.message ?? "Last.fm request failed";
-    console.error("[fetchLastFm] Error:", errorMessage);
-    return { ok: false, message: errorMessage };
+    const code = data.error ?? null;
+    console.error("[fetchLastFm] Error:", code, errorMessage);
+    return { ok: false, message: errorMessage, code, kind: getLastFmErrorKind(code) };
   }
 
   return { ok: true, data };
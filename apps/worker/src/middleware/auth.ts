@@ -53,6 +53,8 @@ function kvKeyForTokens(userId: string): string {
 interface StoredTokens {
   lastfm: StoredToken | null;
   discogs: StoredToken | null;
+  /** When Last.fm rejected the stored session key (epoch ms), until the user reconnects */
+  lastfmExpiredAt?: number | null;
 }
 
 /**
@@ -79,6 +81,23 @@ export async function storeTokens(
   await kv.put(key, JSON.stringify(tokens));
 }
 
+/**
+ * Disconnect Last.fm after it rejected a session key as invalid, which
+ * happens when the user revokes access. Skipped if the user has connected
+ * again with a new key since.
+ */
+export async function disconnectExpiredLastFm(
+  kv: KVNamespace,
+  userId: string,
+  sessionKey: string
+): Promise<void> {
+  const tokens = await loadStoredTokens(kv, userId);
+  if (tokens.lastfm?.accessToken !== sessionKey) {
+    return;
+  }
+  await storeTokens(kv, userId, { ...tokens, lastfm: null, lastfmExpiredAt: Date.now() });
+}
+
 /**
  * KV storage key for OAuth state tokens (short-lived, CSRF protection).
  */
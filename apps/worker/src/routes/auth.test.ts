@@ -41,6 +41,7 @@ describe("Auth Routes", () => {
       expect(body).toEqual({
         lastfmConnected: false,
         discogsConnected: false,
+        lastfmSessionExpired: false,
       });
     });
 
@@ -117,6 +118,29 @@ describe("Auth Routes", () => {
       expect(body.discogsConnected).toBe(true);
     });
 
+    it("should report a Last.fm session disconnected after Last.fm rejected it", async () => {
+      const kvMock = createKVMock();
+      const tokens = { ...createTestUserTokens({ lastfm: null }), lastfmExpiredAt: Date.now() };
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+
+      const app = createTestApp(kvMock);
+
+      const { name, value } = getTestSessionCookie();
+      const response = await app.request(
+        new Request("http://localhost:8787/auth/status", {
+          method: "GET",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as Record<string, unknown>;
+      expect(body.lastfmConnected).toBe(false);
+      expect(body.lastfmSessionExpired).toBe(true);
+    });
+
     it("should set session cookie on response", async () => {
       const kvMock = createKVMock();
       const app = createTestApp(kvMock);
@@ -28,6 +28,7 @@ router.get("/status", async (c: HonoContext) => {
   const response: AuthStatusResponse = {
     lastfmConnected: !!tokens.lastfm,
     discogsConnected: !!tokens.discogs,
+    lastfmSessionExpired: !tokens.lastfm && !!tokens.lastfmExpiredAt,
   };
 
   return c.json(response);
@@ -89,6 +89,7 @@ router.get("/callback", async (c: HonoContext) => {
 
   const tokens = await loadStoredTokens(kv, sessionId);
   tokens.lastfm = { service: "lastfm", accessToken: sessionKey, storedAt: Date.now() };
+  tokens.lastfmExpiredAt = null;
   await storeTokens(kv, sessionId, tokens);
 
   const appOrigin = c.env.PUBLIC_APP_ORIGIN;
@@ -102,6 +103,7 @@ router.post("/disconnect", async (c: HonoContext) => {
 
   const tokens = await loadStoredTokens(kv, sessionId);
   tokens.lastfm = null;
+  tokens.lastfmExpiredAt = null;
   await storeTokens(kv, sessionId, tokens);
 
   return c.json({ success: true });
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Hono } from "hono";
+import type { NormalizedRelease } from "@repo/shared";
 import type { CloudflareBinding } from "../types";
 import { discogsRoutes } from "./discogs";
 import {
@@ -967,6 +968,269 @@ describe("Discogs Proxy Routes", () => {
       }
     });
 
+    it("should reject an unknown artist credit policy", async () => {
+      const app = createTestApp(kvMock);
+
+      const response = await app.request(
+        new Request("http://localhost:8787/discogs/release/123?artists=everyone")
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("INVALID_QUERY");
+    });
+
+    it("should credit artists by the requested policy and cache each policy apart", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = async () =>
+        new Response(
+          JSON.stringify({
+            id: 123,
+            title: "Watch The Throne",
+            artists: [
+              { name: "Jay-Z", join: "&" },
+              { name: "Kanye West" },
+            ],
+            tracklist: [{ position: "A1", title: "Otis" }],
+          }),
+          { status: 200 }
+        );
+
+      try {
+        const app = createTestApp(kvMock);
+
+        const fullResponse = await app.request(new Request("http://localhost:8787/discogs/release/123"));
+        const primaryResponse = await app.request(
+          new Request("http://localhost:8787/discogs/release/123?artists=primary")
+        );
+
+        const fullBody = (await fullResponse.json()) as { release: NormalizedRelease };
+        const primaryBody = (await primaryResponse.json()) as { release: NormalizedRelease };
+        expect(fullBody.release.artist).toBe("Jay-Z & Kanye West");
+        expect(primaryBody.release.artist).toBe("Jay-Z");
+        expect(kvMock.store.has("discogs:release:123:full:standard")).toBe(true);
+        expect(kvMock.store.has("discogs:release:123:primary:standard")).toBe(true);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("should title tracks by composer and work for the classical profile", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = async () =>
+        new Response(
+          JSON.stringify({
+            id: 123,
+            title: "Symphonie Nr. 5",
+            artists: [{ name: "Berliner Philharmoniker" }],
+            extraartists: [{ name: "Ludwig van Beethoven", anv: "Beethoven", role: "Composed By", tracks: "" }],
+            tracklist: [
+              { type_: "heading", title: "Symphonie Nr. 5 C-moll Op. 67" },
+              { position: "A1", title: "Allegro Con Brio" },
+            ],
+          }),
+          { status: 200 }
+        );
+
+      try {
+        const app = createTestApp(kvMock);
+
+        const response = await app.request(
+          new Request("http://localhost:8787/discogs/release/123?profile=classical")
+        );
+
+        const body = (await response.json()) as { release: NormalizedRelease };
+        expect(body.release.tracks[0]).toMatchObject({
+          title: "Beethoven: Symphonie Nr. 5 C-moll Op. 67 - Allegro Con Brio",
+          artist: "Berliner Philharmoniker",
+        });
+        expect(kvMock.store.has("discogs:release:123:full:classical")).toBe(true);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("should fill missing durations from the master release", async () => {
+      const requested: string[] = [];
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = async (url: string | Request | URL) => {
+        const urlStr = typeof url === "string" ? url : url instanceof URL ? url.toString() : url.url;
+        requested.push(urlStr);
+        if (urlStr.endsWith("/releases/123")) {
+          return new Response(
+            JSON.stringify({
+              id: 123,
+              master_id: 77,
+              title: "Album",
+              artists: [{ name: "Artist" }],
+              tracklist: [
+                { position: "A1", title: "Opener", duration: "" },
+                { position: "A2", title: "Closer", duration: "" },
+              ],
+            }),
+            { status: 200 }
+          );
+        }
+        if (urlStr.endsWith("/masters/77")) {
+          return new Response(
+            JSON.stringify({ id: 77, main_release: 456, tracklist: [{ position: "A1", title: "Opener", duration: "4:00" }] }),
+            { status: 200 }
+          );
+        }
+        if (urlStr.endsWith("/releases/456")) {
+          return new Response(
+            JSON.stringify({ id: 456, tracklist: [{ position: "2", title: "Closer (Remastered)", duration: "5:30" }] }),
+            { status: 200 }
+          );
+        }
+        return new Response("not found", { status: 404 });
+      };
+
+      try {
+        const app = createTestApp(kvMock);
+
+        const response = await app.request(new Request("http://localhost:8787/discogs/release/123"));
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as { release: NormalizedRelease };
+        expect(body.release.tracks.map((track) => [track.durationSec, track.durationSource])).toEqual([
+          [240, "master"],
+          [330, "master"],
+        ]);
+        expect(requested).toHaveLength(3);
+        expect(kvMock.store.has("discogs:master:77:standard")).toBe(true);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("should fill classical durations from a master titled the same way", async () => {
+      const classicalCredits = {
+        artists: [{ name: "Berliner Philharmoniker" }],
+        extraartists: [{ name: "Ludwig van Beethoven", anv: "Beethoven", role: "Composed By", tracks: "" }],
+      };
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = async (url: string | Request | URL) => {
+        const urlStr = typeof url === "string" ? url : url instanceof URL ? url.toString() : url.url;
+        if (urlStr.endsWith("/releases/123")) {
+          return new Response(
+            JSON.stringify({
+              id: 123,
+              master_id: 77,
+              title: "Symphonie Nr. 5 · Symphonie Nr. 8",
+              ...classicalCredits,
+              tracklist: [
+                { type_: "heading", title: "Symphonie Nr. 5 C-moll Op. 67" },
+                { position: "A1", title: "Allegro Con Brio" },
+                {
+                  type_: "index",
+                  title: "Symphonie Nr. 8 F-dur Op. 93",
+                  sub_tracks: [{ position: "B1", title: "Allegro Vivace E Con Brio" }],
+                },
+              ],
+            }),
+            { status: 200 }
+          );
+        }
+        if (urlStr.endsWith("/masters/77")) {
+          return new Response(
+            JSON.stringify({
+              id: 77,
+              ...classicalCredits,
+              tracklist: [
+                { type_: "heading", title: "Symphonie Nr. 5 C-moll Op. 67" },
+                { position: "A1", title: "Allegro Con Brio", duration: "7:22" },
+                {
+                  type_: "index",
+                  title: "Symphonie Nr. 8 F-dur Op. 93",
+                  sub_tracks: [{ position: "B1", title: "Allegro Vivace E Con Brio", duration: "9:39" }],
+                },
+              ],
+            }),
+            { status: 200 }
+          );
+        }
+        return new Response("not found", { status: 404 });
+      };
+
+      try {
+        const app = createTestApp(kvMock);
+
+        const response = await app.request(
+          new Request("http://localhost:8787/discogs/release/123?profile=classical")
+        );
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as { release: NormalizedRelease };
+        expect(body.release.tracks.map((track) => [track.title, track.durationSec, track.durationSource])).toEqual([
+          ["Beethoven: Symphonie Nr. 5 C-moll Op. 67 - Allegro Con Brio", 442, "master"],
+          ["Beethoven: Symphonie Nr. 8 F-dur Op. 93 - Allegro Vivace E Con Brio", 579, "master"],
+        ]);
+        expect(kvMock.store.has("discogs:master:77:classical")).toBe(true);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("should return the release as it is when the master lookup fails", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = async (url: string | Request | URL) => {
+        const urlStr = typeof url === "string" ? url : url instanceof URL ? url.toString() : url.url;
+        if (urlStr.endsWith("/releases/123")) {
+          return new Response(
+            JSON.stringify({ id: 123, master_id: 77, title: "Album", tracklist: [{ position: "A1", title: "Opener" }] }),
+            { status: 200 }
+          );
+        }
+        return new Response("server error", { status: 500 });
+      };
+
+      try {
+        const app = createTestApp(kvMock);
+
+        const response = await app.request(new Request("http://localhost:8787/discogs/release/123"));
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as { release: NormalizedRelease };
+        expect(body.release.tracks[0]?.durationSec).toBeNull();
+        expect(kvMock.store.has("discogs:master:77:standard")).toBe(false);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it.each([
+      ["throws", async (): Promise<Response> => Promise.reject(new TypeError("Network connection lost"))],
+      ["is not JSON", async (): Promise<Response> => new Response("<html>not json</html>", { status: 200 })],
+    ])("should return the release as it is when the master lookup %s", async (_label, respondToMaster) => {
+      const originalFetch = globalThis.fetch;
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      globalThis.fetch = async (url: string | Request | URL) => {
+        const urlStr = typeof url === "string" ? url : url instanceof URL ? url.toString() : url.url;
+        if (urlStr.endsWith("/releases/123")) {
+          return new Response(
+            JSON.stringify({ id: 123, master_id: 77, title: "Album", tracklist: [{ position: "A1", title: "Opener" }] }),
+            { status: 200 }
+          );
+        }
+        return respondToMaster();
+      };
+
+      try {
+        const app = createTestApp(kvMock);
+
+        const response = await app.request(new Request("http://localhost:8787/discogs/release/123"));
+
+        expect(response.status).toBe(200);
+        const body = (await response.json()) as { release: NormalizedRelease };
+        expect(body.release.tracks[0]?.durationSec).toBeNull();
+        expect(kvMock.store.has("discogs:master:77:standard")).toBe(false);
+      } finally {
+        globalThis.fetch = originalFetch;
+        consoleSpy.mockRestore();
+      }
+    });
+
     it("should accept numeric release ids with leading zeros", async () => {
       const mockReleaseResponse = {
         id: 123,
@@ -9,6 +9,7 @@ import {
   createAPIError,
   ErrorCode,
   DiscogsCollectionQuerySchema,
+  DiscogsReleaseQuerySchema,
   stripDiscogsDisambiguation,
 } from "@repo/shared";
 import type {
@@ -29,7 +30,13 @@ import {
   loadStoredTokens,
 } from "../middleware/auth.js";
 import type { CloudflareBinding } from "../types.js";
-import { DISCOGS_API_BASE, DISCOGS_USER_AGENT, getDiscogsAppCredentials, createAppAuthHeader } from "../utils/discogs.js";
+import {
+  DISCOGS_API_BASE,
+  DISCOGS_USER_AGENT,
+  getDiscogsAppCredentials,
+  createAppAuthHeader,
+  fillDurationsFromMaster,
+} from "../utils/discogs.js";
 
 type HonoContext = Context<{ Bindings: CloudflareBinding }>;
 const CACHE_TTL_SECONDS = 3600;
@@ -633,7 +640,16 @@ router.get("/release/:id", async (c: HonoContext) => {
     return c.json(createAPIError(ErrorCode.CONFIG_ERROR, "Discogs credentials not configured"), 500);
   }
 
-  const cacheKey = `discogs:release:${releaseId}`;
+  const parsedQuery = DiscogsReleaseQuerySchema.safeParse({
+    artists: c.req.query("artists"),
+    profile: c.req.query("profile"),
+  });
+  if (!parsedQuery.success) {
+    return c.json(createAPIError(ErrorCode.INVALID_QUERY, "Invalid release query parameters"), 400);
+  }
+  const { artists: artistCredit, profile } = parsedQuery.data;
+
+  const cacheKey = `discogs:release:${releaseId}:${artistCredit}:${profile}`;
   const cached = await kv.get<DiscogsReleaseResponse<NormalizedRelease>>(cacheKey, "json");
   if (cached) {
     return c.json(cached);
@@ -656,7 +672,14 @@ router.get("/release/:id", async (c: HonoContext) => {
     return c.json(createAPIError(ErrorCode.DISCOGS_ERROR, "Discogs release lookup failed"), statusCode);
   }
 
-  const normalized = normalizeDiscogsRelease(releaseResponse.data);
+  // Tracks this pressing lists without a duration may be timed on its master
+  const normalized = await fillDurationsFromMaster(
+    kv,
+    releaseAuthHeader,
+    normalizeDiscogsRelease(releaseResponse.data, { artistCredit, profile }),
+    releaseResponse.data.master_id,
+    { profile }
+  );
   const response: DiscogsReleaseResponse<NormalizedRelease> = { release: normalized };
 
   await kv.put(cacheKey, JSON.stringify(response), {
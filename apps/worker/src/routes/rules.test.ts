@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import type { ScrobbleRule, ScrobbleRulesResponse } from "@repo/shared";
+import type { CloudflareBinding } from "../types";
+import { ruleRoutes } from "./rules";
+import { TEST_SESSION_ID, createKVMock, getTestSessionCookie, type TestErrorResponse } from "../test-utils";
+
+const stripRemaster: ScrobbleRule = {
+  id: "rule-1",
+  match: "literal",
+  find: " (Remastered 2011)",
+  replace: "",
+  fields: ["title"],
+};
+
+describe("Rule Routes", () => {
+  function createTestApp(kvMock: ReturnType<typeof createKVMock>) {
+    const mockEnv: CloudflareBinding = {
+      NOW_SPINNING_KV: kvMock as unknown as KVNamespace,
+      DEV_MODE: "true",
+    } as CloudflareBinding;
+
+    return new Hono<{ Bindings: CloudflareBinding }>()
+      .use("*", async (c, next) => {
+        c.env = mockEnv;
+        await next();
+      })
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .route("/rules", ruleRoutes as any);
+  }
+
+  async function putRules(app: ReturnType<typeof createTestApp>, body: unknown): Promise<Response> {
+    const { name, value } = getTestSessionCookie();
+    return app.request(
+      new Request("http://localhost:8787/rules", {
+        method: "PUT",
+        headers: { "content-type": "application/json", cookie: `${name}=${value}` },
+        body: JSON.stringify(body),
+      })
+    );
+  }
+
+  describe("GET /rules", () => {
+    it("should return no rules without a session cookie", async () => {
+      const app = createTestApp(createKVMock());
+
+      const response = await app.request("http://localhost:8787/rules");
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ rules: [] });
+    });
+
+    it("should return the user's saved rules", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(`scrobble-rules:${TEST_SESSION_ID}`, JSON.stringify([stripRemaster]));
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request("http://localhost:8787/rules", { headers: { cookie: `${name}=${value}` } })
+      );
+
+      expect(((await response.json()) as ScrobbleRulesResponse).rules).toEqual([stripRemaster]);
+    });
+  });
+
+  describe("PUT /rules", () => {
+    it("should save the rules in order", async () => {
+      const kvMock = createKVMock();
+      const app = createTestApp(kvMock);
+      const releaseRule: ScrobbleRule = {
+        id: "rule-2",
+        match: "regex",
+        find: "^Untitled$",
+        replace: "Side A Jam",
+        fields: ["title"],
+        releaseId: "12345",
+      };
+
+      const response = await putRules(app, { rules: [releaseRule, stripRemaster] });
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as ScrobbleRulesResponse).rules).toEqual([releaseRule, stripRemaster]);
+      expect(JSON.parse(kvMock.store.get(`scrobble-rules:${TEST_SESSION_ID}`)!)).toEqual([releaseRule, stripRemaster]);
+    });
+
+    it("should reject a regex rule that does not compile", async () => {
+      const kvMock = createKVMock();
+      const app = createTestApp(kvMock);
+
+      const response = await putRules(app, { rules: [{ ...stripRemaster, match: "regex", find: "(Remastered" }] });
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(kvMock.store.has(`scrobble-rules:${TEST_SESSION_ID}`)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import {
+  createAPIError,
+  ErrorCode,
+  ScrobbleRulesRequestSchema,
+  type ScrobbleRulesResponse,
+} from "@repo/shared";
+import { getCookie } from "hono/cookie";
+import { getOrCreateSessionId, setSessionCookie } from "../middleware/auth.js";
+import { loadScrobbleRules, saveScrobbleRules } from "../session-helpers.js";
+import type { CloudflareBinding } from "../types.js";
+import { formatZodErrors } from "../utils/validation.js";
+
+type HonoContext = Context<{ Bindings: CloudflareBinding }>;
+
+const router = new Hono<{ Bindings: CloudflareBinding }>();
+
+/**
+ * GET /api/rules
+ * The user's scrobble correction rules, in evaluation order.
+ */
+router.get("/", async (c: HonoContext) => {
+  const userId = getCookie(c, "now_spinning_session");
+  const response: ScrobbleRulesResponse = {
+    rules: userId ? await loadScrobbleRules(c.env.NOW_SPINNING_KV, userId) : [],
+  };
+  return c.json(response);
+});
+
+/**
+ * PUT /api/rules
+ * Replace the user's scrobble correction rules. They apply to every
+ * scrobble and Now Playing update sent from then on.
+ */
+router.put("/", async (c: HonoContext) => {
+  const userId = getOrCreateSessionId(c);
+  setSessionCookie(c, userId);
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json(
+      createAPIError(ErrorCode.VALIDATION_ERROR, "Invalid or malformed JSON body"),
+      400
+    );
+  }
+  const bodyResult = ScrobbleRulesRequestSchema.safeParse(body);
+  if (!bodyResult.success) {
+    return c.json(
+      createAPIError(ErrorCode.VALIDATION_ERROR, "Request body validation failed", formatZodErrors(bodyResult.error)),
+      400
+    );
+  }
+
+  const { rules } = bodyResult.data;
+  await saveScrobbleRules(c.env.NOW_SPINNING_KV, userId, rules);
+
+  const response: ScrobbleRulesResponse = { rules };
+  return c.json(response);
+});
+
+export const ruleRoutes = router;
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import {
+  advanceSession,
+  createSession,
+  setScrobbleRetryStatus,
+  type PendingScrobblesResponse,
+  type Session,
+} from "@repo/shared";
+import type { CloudflareBinding } from "../types";
+import { scrobbleRoutes } from "./scrobbles";
+import { sessionRoutes } from "./session";
+import {
+  TEST_SESSION_ID,
+  createTestUserTokens,
+  createKVMock,
+  createScrobbleQueueDONamespaceMock,
+  createSessionDONamespaceMock,
+  kvUserTokensKey,
+  getTestSessionCookie,
+  type TestErrorResponse,
+} from "../test-utils";
+
+function createQueuedSession(kvMock: ReturnType<typeof createKVMock>): Session {
+  const now = Date.now();
+  const started = createSession({
+    sessionId: "sess-retry",
+    userId: TEST_SESSION_ID,
+    release: {
+      id: "12345",
+      title: "Test Album",
+      artist: "Test Artist",
+      year: 2024,
+      coverUrl: null,
+      tracks: [
+        { position: "A1", title: "Track One", artist: "Test Artist", durationSec: 180, side: "A", index: 0 },
+        { position: "A2", title: "Track Two", artist: "Test Artist", durationSec: 200, side: "A", index: 1 },
+      ],
+    },
+    startedAt: now - 200_000,
+  });
+  const session = setScrobbleRetryStatus(advanceSession(started, now), 0, "retrying", now);
+  kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
+  kvMock.store.set(`session:current:${session.userId}`, session.id);
+  return session;
+}
+
+describe("Scrobble Routes", () => {
+  function createTestApp(kvMock: ReturnType<typeof createKVMock>) {
+    const mockEnv: CloudflareBinding = {
+      NOW_SPINNING_KV: kvMock as unknown as KVNamespace,
+      DEV_MODE: "true",
+      LASTFM_API_KEY: "test-key",
+      LASTFM_API_SECRET: "test-secret",
+    } as CloudflareBinding;
+    mockEnv.SESSION_DO = createSessionDONamespaceMock(mockEnv) as unknown as DurableObjectNamespace;
+    mockEnv.SCROBBLE_QUEUE_DO = createScrobbleQueueDONamespaceMock(mockEnv) as unknown as DurableObjectNamespace;
+
+    const app = new Hono<{ Bindings: CloudflareBinding }>()
+      .use("*", async (c, next) => {
+        c.env = mockEnv;
+        await next();
+      })
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .route("/scrobbles", scrobbleRoutes as any)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .route("/session", sessionRoutes as any);
+
+    return { app, mockEnv };
+  }
+
+  async function enqueue(mockEnv: CloudflareBinding, session: Session): Promise<void> {
+    const queue = mockEnv.SCROBBLE_QUEUE_DO.get(mockEnv.SCROBBLE_QUEUE_DO.idFromName(TEST_SESSION_ID));
+    await queue.fetch("https://internal/enqueue", {
+      method: "POST",
+      body: JSON.stringify({
+        command: "enqueue",
+        userId: TEST_SESSION_ID,
+        lastfmSessionKey: "test-lastfm-token-abc123",
+        scrobble: {
+          sessionId: session.id,
+          releaseId: session.release.id,
+          trackIndex: 0,
+          artist: "Test Artist",
+          track: "Track One",
+          album: "Test Album",
+          durationSec: 180,
+          startedAt: session.startedAt,
+          lastError: "Service offline",
+        },
+      }),
+    });
+  }
+
+  describe("GET /scrobbles/pending", () => {
+    it("should return an empty list without a session cookie", async () => {
+      const { app } = createTestApp(createKVMock());
+
+      const response = await app.request("http://localhost:8787/scrobbles/pending");
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ items: [] });
+    });
+
+    it("should list the user's queued scrobbles", async () => {
+      const kvMock = createKVMock();
+      const { app, mockEnv } = createTestApp(kvMock);
+      await enqueue(mockEnv, createQueuedSession(kvMock));
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request("http://localhost:8787/scrobbles/pending", {
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as PendingScrobblesResponse;
+      expect(body.items).toEqual([
+        expect.objectContaining({ sessionId: "sess-retry", trackIndex: 0, status: "retrying", attempts: 1 }),
+      ]);
+    });
+  });
+
+  describe("POST /scrobbles/pending/retry", () => {
+    it("should reject if Last.fm is not connected", async () => {
+      const { app } = createTestApp(createKVMock());
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request("http://localhost:8787/scrobbles/pending/retry", {
+          method: "POST",
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(401);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("LASTFM_NOT_CONNECTED");
+    });
+
+    it("should submit queued scrobbles and update their sessions", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const { app, mockEnv } = createTestApp(kvMock);
+      await enqueue(mockEnv, createQueuedSession(kvMock));
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request("http://localhost:8787/scrobbles/pending/retry", {
+          method: "POST",
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ items: [] });
+
+      const current = await app.request(
+        new Request("http://localhost:8787/session/current", {
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+      const { session } = (await current.json()) as { session: Session };
+      expect(session.tracks[0]?.status).toBe("scrobbled");
+    });
+  });
+});
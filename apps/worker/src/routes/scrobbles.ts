@@ -0,0 +1,54 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import type { PendingScrobblesResponse } from "@repo/shared";
+import { getCookie } from "hono/cookie";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { getOrCreateSessionId, loadStoredTokens, setSessionCookie, requireLastFm } from "../middleware/auth.js";
+import { callDurableObject } from "../session-helpers.js";
+import type { CloudflareBinding } from "../types.js";
+
+type HonoContext = Context<{ Bindings: CloudflareBinding }>;
+
+const router = new Hono<{ Bindings: CloudflareBinding }>();
+
+/**
+ * Relay a response from the user's scrobble queue Durable Object.
+ */
+async function relay(c: HonoContext, response: Response): Promise<Response> {
+  const payload: unknown = await response.json();
+  return c.json(payload as object, response.status as ContentfulStatusCode);
+}
+
+/**
+ * GET /api/scrobbles/pending
+ * Scrobbles Last.fm has not accepted yet, waiting to be retried.
+ */
+router.get("/pending", async (c: HonoContext) => {
+  const userId = getCookie(c, "now_spinning_session");
+  if (!userId) {
+    const response: PendingScrobblesResponse = { items: [] };
+    return c.json(response);
+  }
+
+  return relay(c, await callDurableObject(c.env.SCROBBLE_QUEUE_DO, userId, "list", { userId }));
+});
+
+/**
+ * POST /api/scrobbles/pending/retry
+ * Submit every pending scrobble now, including ones whose retries ran out.
+ */
+router.post("/pending/retry", requireLastFm, async (c: HonoContext) => {
+  const userId = getOrCreateSessionId(c);
+  setSessionCookie(c, userId);
+
+  const tokens = await loadStoredTokens(c.env.NOW_SPINNING_KV, userId);
+  return relay(
+    c,
+    await callDurableObject(c.env.SCROBBLE_QUEUE_DO, userId, "retry", {
+      userId,
+      lastfmSessionKey: tokens.lastfm!.accessToken,
+    })
+  );
+});
+
+export const scrobbleRoutes = router;
@@ -1,5 +1,12 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { Hono } from "hono";
+import {
+  advanceSession,
+  createSession,
+  type NormalizedRelease,
+  type Session,
+  type SessionEventsResponse,
+} from "@repo/shared";
 import type { CloudflareBinding } from "../types";
 import { sessionRoutes } from "./session";
 import {
@@ -7,24 +14,51 @@ import {
   TEST_RELEASE_ID,
   createTestUserTokens,
   createKVMock,
-  createDurableObjectNamespaceMock,
+  createSessionDONamespaceMock,
   kvUserTokensKey,
   getTestSessionCookie,
   type TestErrorResponse,
 } from "../test-utils";
 
+function createTestRelease(): NormalizedRelease {
+  return {
+    id: TEST_RELEASE_ID,
+    title: "Test Album",
+    artist: "Test Artist",
+    year: 2024,
+    coverUrl: null,
+    tracks: [
+      { position: "A1", title: "Track One", artist: "Test Artist", durationSec: 180, side: "A", index: 0 },
+      { position: "A2", title: "Track Two", artist: "Test Artist", durationSec: 240, side: "A", index: 1 },
+    ],
+  };
+}
+
+function createStoredSession(kvMock: ReturnType<typeof createKVMock>, session?: Session): Session {
+  const stored =
+    session ??
+    createSession({
+      sessionId: "sess-route",
+      userId: TEST_SESSION_ID,
+      release: createTestRelease(),
+      startedAt: Date.now() - 60_000,
+    });
+  kvMock.store.set(`session:${stored.id}`, JSON.stringify(stored));
+  kvMock.store.set(`session:current:${stored.userId}`, stored.id);
+  return stored;
+}
+
 describe("Session Routes", () => {
   function createTestApp(kvMock: ReturnType<typeof createKVMock>) {
-    const doMock = createDurableObjectNamespaceMock();
     const mockEnv: CloudflareBinding = {
       NOW_SPINNING_KV: kvMock as unknown as KVNamespace,
-      SESSION_DO: doMock as unknown as DurableObjectNamespace,
       DEV_MODE: "true",
       DISCOGS_CONSUMER_KEY: "test-key",
       DISCOGS_CONSUMER_SECRET: "test-secret",
       LASTFM_API_KEY: "test-key",
       LASTFM_API_SECRET: "test-secret",
     } as CloudflareBinding;
+    mockEnv.SESSION_DO = createSessionDONamespaceMock(mockEnv) as unknown as DurableObjectNamespace;
 
     return new Hono<{ Bindings: CloudflareBinding }>()
       .use("*", async (c, next) => {
@@ -35,6 +69,18 @@ describe("Session Routes", () => {
       .route("/session", sessionRoutes as any);
   }
 
+  /** The user's current session as the Durable Object now holds it. */
+  async function fetchCurrentSession(app: ReturnType<typeof createTestApp>): Promise<Session | null> {
+    const { name, value } = getTestSessionCookie();
+    const response = await app.fetch(
+      new Request("http://localhost:8787/session/current", {
+        headers: { cookie: `${name}=${value}` },
+      })
+    );
+    const body = (await response.json()) as { session: Session | null };
+    return body.session;
+  }
+
   describe("POST /session/start", () => {
     it("should reject if Last.fm is not connected", async () => {
       const kvMock = createKVMock();
@@ -106,6 +152,163 @@ describe("Session Routes", () => {
     });
   });
 
+  describe("POST /session/retro", () => {
+    function stubDiscogsRelease() {
+      return vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        Response.json({
+          id: Number(TEST_RELEASE_ID),
+          title: "Test Album",
+          year: 2024,
+          artists: [{ name: "Test Artist" }],
+          tracklist: [
+            { position: "A1", title: "Track One", duration: "3:00" },
+            { position: "A2", title: "Track Two", duration: "" },
+          ],
+        })
+      );
+    }
+
+    async function postRetro(app: ReturnType<typeof createTestApp>, body: unknown): Promise<Response> {
+      const { name, value } = getTestSessionCookie();
+      return app.request(
+        new Request("http://localhost:8787/session/retro", {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify(body),
+        })
+      );
+    }
+
+    it("should reject if Last.fm is not connected", async () => {
+      const app = createTestApp(createKVMock());
+
+      const response = await postRetro(app, { releaseId: TEST_RELEASE_ID, anchor: "finished", at: Date.now() });
+
+      expect(response.status).toBe(401);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("LASTFM_NOT_CONNECTED");
+    });
+
+    it("should reject request without an anchor", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const app = createTestApp(kvMock);
+
+      const response = await postRetro(app, { releaseId: TEST_RELEASE_ID, at: Date.now() });
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should reject a listen older than Last.fm accepts", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const fetchSpy = stubDiscogsRelease();
+      const app = createTestApp(kvMock);
+
+      const response = await postRetro(app, {
+        releaseId: TEST_RELEASE_ID,
+        anchor: "started",
+        at: Date.now() - 15 * 24 * 60 * 60 * 1000,
+      });
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(body.error.message).toBe("Last.fm only accepts listens from the last 14 days");
+
+      fetchSpy.mockRestore();
+    });
+
+    it("should scrobble back-dated tracks and archive the listen", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const fetchSpy = stubDiscogsRelease();
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const app = createTestApp(kvMock);
+      const finishedAt = Date.now() - 60_000;
+
+      const response = await postRetro(app, { releaseId: TEST_RELEASE_ID, anchor: "finished", at: finishedAt });
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.state).toBe("ended");
+      // The second track has no duration, so the default length stands in
+      expect(body.session.startedAt).toBe(finishedAt - 360_000);
+      expect(body.session.tracks.map((track) => track.status)).toEqual(["scrobbled", "scrobbled"]);
+      expect(body.session.tracks[1]?.startedAt).toBe(finishedAt - 180_000);
+      const scrobbleLogs = logSpy.mock.calls.filter(([message]) => message === "[DEV MODE] Would scrobble:");
+      expect(scrobbleLogs).toHaveLength(2);
+      expect(kvMock.store.has(`session:archive:${body.session.id}`)).toBe(true);
+      expect(await fetchCurrentSession(app)).toBeNull();
+
+      fetchSpy.mockRestore();
+      logSpy.mockRestore();
+    });
+
+    it("should time tracks without a duration by the requested default length", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const fetchSpy = stubDiscogsRelease();
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const app = createTestApp(kvMock);
+      const finishedAt = Date.now() - 60_000;
+
+      const response = await postRetro(app, {
+        releaseId: TEST_RELEASE_ID,
+        anchor: "finished",
+        at: finishedAt,
+        defaultTrackSec: 300,
+      });
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.startedAt).toBe(finishedAt - 480_000);
+      expect(body.session.tracks[1]?.startedAt).toBe(finishedAt - 300_000);
+      expect(body.session.defaultTrackMs).toBe(300_000);
+
+      fetchSpy.mockRestore();
+      logSpy.mockRestore();
+    });
+
+    it("should credit artists by the requested policy", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        Response.json({
+          id: Number(TEST_RELEASE_ID),
+          title: "Watch The Throne",
+          artists: [
+            { name: "Jay-Z", join: "&" },
+            { name: "Kanye West" },
+          ],
+          tracklist: [{ position: "A1", title: "Otis", duration: "3:00" }],
+        })
+      );
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const app = createTestApp(kvMock);
+
+      const response = await postRetro(app, {
+        releaseId: TEST_RELEASE_ID,
+        anchor: "finished",
+        at: Date.now() - 60_000,
+        artistCredit: "primary",
+      });
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.release.artist).toBe("Jay-Z");
+      expect(body.session.release.tracks[0]?.artist).toBe("Jay-Z");
+
+      fetchSpy.mockRestore();
+      logSpy.mockRestore();
+    });
+  });
+
   describe("POST /session/:id/pause", () => {
     it("should reject if Last.fm is not connected", async () => {
       const kvMock = createKVMock();
@@ -233,6 +436,737 @@ describe("Session Routes", () => {
       const body = (await response.json()) as TestErrorResponse;
       expect(body.error.code).toBe("SESSION_NOT_FOUND");
     });
+
+    it("should skip rather than scrobble a track shorter than 30 seconds", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const release = createTestRelease();
+      release.tracks[0] = { ...release.tracks[0]!, durationSec: 20 };
+      const session = createStoredSession(
+        kvMock,
+        createSession({
+          sessionId: "sess-interlude",
+          userId: TEST_SESSION_ID,
+          release,
+          startedAt: Date.now() - 20_000,
+        })
+      );
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/next`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.currentIndex).toBe(1);
+      expect(body.session.tracks[0]?.status).toBe("skipped");
+      expect(body.session.events.map((event) => event.type)).toEqual(["start", "skip"]);
+    });
+
+    it("should submit a listen only once when two sessions advance the same track", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      // Two tabs started the same record at the same moment
+      const startedAt = Date.now() - 120_000;
+      const [first, second] = ["sess-tab-one", "sess-tab-two"].map((sessionId) =>
+        createStoredSession(
+          kvMock,
+          createSession({ sessionId, userId: TEST_SESSION_ID, release: createTestRelease(), startedAt })
+        )
+      );
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+      const responses = [];
+      for (const session of [first!, second!]) {
+        responses.push(
+          await app.request(
+            new Request(`http://localhost:8787/session/${session.id}/next`, {
+              method: "POST",
+              headers: { cookie: `${name}=${value}` },
+            })
+          )
+        );
+      }
+
+      const scrobbleLogs = logSpy.mock.calls.filter(([message]) => message === "[DEV MODE] Would scrobble:");
+      expect(scrobbleLogs).toHaveLength(1);
+      const body = (await responses[1]!.json()) as { session: Session };
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      expect(body.session.events.at(-1)).toMatchObject({
+        type: "scrobble-result",
+        ok: true,
+        message: "Already submitted",
+      });
+
+      logSpy.mockRestore();
+    });
+  });
+
+  describe("POST /session/:id/track-changed", () => {
+    it("should return 404 if session does not exist", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/nonexistent-id/track-changed`, {
+          method: "POST",
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should move a side-timed session on to the next track", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const session = createStoredSession(
+        kvMock,
+        createSession({
+          sessionId: "sess-side",
+          userId: TEST_SESSION_ID,
+          release: createTestRelease(),
+          startedAt: Date.now() - 150_000,
+          timerMode: "side",
+        })
+      );
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/track-changed`, {
+          method: "POST",
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.currentIndex).toBe(1);
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+    });
+  });
+
+  describe("POST /session/:id/flip", () => {
+    it("should return 404 if session does not exist", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/nonexistent-id/flip`, {
+          method: "POST",
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should start the side a session is waiting on", async () => {
+      const kvMock = createKVMock();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(createTestUserTokens()));
+      const release = createTestRelease();
+      const session = createStoredSession(
+        kvMock,
+        advanceSession(
+          createSession({
+            sessionId: "sess-flip",
+            userId: TEST_SESSION_ID,
+            release: {
+              ...release,
+              tracks: release.tracks.map((track) => (track.index === 1 ? { ...track, side: "B" as const } : track)),
+            },
+            startedAt: Date.now() - 200_000,
+            pauseAtSideEnd: true,
+          }),
+          Date.now()
+        )
+      );
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/flip`, {
+          method: "POST",
+          headers: { cookie: `${name}=${value}` },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.state).toBe("running");
+      expect(body.session.currentIndex).toBe(1);
+    });
+  });
+
+  describe("POST /session/:id/skip", () => {
+    it("should reject if Last.fm is not connected", async () => {
+      const kvMock = createKVMock();
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${TEST_SESSION_ID}/skip`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(401);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("LASTFM_NOT_CONNECTED");
+    });
+
+    it("should return 404 if session does not exist", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/nonexistent-id/skip`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should mark the current track skipped without scrobbling it", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/skip`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.currentIndex).toBe(1);
+      expect(body.session.tracks[0]?.status).toBe("skipped");
+      expect(body.session.tracks[0]?.scrobbledAt).toBeNull();
+      expect(logSpy).not.toHaveBeenCalledWith("[DEV MODE] Would scrobble:", expect.anything());
+      expect(logSpy).toHaveBeenCalledWith("[DEV MODE] Would send Now Playing:", expect.anything());
+
+      logSpy.mockRestore();
+    });
+  });
+
+  describe("POST /session/:id/prev", () => {
+    it("should reject if Last.fm is not connected", async () => {
+      const kvMock = createKVMock();
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${TEST_SESSION_ID}/prev`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(401);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("LASTFM_NOT_CONNECTED");
+    });
+
+    it("should return 404 if session does not exist", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/nonexistent-id/prev`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should reject when already on the first track", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/prev`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("INVALID_STATE");
+    });
+
+    it("should move back to the previous track without changing scrobble status", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const initial = createSession({
+        sessionId: "sess-route",
+        userId: TEST_SESSION_ID,
+        release: createTestRelease(),
+        startedAt: Date.now() - 300_000,
+      });
+      const session = createStoredSession(kvMock, advanceSession(initial, Date.now() - 60_000));
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/prev`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.currentIndex).toBe(0);
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      expect(body.session.tracks[1]?.startedAt).toBeNull();
+
+      const stored = await fetchCurrentSession(app);
+      expect(kvMock.store.has(`session:${session.id}`)).toBe(false);
+      expect(stored?.currentIndex).toBe(0);
+    });
+  });
+
+  describe("PATCH /session/:id/tracks/:index", () => {
+    it("should return 404 if session does not exist", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/nonexistent-id/tracks/0`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ durationSec: 200 }),
+        })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should reject an invalid duration", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/tracks/0`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ durationSec: 0 }),
+        })
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should reject a track index outside the release", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/tracks/5`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ durationSec: 200 }),
+        })
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("INVALID_TRACK_INDEX");
+    });
+
+    it("should update one track's duration for this session", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/tracks/1`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ durationSec: 300 }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.release.tracks.map((track) => track.durationSec)).toEqual([180, 300]);
+
+      const stored = await fetchCurrentSession(app);
+      expect(kvMock.store.has(`session:${session.id}`)).toBe(false);
+      expect(stored?.release.tracks[1]?.durationSec).toBe(300);
+    });
+
+    it("should update every track with scope all", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/tracks/0`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ durationSec: 210, scope: "all" }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.release.tracks.map((track) => track.durationSec)).toEqual([210, 210]);
+    });
+  });
+
+  describe("POST /session/:id/end", () => {
+    it("should return 404 if session does not exist", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/nonexistent-id/end`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should reject an unknown end mode", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/end`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ endMode: "scrobble-all" }),
+        })
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should discard remaining tracks when no body is sent", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/end`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.state).toBe("ended");
+      expect(body.session.tracks.map((track) => track.status)).toEqual(["pending", "pending"]);
+      expect(logSpy).not.toHaveBeenCalledWith("[DEV MODE] Would scrobble:", expect.anything());
+
+      logSpy.mockRestore();
+    });
+
+    it("should mark remaining tracks skipped", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/end`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ endMode: "skip-remaining" }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks.map((track) => track.status)).toEqual(["skipped", "skipped"]);
+      expect(logSpy).not.toHaveBeenCalledWith("[DEV MODE] Would scrobble:", expect.anything());
+
+      const stored = await fetchCurrentSession(app);
+      expect(kvMock.store.has(`session:${session.id}`)).toBe(false);
+      expect(stored?.state).toBe("ended");
+
+      logSpy.mockRestore();
+    });
+
+    it("should scrobble the current and remaining tracks", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/end`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            cookie: `${name}=${value}`,
+          },
+          body: JSON.stringify({ endMode: "scrobble-remaining" }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks.map((track) => track.status)).toEqual(["scrobbled", "scrobbled"]);
+      const scrobbleLogs = logSpy.mock.calls.filter(([message]) => message === "[DEV MODE] Would scrobble:");
+      expect(scrobbleLogs).toHaveLength(2);
+
+      logSpy.mockRestore();
+    });
+  });
+
+  describe("GET /session/:id/events", () => {
+    it("should return 404 without a session cookie", async () => {
+      const kvMock = createKVMock();
+      const session = createStoredSession(kvMock);
+      const app = createTestApp(kvMock);
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/events`)
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as TestErrorResponse;
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should return 404 for another user's session", async () => {
+      const kvMock = createKVMock();
+      const session = createStoredSession(
+        kvMock,
+        createSession({
+          sessionId: "sess-other",
+          userId: "someone-else",
+          release: createTestRelease(),
+          startedAt: Date.now(),
+        })
+      );
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/events`, {
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return the event log recorded by session actions", async () => {
+      const kvMock = createKVMock();
+      const tokens = createTestUserTokens();
+      kvMock.store.set(kvUserTokensKey(TEST_SESSION_ID), JSON.stringify(tokens));
+      const session = createStoredSession(kvMock);
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/next`, {
+          method: "POST",
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${session.id}/events`, {
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as SessionEventsResponse;
+      expect(body.events.map((event) => event.type)).toEqual([
+        "start",
+        "next",
+        "scrobble-attempt",
+        "scrobble-result",
+      ]);
+      expect(body.events[2]).toMatchObject({ trackIndex: 0, source: "next", startedAt: session.startedAt });
+
+      logSpy.mockRestore();
+    });
+
+    it("should return an empty log for sessions stored without one", async () => {
+      const kvMock = createKVMock();
+      const { events: _events, ...legacy } = createSession({
+        sessionId: "sess-legacy",
+        userId: TEST_SESSION_ID,
+        release: createTestRelease(),
+        startedAt: Date.now(),
+      });
+      kvMock.store.set(`session:${legacy.id}`, JSON.stringify(legacy));
+      const app = createTestApp(kvMock);
+      const { name, value } = getTestSessionCookie();
+
+      const response = await app.request(
+        new Request(`http://localhost:8787/session/${legacy.id}/events`, {
+          headers: {
+            cookie: `${name}=${value}`,
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as SessionEventsResponse;
+      expect(body.events).toEqual([]);
+    });
   });
 
   describe("POST /session/:id/scrobble-current", () => {
@@ -1,67 +1,103 @@
 import { Hono } from "hono";
 import type { Context } from "hono";
 import {
-  advanceSession,
   createAPIError,
-  createSession,
-  endSession,
+  createScrobblePolicy,
   ErrorCode,
-  isEligibleToScrobble,
   normalizeDiscogsRelease,
-  pauseSession,
-  resumeSession,
-  syncSession,
+  planRetroScrobbles,
+  SessionRetroRequestSchema,
   SessionStartRequestSchema,
   SessionParamSchema,
+  SessionTrackParamSchema,
   SessionScrobbleCurrentRequestSchema,
+  SessionEndRequestSchema,
+  SessionTrackDurationRequestSchema,
   type DiscogsReleaseApiResponse,
+  type NormalizeDiscogsReleaseOptions,
   type NormalizedRelease,
+  type RetroPlan,
+  type Session,
   type SessionActionResponse,
   type SessionCurrentResponse,
-  type SessionStartResponse,
-  type SessionSyncResponse,
+  type SessionEventsResponse,
 } from "@repo/shared";
 import { getCookie } from "hono/cookie";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import { getOrCreateSessionId, loadStoredTokens, setSessionCookie, requireLastFm } from "../middleware/auth.js";
-import {
-  loadCurrentSession,
-  loadSession,
-  scrobbleTrack,
-  sendNowPlaying,
-  storeSession,
-} from "../session-helpers.js";
+import { callDurableObject, loadCurrentSessionId } from "../session-helpers.js";
 import type { CloudflareBinding } from "../types.js";
-import { DISCOGS_API_BASE, DISCOGS_USER_AGENT, getDiscogsAppCredentials } from "../utils/discogs.js";
+import {
+  createAppAuthHeader,
+  DISCOGS_API_BASE,
+  DISCOGS_USER_AGENT,
+  fillDurationsFromMaster,
+  getDiscogsAppCredentials,
+} from "../utils/discogs.js";
 import { formatZodErrors } from "../utils/validation.js";
 
 type HonoContext = Context<{ Bindings: CloudflareBinding }>;
 
+const RETRO_PLAN_ERRORS: Record<Extract<RetroPlan, { ok: false }>["reason"], string> = {
+  "no-tracks": "None of the selected tracks are on this release",
+  "too-old": "Last.fm only accepts listens from the last 14 days",
+  "not-finished": "The listen would not have finished yet",
+};
+
 const router = new Hono<{ Bindings: CloudflareBinding }>();
 
-function getSessionDOStub(env: CloudflareBinding, sessionId: string): DurableObjectStub {
-  const id = env.SESSION_DO.idFromName(sessionId);
-  return env.SESSION_DO.get(id);
+async function callSessionDO(
+  env: CloudflareBinding,
+  sessionId: string,
+  command: string,
+  body: Record<string, unknown>
+): Promise<Response> {
+  return callDurableObject(env.SESSION_DO, sessionId, command, { sessionId, ...body });
 }
 
-async function notifyDO(
-  stub: DurableObjectStub,
+/**
+ * Forward a command to the session's Durable Object and relay its response.
+ * The DO owns every transition and scrobble; routes only validate input and
+ * attach the caller's identity and Last.fm session key.
+ */
+async function forwardToDO(
+  c: HonoContext,
+  userId: string,
+  sessionId: string,
   command: string,
   body: Record<string, unknown> = {}
-): Promise<void> {
-  try {
-    await stub.fetch(`https://internal/${command}`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ command, ...body }),
-    });
-  } catch (err) {
-    console.error(`[notifyDO] Failed to send ${command}:`, err);
+): Promise<Response> {
+  const tokens = await loadStoredTokens(c.env.NOW_SPINNING_KV, userId);
+  const response = await callSessionDO(c.env, sessionId, command, {
+    userId,
+    lastfmSessionKey: tokens.lastfm!.accessToken,
+    ...body,
+  });
+  const payload: unknown = await response.json();
+  return c.json(payload as object, response.status as ContentfulStatusCode);
+}
+
+/**
+ * Read a session from its Durable Object, or null if it does not exist or
+ * belongs to another user.
+ */
+async function readSession(
+  env: CloudflareBinding,
+  userId: string,
+  sessionId: string
+): Promise<Session | null> {
+  const response = await callSessionDO(env, sessionId, "get", { userId });
+  if (!response.ok) {
+    return null;
   }
+  const { session } = await response.json<SessionActionResponse>();
+  return session;
 }
 
 async function fetchDiscogsRelease(
   c: HonoContext,
-  releaseId: string
+  releaseId: string,
+  options: NormalizeDiscogsReleaseOptions
 ): Promise<
   | { ok: true; release: NormalizedRelease }
   | { ok: false; status: 400 | 502 | 500; message: string }
@@ -72,11 +108,12 @@ async function fetchDiscogsRelease(
   }
 
   const releaseUrl = new URL(`${DISCOGS_API_BASE}/releases/${releaseId}`);
+  const authHeader = createAppAuthHeader(appCredentials.consumerKey, appCredentials.consumerSecret);
 
   const response = await fetch(releaseUrl.toString(), {
     headers: {
       "User-Agent": DISCOGS_USER_AGENT,
-      "Authorization": `Discogs key=${appCredentials.consumerKey}, secret=${appCredentials.consumerSecret}`,
+      "Authorization": authHeader,
     },
   });
 
@@ -97,9 +134,16 @@ async function fetchDiscogsRelease(
     };
   }
 
+  const data = raw as DiscogsReleaseApiResponse;
   return {
     ok: true,
-    release: normalizeDiscogsRelease(raw as DiscogsReleaseApiResponse),
+    release: await fillDurationsFromMaster(
+      c.env.NOW_SPINNING_KV,
+      authHeader,
+      normalizeDiscogsRelease(data, options),
+      data.master_id,
+      { profile: options.profile, subTracks: options.subTracks }
+    ),
   };
 }
 
@@ -107,7 +151,6 @@ router.post(
   "/start",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -129,44 +172,104 @@ router.post(
       );
     }
 
-    const { releaseId, thresholdPercent } = bodyResult.data;
+    const {
+      releaseId,
+      thresholdPercent,
+      timerMode,
+      pauseAtSideEnd,
+      defaultTrackSec,
+      trackGapSec,
+      artistCredit,
+      profile,
+    } = bodyResult.data;
 
     if (!/^[0-9]+$/.test(releaseId)) {
       return c.json(createAPIError(ErrorCode.INVALID_RELEASE_ID, "Release id must be numeric"), 400);
     }
 
-    const tokens = await loadStoredTokens(kv, userId);
-
-    const releaseResponse = await fetchDiscogsRelease(c, releaseId);
+    const releaseResponse = await fetchDiscogsRelease(c, releaseId, { artistCredit, profile });
     if (!releaseResponse.ok) {
       const status = releaseResponse.status;
       return c.json(createAPIError(ErrorCode.DISCOGS_ERROR, releaseResponse.message), status);
     }
 
-    const now = Date.now();
-    const session = createSession({
-      sessionId: crypto.randomUUID(),
-      userId,
+    const sessionId = crypto.randomUUID();
+    return forwardToDO(c, userId, sessionId, "start", {
       release: releaseResponse.release,
-      startedAt: now,
+      startedAt: Date.now(),
+      scrobblePolicy: createScrobblePolicy(thresholdPercent),
+      timerMode,
+      pauseAtSideEnd,
+      defaultTrackSec,
+      trackGapSec,
     });
+  }
+);
+
+/**
+ * Log a past listen of a whole record (or some of its tracks). Timestamps
+ * are back-dated from the track durations and scrobbled together; the
+ * logged session is archived straight away.
+ */
+router.post(
+  "/retro",
+  requireLastFm,
+  async (c: HonoContext) => {
+    const userId = getOrCreateSessionId(c);
+    setSessionCookie(c, userId);
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Invalid or malformed JSON body"),
+        400
+      );
+    }
+    const bodyResult = SessionRetroRequestSchema.safeParse(body);
+    if (!bodyResult.success) {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Request body validation failed", formatZodErrors(bodyResult.error)),
+        400
+      );
+    }
+
+    const { releaseId, anchor, at, trackIndexes, thresholdPercent, defaultTrackSec, artistCredit, profile } =
+      bodyResult.data;
 
-    await storeSession(kv, session);
-    const npResult = await sendNowPlaying(c.env, tokens.lastfm!.accessToken, session.release, session.currentIndex);
-    if (!npResult.ok) {
-      console.error("[POST /start] Failed to send now playing:", npResult.message);
+    if (!/^[0-9]+$/.test(releaseId)) {
+      return c.json(createAPIError(ErrorCode.INVALID_RELEASE_ID, "Release id must be numeric"), 400);
     }
 
-    const doStub = getSessionDOStub(c.env, session.id);
-    await notifyDO(doStub, "start", {
-      sessionId: session.id,
-      userId,
-      lastfmSessionKey: tokens.lastfm!.accessToken,
-      thresholdPercent,
-    });
+    const releaseResponse = await fetchDiscogsRelease(c, releaseId, { artistCredit, profile });
+    if (!releaseResponse.ok) {
+      const status = releaseResponse.status;
+      return c.json(createAPIError(ErrorCode.DISCOGS_ERROR, releaseResponse.message), status);
+    }
 
-    const response: SessionStartResponse = { session };
-    return c.json(response);
+    const loggedAt = Date.now();
+    const plan = planRetroScrobbles(
+      {
+        release: releaseResponse.release,
+        anchor,
+        at,
+        trackIndexes,
+        defaultTrackSec,
+        policy: createScrobblePolicy(thresholdPercent),
+      },
+      loggedAt
+    );
+    if (!plan.ok) {
+      return c.json(createAPIError(ErrorCode.VALIDATION_ERROR, RETRO_PLAN_ERRORS[plan.reason]), 400);
+    }
+
+    return forwardToDO(c, userId, crypto.randomUUID(), "retro", {
+      release: releaseResponse.release,
+      plan,
+      loggedAt,
+      defaultTrackSec,
+    });
   }
 );
 
@@ -174,7 +277,6 @@ router.post(
   "/:id/pause",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -188,20 +290,7 @@ router.post(
       );
     }
 
-    const { id: sessionId } = paramResult.data;
-    const session = await loadSession(kv, sessionId);
-    if (!session || session.userId !== userId) {
-      return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
-    }
-
-    const updated = pauseSession(session);
-    await storeSession(kv, updated);
-
-    const doStub = getSessionDOStub(c.env, sessionId);
-    await notifyDO(doStub, "pause");
-
-    const response: SessionActionResponse = { session: updated };
-    return c.json(response);
+    return forwardToDO(c, userId, paramResult.data.id, "pause", { pausedAt: Date.now() });
   }
 );
 
@@ -209,7 +298,6 @@ router.post(
   "/:id/resume",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -223,34 +311,7 @@ router.post(
       );
     }
 
-    const { id: sessionId } = paramResult.data;
-    const session = await loadSession(kv, sessionId);
-    if (!session || session.userId !== userId) {
-      return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
-    }
-
-    const tokens = await loadStoredTokens(kv, userId);
-    const now = Date.now();
-    const updated = resumeSession(session, now);
-    await storeSession(kv, updated);
-
-    if (updated.state !== "ended") {
-      const npResult = await sendNowPlaying(
-        c.env,
-        tokens.lastfm!.accessToken,
-        updated.release,
-        updated.currentIndex
-      );
-      if (!npResult.ok) {
-        console.error("[POST /:id/resume] Failed to send now playing:", npResult.message);
-      }
-
-      const doStub = getSessionDOStub(c.env, sessionId);
-      await notifyDO(doStub, "resume", { resumedAt: now });
-    }
-
-    const response: SessionActionResponse = { session: updated };
-    return c.json(response);
+    return forwardToDO(c, userId, paramResult.data.id, "resume", { resumedAt: Date.now() });
   }
 );
 
@@ -258,7 +319,6 @@ router.post(
   "/:id/scrobble-current",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -290,83 +350,108 @@ router.post(
       );
     }
 
-    const { id: sessionId } = paramResult.data;
-    const { elapsedMs, thresholdPercent } = bodyResult.data;
+    // The DO checks eligibility against the policy stored when the session started
+    return forwardToDO(c, userId, paramResult.data.id, "scrobble-current", {
+      elapsedMs: bodyResult.data.elapsedMs,
+    });
+  }
+);
 
-    const session = await loadSession(kv, sessionId);
-    if (!session || session.userId !== userId) {
-      return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
-    }
+router.post(
+  "/:id/next",
+  requireLastFm,
+  async (c: HonoContext) => {
+    const userId = getOrCreateSessionId(c);
+    setSessionCookie(c, userId);
 
-    const currentIndex = session.currentIndex;
-    if (currentIndex < 0 || currentIndex >= session.tracks.length) {
-      return c.json(createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Current track index is invalid"), 500);
+    // Validate param
+    const params = c.req.param();
+    const paramResult = SessionParamSchema.safeParse(params);
+    if (!paramResult.success) {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Path parameters validation failed", formatZodErrors(paramResult.error)),
+        400
+      );
     }
 
-    const currentTrack = session.tracks[currentIndex];
-    if (!currentTrack) {
-      return c.json(createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Current track not found"), 500);
-    }
+    return forwardToDO(c, userId, paramResult.data.id, "next", { advancedAt: Date.now() });
+  }
+);
+
+/**
+ * Side mode: the current track changed now. Re-anchors the rest of the side
+ * and moves on to the next track.
+ */
+router.post(
+  "/:id/track-changed",
+  requireLastFm,
+  async (c: HonoContext) => {
+    const userId = getOrCreateSessionId(c);
+    setSessionCookie(c, userId);
 
-    // Check if already scrobbled (idempotent)
-    if (currentTrack.status === "scrobbled") {
-      const response: SessionActionResponse = { session };
-      return c.json(response);
+    // Validate param
+    const params = c.req.param();
+    const paramResult = SessionParamSchema.safeParse(params);
+    if (!paramResult.success) {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Path parameters validation failed", formatZodErrors(paramResult.error)),
+        400
+      );
     }
 
-    // thresholdPercent passed from frontend, already defaults to 50 in schema
+    return forwardToDO(c, userId, paramResult.data.id, "track-changed", { changedAt: Date.now() });
+  }
+);
 
-    // Get track duration in milliseconds from release track data
-    const releaseTrack = session.release.tracks[currentIndex];
-    const durationMs = releaseTrack?.durationSec ? releaseTrack.durationSec * 1000 : null;
+/**
+ * The record has been flipped: start the side the session is waiting on.
+ */
+router.post(
+  "/:id/flip",
+  requireLastFm,
+  async (c: HonoContext) => {
+    const userId = getOrCreateSessionId(c);
+    setSessionCookie(c, userId);
 
-    // Check eligibility
-    const eligible = isEligibleToScrobble(elapsedMs, durationMs, thresholdPercent);
-    
-    if (!eligible) {
+    // Validate param
+    const params = c.req.param();
+    const paramResult = SessionParamSchema.safeParse(params);
+    if (!paramResult.success) {
       return c.json(
-        createAPIError(ErrorCode.VALIDATION_ERROR, "Track has not been played long enough to scrobble"),
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Path parameters validation failed", formatZodErrors(paramResult.error)),
         400
       );
     }
 
-    const tokens = await loadStoredTokens(kv, userId);
-    const currentStartedAt = currentTrack.startedAt ?? Date.now();
+    return forwardToDO(c, userId, paramResult.data.id, "flip", { flippedAt: Date.now() });
+  }
+);
 
-    // Scrobble the track
-    const scrobbleResult = await scrobbleTrack(
-      c.env,
-      tokens.lastfm!.accessToken,
-      session.release,
-      currentIndex,
-      Math.floor(currentStartedAt / 1000)
-    );
-    if (!scrobbleResult.ok) {
-      console.error("[POST /:id/scrobble-current] Failed to scrobble track:", scrobbleResult.message);
+router.post(
+  "/:id/skip",
+  requireLastFm,
+  async (c: HonoContext) => {
+    const userId = getOrCreateSessionId(c);
+    setSessionCookie(c, userId);
+
+    // Validate param
+    const params = c.req.param();
+    const paramResult = SessionParamSchema.safeParse(params);
+    if (!paramResult.success) {
       return c.json(
-        createAPIError(ErrorCode.LASTFM_ERROR, "Failed to scrobble track to Last.fm"),
-        502
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Path parameters validation failed", formatZodErrors(paramResult.error)),
+        400
       );
     }
 
-    // Mark track as scrobbled
-    const updatedTrack = { ...currentTrack, status: "scrobbled" as const, scrobbledAt: Date.now() };
-    const updatedTracks = [...session.tracks];
-    updatedTracks[currentIndex] = updatedTrack;
-    const updated = { ...session, tracks: updatedTracks };
-    
-    await storeSession(kv, updated);
-
-    const response: SessionActionResponse = { session: updated };
-    return c.json(response);
+    return forwardToDO(c, userId, paramResult.data.id, "skip", { skippedAt: Date.now() });
   }
 );
 
 router.post(
-  "/:id/next",
+  "/:id/prev",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -380,60 +465,54 @@ router.post(
       );
     }
 
-    const { id: sessionId } = paramResult.data;
-    const session = await loadSession(kv, sessionId);
-    if (!session || session.userId !== userId) {
-      return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
-    }
+    return forwardToDO(c, userId, paramResult.data.id, "prev", { rewoundAt: Date.now() });
+  }
+);
 
-    const tokens = await loadStoredTokens(kv, userId);
+router.patch(
+  "/:id/tracks/:index",
+  requireLastFm,
+  async (c: HonoContext) => {
+    const userId = getOrCreateSessionId(c);
+    setSessionCookie(c, userId);
 
-    const now = Date.now();
-    const previousIndex = session.currentIndex;
-    
-    if (previousIndex < 0 || previousIndex >= session.tracks.length) {
-      return c.json(createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Current track index is invalid"), 500);
-    }
-    
-    const previousTrack = session.tracks[previousIndex];
-    const previousStartedAt = previousTrack?.startedAt ?? now;
-    const wasAlreadyScrobbled = previousTrack?.status === "scrobbled";
-    
-    const updated = advanceSession(session, now);
-
-    await storeSession(kv, updated);
-
-    // Only scrobble if not already scrobbled (e.g., by proactive scrobble-current endpoint)
-    if (!wasAlreadyScrobbled) {
-      const scrobbleResult = await scrobbleTrack(
-        c.env,
-        tokens.lastfm!.accessToken,
-        updated.release,
-        previousIndex,
-        Math.floor(previousStartedAt / 1000)
+    // Validate params
+    const params = c.req.param();
+    const paramResult = SessionTrackParamSchema.safeParse(params);
+    if (!paramResult.success) {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Path parameters validation failed", formatZodErrors(paramResult.error)),
+        400
       );
-      if (!scrobbleResult.ok) {
-        console.error("[POST /:id/next] Failed to scrobble track:", scrobbleResult.message);
-      }
     }
 
-    if (updated.state !== "ended") {
-      const npResult = await sendNowPlaying(
-        c.env,
-        tokens.lastfm!.accessToken,
-        updated.release,
-        updated.currentIndex
+    // Validate body
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Invalid or malformed JSON body"),
+        400
+      );
+    }
+    const bodyResult = SessionTrackDurationRequestSchema.safeParse(body);
+    if (!bodyResult.success) {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Request body validation failed", formatZodErrors(bodyResult.error)),
+        400
       );
-      if (!npResult.ok) {
-        console.error("[POST /:id/next] Failed to send now playing:", npResult.message);
-      }
     }
 
-    const doStub = getSessionDOStub(c.env, sessionId);
-    await notifyDO(doStub, "next", { advancedAt: now });
+    const { id: sessionId, index: trackIndex } = paramResult.data;
+    const { durationSec, scope } = bodyResult.data;
 
-    const response: SessionActionResponse = { session: updated };
-    return c.json(response);
+    return forwardToDO(c, userId, sessionId, "duration", {
+      trackIndex,
+      durationSec,
+      scope,
+      changedAt: Date.now(),
+    });
   }
 );
 
@@ -441,7 +520,6 @@ router.post(
   "/:id/end",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -454,41 +532,24 @@ router.post(
       );
     }
 
-    const { id: sessionId } = paramResult.data;
-    const session = await loadSession(kv, sessionId);
-    if (!session || session.userId !== userId) {
-      return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
+    // The body is optional; without one the session ends in discard mode
+    let body: unknown = {};
+    try {
+      body = await c.req.json();
+    } catch {
+      // No JSON body — use the default end mode
     }
-
-    const tokens = await loadStoredTokens(kv, userId);
-
-    const now = Date.now();
-    const currentIndex = session.currentIndex;
-    const currentTrack = session.tracks[currentIndex];
-    const currentStartedAt = currentTrack?.startedAt ?? now;
-    const wasAlreadyScrobbled = currentTrack?.status === "scrobbled";
-
-    const updated = endSession(session);
-    await storeSession(kv, updated);
-
-    const doStub = getSessionDOStub(c.env, sessionId);
-    await notifyDO(doStub, "end");
-
-    if (session.state !== "ended" && !wasAlreadyScrobbled) {
-      const scrobbleResult = await scrobbleTrack(
-        c.env,
-        tokens.lastfm!.accessToken,
-        updated.release,
-        currentIndex,
-        Math.floor(currentStartedAt / 1000)
+    const bodyResult = SessionEndRequestSchema.safeParse(body);
+    if (!bodyResult.success) {
+      return c.json(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Request body validation failed", formatZodErrors(bodyResult.error)),
+        400
       );
-      if (!scrobbleResult.ok) {
-        console.error("[POST /:id/end] Failed to scrobble track:", scrobbleResult.message);
-      }
     }
 
-    const response: SessionActionResponse = { session: updated };
-    return c.json(response);
+    const { endMode } = bodyResult.data;
+
+    return forwardToDO(c, userId, paramResult.data.id, "end", { endMode, endedAt: Date.now() });
   }
 );
 
@@ -496,7 +557,6 @@ router.post(
   "/:id/sync",
   requireLastFm,
   async (c: HonoContext) => {
-    const kv = c.env.NOW_SPINNING_KV;
     const userId = getOrCreateSessionId(c);
     setSessionCookie(c, userId);
 
@@ -509,60 +569,7 @@ router.post(
       );
     }
 
-    const { id: sessionId } = paramResult.data;
-    const session = await loadSession(kv, sessionId);
-    if (!session || session.userId !== userId) {
-      return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
-    }
-
-    const tokens = await loadStoredTokens(kv, userId);
-    const now = Date.now();
-
-    let thresholdPercent = 50;
-    try {
-      const body: unknown = await c.req.json();
-      const bodyResult = SessionScrobbleCurrentRequestSchema.safeParse(body);
-      if (bodyResult.success && typeof bodyResult.data.thresholdPercent === "number") {
-        thresholdPercent = bodyResult.data.thresholdPercent;
-      }
-    } catch {
-      // No JSON body — use default thresholdPercent
-    }
-
-    const { session: synced, scrobbleActions } = syncSession(session, now, thresholdPercent);
-
-    for (const action of scrobbleActions) {
-      const scrobbleResult = await scrobbleTrack(
-        c.env,
-        tokens.lastfm!.accessToken,
-        synced.release,
-        action.trackIndex,
-        Math.floor(action.startedAt / 1000)
-      );
-      if (!scrobbleResult.ok) {
-        console.error(`[POST /:id/sync] Failed to scrobble track ${action.trackIndex}:`, scrobbleResult.message);
-      }
-    }
-
-    if (synced.state === "running" && scrobbleActions.length > 0) {
-      const npResult = await sendNowPlaying(
-        c.env,
-        tokens.lastfm!.accessToken,
-        synced.release,
-        synced.currentIndex
-      );
-      if (!npResult.ok) {
-        console.error("[POST /:id/sync] Failed to send now playing:", npResult.message);
-      }
-    }
-
-    await storeSession(kv, synced);
-
-    const response: SessionSyncResponse = {
-      session: synced,
-      scrobbledCount: scrobbleActions.length,
-    };
-    return c.json(response);
+    return forwardToDO(c, userId, paramResult.data.id, "sync", { syncedAt: Date.now() });
   }
 );
 
@@ -574,9 +581,31 @@ router.get("/current", async (c: HonoContext) => {
     return c.json(response);
   }
 
-  const session = await loadCurrentSession(kv, userId);
+  const currentId = await loadCurrentSessionId(kv, userId);
+  const session = currentId ? await readSession(c.env, userId, currentId) : null;
   const response: SessionCurrentResponse = { session };
   return c.json(response);
 });
 
+router.get("/:id/events", async (c: HonoContext) => {
+  const userId = getCookie(c, "now_spinning_session");
+
+  const params = c.req.param();
+  const paramResult = SessionParamSchema.safeParse(params);
+  if (!paramResult.success) {
+    return c.json(
+      createAPIError(ErrorCode.VALIDATION_ERROR, "Path parameters validation failed", formatZodErrors(paramResult.error)),
+      400
+    );
+  }
+
+  const session = userId ? await readSession(c.env, userId, paramResult.data.id) : null;
+  if (!session) {
+    return c.json(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
+  }
+
+  const response: SessionEventsResponse = { events: session.events };
+  return c.json(response);
+});
+
 export const sessionRoutes = router;
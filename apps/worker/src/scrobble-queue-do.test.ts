@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { PendingScrobble, PendingScrobblesResponse } from "@repo/shared";
+import { ScrobbleQueueDO } from "./scrobble-queue-do";
+import type { CloudflareBinding } from "./types";
+import { createDOStateMock, createDOStorageMock, createKVMock } from "./test-utils";
+
+function makeRequest(path: string, body: Record<string, unknown> = {}): Request {
+  return new Request(`https://internal/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ command: path, ...body }),
+  });
+}
+
+function queuedScrobble(overrides: Partial<PendingScrobble> = {}) {
+  return {
+    sessionId: "test-session-id",
+    releaseId: "12345",
+    trackIndex: 0,
+    artist: "Test Artist",
+    track: "Track One",
+    album: "Test Album",
+    durationSec: 180,
+    startedAt: 1_700_000_000_000,
+    lastError: "Service offline",
+    ...overrides,
+  };
+}
+
+describe("ScrobbleQueueDO", () => {
+  let storageMock: ReturnType<typeof createDOStorageMock>;
+  let sessionFetch: ReturnType<typeof vi.fn>;
+  let env: CloudflareBinding;
+  let durable: ScrobbleQueueDO;
+
+  async function enqueue(overrides: Partial<PendingScrobble> = {}): Promise<PendingScrobble[]> {
+    const response = await durable.fetch(
+      makeRequest("enqueue", {
+        userId: "test-user-id",
+        lastfmSessionKey: "test-lastfm-key",
+        scrobble: queuedScrobble(overrides),
+      })
+    );
+    return ((await response.json()) as PendingScrobblesResponse).items;
+  }
+
+  function storedQueue(): PendingScrobble[] {
+    return (storageMock.store.get("pending") as PendingScrobble[] | undefined) ?? [];
+  }
+
+  /** Bodies of the retry results reported to session DOs. */
+  function reportedResults(): Array<Record<string, unknown>> {
+    const calls = sessionFetch.mock.calls as Array<[string, RequestInit]>;
+    return calls.map(([, init]) => JSON.parse(init.body as string) as Record<string, unknown>);
+  }
+
+  function failSubmissions(): void {
+    env.DEV_MODE = "false";
+    delete env.LASTFM_API_KEY;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_100_000);
+    storageMock = createDOStorageMock();
+    sessionFetch = vi.fn(async () => Response.json({}));
+    env = {
+      NOW_SPINNING_KV: createKVMock() as unknown as KVNamespace,
+      SESSION_DO: {
+        idFromName: vi.fn((name: string) => ({ name })),
+        get: vi.fn(() => ({ fetch: sessionFetch })),
+      } as unknown as DurableObjectNamespace,
+      DEV_MODE: "true",
+      LASTFM_API_KEY: "test-key",
+      LASTFM_API_SECRET: "test-secret",
+    } as CloudflareBinding;
+    durable = new ScrobbleQueueDO(createDOStateMock(storageMock), env);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("fetch - enqueue command", () => {
+    it("should queue the scrobble for a retry in one minute", async () => {
+      const items = await enqueue();
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          sessionId: "test-session-id",
+          trackIndex: 0,
+          status: "retrying",
+          attempts: 1,
+          nextAttemptAt: Date.now() + 60_000,
+          lastError: "Service offline",
+        }),
+      ]);
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(Date.now() + 60_000);
+      expect(storageMock.store.get("lastfmSessionKey")).toBe("test-lastfm-key");
+    });
+
+    it("should replace an entry already queued for the same track", async () => {
+      await enqueue();
+      const items = await enqueue({ lastError: "Try again later" });
+
+      expect(items).toHaveLength(1);
+      expect(items[0]?.lastError).toBe("Try again later");
+    });
+  });
+
+  describe("fetch - list command", () => {
+    it("should return an empty queue", async () => {
+      const response = await durable.fetch(makeRequest("list", { userId: "test-user-id" }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ items: [] });
+    });
+  });
+
+  describe("alarm", () => {
+    it("should submit due scrobbles and report them to the session", async () => {
+      await enqueue();
+      vi.advanceTimersByTime(60_000);
+
+      await durable.alarm();
+
+      expect(storedQueue()).toEqual([]);
+      expect(storageMock.deleteAlarm).toHaveBeenCalled();
+      expect(reportedResults()).toEqual([
+        expect.objectContaining({
+          command: "retry-result",
+          sessionId: "test-session-id",
+          userId: "test-user-id",
+          trackIndex: 0,
+          ok: true,
+          status: "scrobbled",
+        }),
+      ]);
+    });
+
+    it("should resend the album artist and track number", async () => {
+      env.DEV_MODE = "false";
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        Response.json({ scrobbles: { scrobble: { ignoredMessage: { code: "0", "#text": "" } } } })
+      );
+      await enqueue({ albumArtist: "Various Artists", trackNumber: 4 });
+      vi.advanceTimersByTime(60_000);
+
+      await durable.alarm();
+
+      const params = new URLSearchParams(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      expect(params.get("albumArtist[0]")).toBe("Various Artists");
+      expect(params.get("trackNumber[0]")).toBe("4");
+      fetchSpy.mockRestore();
+    });
+
+    it("should leave scrobbles that are not due yet", async () => {
+      await enqueue();
+      vi.advanceTimersByTime(30_000);
+
+      await durable.alarm();
+
+      expect(storedQueue()).toHaveLength(1);
+      expect(sessionFetch).not.toHaveBeenCalled();
+    });
+
+    it("should double the delay after each failed retry", async () => {
+      failSubmissions();
+      await enqueue();
+      vi.advanceTimersByTime(60_000);
+
+      await durable.alarm();
+
+      expect(storedQueue()[0]).toMatchObject({
+        status: "retrying",
+        attempts: 2,
+        nextAttemptAt: Date.now() + 120_000,
+        lastError: "Last.fm credentials not configured",
+      });
+      expect(storageMock.setAlarm).toHaveBeenLastCalledWith(Date.now() + 120_000);
+      expect(reportedResults()).toEqual([
+        expect.objectContaining({ ok: false, status: "retrying" }),
+      ]);
+    });
+
+    it("should stop retrying a scrobble Last.fm ignored", async () => {
+      env.DEV_MODE = "false";
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        Response.json({ scrobbles: { scrobble: { ignoredMessage: { code: "3", "#text": "Timestamp too old" } } } })
+      );
+      await enqueue();
+      vi.advanceTimersByTime(60_000);
+
+      await durable.alarm();
+
+      expect(storedQueue()[0]).toMatchObject({
+        status: "failed",
+        nextAttemptAt: null,
+        lastError: "Ignored by Last.fm: Timestamp too old",
+      });
+      expect(reportedResults()).toEqual([expect.objectContaining({ ok: false, status: "failed" })]);
+      fetchSpy.mockRestore();
+    });
+
+    it("should stop retrying once Last.fm rejects the session key", async () => {
+      env.DEV_MODE = "false";
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(Response.json({ error: 9, message: "Invalid session key" }));
+      await enqueue();
+      vi.advanceTimersByTime(60_000);
+
+      await durable.alarm();
+
+      expect(storedQueue()[0]).toMatchObject({ status: "failed", nextAttemptAt: null });
+      fetchSpy.mockRestore();
+    });
+
+    it("should mark the scrobble failed once its attempts run out", async () => {
+      failSubmissions();
+      await enqueue();
+
+      for (let attempt = 1; attempt < 6; attempt++) {
+        vi.advanceTimersByTime(60_000 * 2 ** (attempt - 1));
+        await durable.alarm();
+      }
+
+      expect(storedQueue()[0]).toMatchObject({ status: "failed", attempts: 6, nextAttemptAt: null });
+      expect(storageMock.getScheduledAlarm()).toBeNull();
+      const results = reportedResults();
+      expect(results.at(-1)).toMatchObject({ ok: false, status: "failed" });
+    });
+  });
+
+  describe("fetch - retry command", () => {
+    it("should submit every queued scrobble now, failed ones included", async () => {
+      await enqueue();
+      storageMock.store.set("pending", [
+        ...storedQueue(),
+        { ...storedQueue()[0], trackIndex: 1, status: "failed", attempts: 6, nextAttemptAt: null },
+      ]);
+
+      const response = await durable.fetch(
+        makeRequest("retry", { userId: "test-user-id", lastfmSessionKey: "new-lastfm-key" })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ items: [] });
+      expect(storageMock.store.get("lastfmSessionKey")).toBe("new-lastfm-key");
+      expect(reportedResults().map((result) => result.trackIndex)).toEqual([0, 1]);
+    });
+  });
+});
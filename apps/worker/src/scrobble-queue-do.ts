@@ -0,0 +1,225 @@
+import type { PendingScrobble, PendingScrobblesResponse } from "@repo/shared";
+import { callDurableObject, submitScrobble } from "./session-helpers.js";
+import type { CloudflareBinding } from "./types.js";
+
+/** Track details and first failure of a scrobble to add to the queue. */
+type QueuedScrobble = Omit<PendingScrobble, "status" | "attempts" | "nextAttemptAt">;
+
+interface EnqueueCommand {
+  command: "enqueue";
+  userId: string;
+  lastfmSessionKey: string;
+  scrobble: QueuedScrobble;
+}
+
+interface ListCommand {
+  command: "list";
+  userId: string;
+}
+
+interface RetryCommand {
+  command: "retry";
+  userId: string;
+  lastfmSessionKey: string;
+}
+
+type QueueCommand = EnqueueCommand | ListCommand | RetryCommand;
+
+/** Delay before the first automatic retry; doubles after every failure. */
+const RETRY_BASE_DELAY_MS = 60_000;
+
+/** Submissions, the first included, before a scrobble is marked failed. */
+const MAX_SCROBBLE_ATTEMPTS = 6;
+
+function getRetryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+function isSameScrobble(a: PendingScrobble, b: PendingScrobble): boolean {
+  return a.sessionId === b.sessionId && a.trackIndex === b.trackIndex;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+/**
+ * Durable Object holding one user's scrobbles that Last.fm did not accept.
+ *
+ * Session DOs enqueue a scrobble when its submission fails. Retries run from
+ * the alarm with exponential backoff until Last.fm accepts the scrobble or
+ * the attempts run out, at which point it stays queued as failed until the
+ * user retries by hand. Every attempt is reported back to the session's DO so
+ * the track's status and event log follow the queue.
+ */
+export class ScrobbleQueueDO implements DurableObject {
+  private ctx: DurableObjectState;
+  private env: CloudflareBinding;
+
+  constructor(ctx: DurableObjectState, env: CloudflareBinding) {
+    this.ctx = ctx;
+    this.env = env;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/+/, "");
+
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const body: unknown = await request.json();
+    const cmd = body as QueueCommand;
+
+    switch (path) {
+      case "enqueue":
+        return this.handleEnqueue(cmd as EnqueueCommand);
+      case "list":
+        return this.handleList();
+      case "retry":
+        return this.handleRetry(cmd as RetryCommand);
+      default:
+        return new Response("Unknown command", { status: 400 });
+    }
+  }
+
+  async alarm(): Promise<void> {
+    const userId = await this.ctx.storage.get<string>("userId");
+    const lastfmSessionKey = await this.ctx.storage.get<string>("lastfmSessionKey");
+    if (!userId || !lastfmSessionKey) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = (await this.loadPending()).filter(
+      (entry) => entry.status === "retrying" && entry.nextAttemptAt !== null && entry.nextAttemptAt <= now
+    );
+    for (const entry of due) {
+      await this.attempt(userId, lastfmSessionKey, entry);
+    }
+
+    await this.scheduleNextRetry();
+  }
+
+  private async handleEnqueue(cmd: EnqueueCommand): Promise<Response> {
+    await this.ctx.storage.put("userId", cmd.userId);
+    await this.ctx.storage.put("lastfmSessionKey", cmd.lastfmSessionKey);
+
+    const entry: PendingScrobble = {
+      ...cmd.scrobble,
+      status: "retrying",
+      attempts: 1,
+      nextAttemptAt: Date.now() + getRetryDelayMs(1),
+    };
+    await this.updatePending((pending) => [
+      ...pending.filter((queued) => !isSameScrobble(queued, entry)),
+      entry,
+    ]);
+    await this.scheduleNextRetry();
+
+    return this.handleList();
+  }
+
+  private async handleList(): Promise<Response> {
+    const response: PendingScrobblesResponse = { items: await this.loadPending() };
+    return jsonResponse(response);
+  }
+
+  /**
+   * Submit every queued scrobble now, failed ones included.
+   */
+  private async handleRetry(cmd: RetryCommand): Promise<Response> {
+    // The user may have reconnected Last.fm since the scrobbles were queued
+    await this.ctx.storage.put("userId", cmd.userId);
+    await this.ctx.storage.put("lastfmSessionKey", cmd.lastfmSessionKey);
+
+    for (const entry of await this.loadPending()) {
+      await this.attempt(cmd.userId, cmd.lastfmSessionKey, entry);
+    }
+    await this.scheduleNextRetry();
+
+    return this.handleList();
+  }
+
+  /**
+   * Submit one queued scrobble, update its queue entry and report the
+   * outcome to the session it was played in.
+   */
+  private async attempt(userId: string, lastfmSessionKey: string, entry: PendingScrobble): Promise<void> {
+    const result = await submitScrobble(this.env, lastfmSessionKey, {
+      userId,
+      releaseId: entry.releaseId,
+      artist: entry.artist,
+      track: entry.track,
+      album: entry.album,
+      albumArtist: entry.albumArtist,
+      trackNumber: entry.trackNumber,
+      durationSec: entry.durationSec,
+      timestampSec: Math.floor(entry.startedAt / 1000),
+    });
+
+    const attemptedAt = Date.now();
+    const attempts = entry.attempts + 1;
+    // Retrying would fail the same way until the scrobble or the connection changes
+    const isRetryable = result.ignored !== true && (result.error === undefined || result.error === "retryable");
+    const isExhausted = !isRetryable || attempts >= MAX_SCROBBLE_ATTEMPTS;
+    const updated: PendingScrobble = {
+      ...entry,
+      attempts,
+      status: isExhausted ? "failed" : "retrying",
+      nextAttemptAt: isExhausted ? null : attemptedAt + getRetryDelayMs(attempts),
+      lastError: result.message ?? null,
+    };
+
+    await this.updatePending((pending) => {
+      const remaining = pending.filter((queued) => !isSameScrobble(queued, entry));
+      return result.ok ? remaining : [...remaining, updated];
+    });
+
+    const response = await callDurableObject(this.env.SESSION_DO, entry.sessionId, "retry-result", {
+      sessionId: entry.sessionId,
+      userId,
+      trackIndex: entry.trackIndex,
+      startedAt: entry.startedAt,
+      attemptedAt,
+      ok: result.ok,
+      message: result.message ?? null,
+      status: result.ok ? "scrobbled" : updated.status,
+      response: result.response ?? null,
+    });
+    if (!response.ok) {
+      console.error(
+        `[ScrobbleQueueDO] Failed to report retry of track ${entry.trackIndex} to session ${entry.sessionId}:`,
+        response.status
+      );
+    }
+  }
+
+  private async loadPending(): Promise<PendingScrobble[]> {
+    return (await this.ctx.storage.get<PendingScrobble[]>("pending")) ?? [];
+  }
+
+  /**
+   * Apply a change to the queue as stored now, so entries enqueued while a
+   * submission was in flight are kept.
+   */
+  private async updatePending(
+    update: (pending: PendingScrobble[]) => PendingScrobble[]
+  ): Promise<void> {
+    await this.ctx.storage.put("pending", update(await this.loadPending()));
+  }
+
+  private async scheduleNextRetry(): Promise<void> {
+    const dueTimes = (await this.loadPending())
+      .map((entry) => entry.nextAttemptAt)
+      .filter((at): at is number => at !== null);
+
+    if (dueTimes.length === 0) {
+      await this.ctx.storage.deleteAlarm();
+      return;
+    }
+
+    await this.ctx.storage.setAlarm(Math.min(...dueTimes));
+  }
+}
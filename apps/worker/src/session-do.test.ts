@@ -1,8 +1,26 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { createSession, type Session, type NormalizedRelease } from "@repo/shared";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  advanceSession,
+  createScrobblePolicy,
+  createSession,
+  DEFAULT_SCROBBLE_POLICY,
+  endSession,
+  pauseSession,
+  planRetroScrobbles,
+  setScrobbleRetryStatus,
+  type PendingScrobblesResponse,
+  type ScrobbleRule,
+  type Session,
+  type NormalizedRelease,
+} from "@repo/shared";
 import { SessionAlarmDO } from "./session-do";
 import type { CloudflareBinding } from "./types";
-import { createKVMock } from "./test-utils";
+import {
+  createDOStateMock,
+  createDOStorageMock,
+  createKVMock,
+  createScrobbleQueueDONamespaceMock,
+} from "./test-utils";
 
 function createTestRelease(): NormalizedRelease {
   return {
@@ -30,205 +48,1500 @@ function createTestSession(overrides: Partial<Session> = {}): Session {
   });
 }
 
-function createDOStorageMock() {
-  const store = new Map<string, unknown>();
-  let scheduledAlarm: number | null = null;
-
-  return {
-    get: vi.fn(async <T>(key: string): Promise<T | undefined> => {
-      return store.get(key) as T | undefined;
-    }),
-    put: vi.fn(async (key: string, value: unknown) => {
-      store.set(key, value);
-    }),
-    delete: vi.fn(async (key: string) => {
-      store.delete(key);
-    }),
-    setAlarm: vi.fn(async (time: number) => {
-      scheduledAlarm = time;
-    }),
-    getAlarm: vi.fn(async () => scheduledAlarm),
-    deleteAlarm: vi.fn(async () => {
-      scheduledAlarm = null;
-    }),
-    store,
-    getScheduledAlarm: () => scheduledAlarm,
-  };
-}
-
-function createMockState(storageMock: ReturnType<typeof createDOStorageMock>) {
-  return {
-    id: { toString: () => "mock-do-id" },
-    storage: storageMock,
-    waitUntil: vi.fn(),
-  } as unknown as DurableObjectState;
-}
-
 function createMockEnv(kvMock: ReturnType<typeof createKVMock>): CloudflareBinding {
-  return {
+  const env = {
     NOW_SPINNING_KV: kvMock as unknown as KVNamespace,
     SESSION_DO: {} as unknown as DurableObjectNamespace,
     DEV_MODE: "true",
     LASTFM_API_KEY: "test-key",
     LASTFM_API_SECRET: "test-secret",
   } as CloudflareBinding;
+  env.SCROBBLE_QUEUE_DO = createScrobbleQueueDONamespaceMock(env) as unknown as DurableObjectNamespace;
+  return env;
+}
+
+function makeRequest(path: string, body: Record<string, unknown> = {}): Request {
+  return new Request(`https://internal/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function sessionCommand(session?: Session) {
+  return {
+    sessionId: session?.id ?? "test-session-id",
+    userId: session?.userId ?? "test-user-id",
+    lastfmSessionKey: "test-lastfm-key",
+  };
 }
 
-function makeRequest(path: string, body: Record<string, unknown> = {}): Request {
-  return new Request(`https://internal/${path}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-}
+describe("SessionAlarmDO", () => {
+  let kvMock: ReturnType<typeof createKVMock>;
+  let storageMock: ReturnType<typeof createDOStorageMock>;
+  let state: DurableObjectState;
+  let env: CloudflareBinding;
+  let durable: SessionAlarmDO;
+
+  function storeTestSession(session: Session): Session {
+    storageMock.store.set("session", session);
+    return session;
+  }
+
+  /** The live session in DO storage, or its KV archive once ended. */
+  function readStoredSession(session: Session): Session {
+    const stored = storageMock.store.get("session") as Session | undefined;
+    return stored ?? (JSON.parse(kvMock.store.get(`session:archive:${session.id}`)!) as Session);
+  }
+
+  beforeEach(() => {
+    kvMock = createKVMock();
+    storageMock = createDOStorageMock();
+    state = createDOStateMock(storageMock);
+    env = createMockEnv(kvMock);
+    durable = new SessionAlarmDO(state, env);
+  });
+
+  describe("fetch - start command", () => {
+    it("should create the session, store metadata and schedule alarm for first track", async () => {
+      const now = Date.now();
+      const response = await durable.fetch(
+        makeRequest("start", {
+          command: "start",
+          ...sessionCommand(),
+          release: createTestRelease(),
+          startedAt: now,
+          scrobblePolicy: DEFAULT_SCROBBLE_POLICY,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session).toMatchObject({ id: "test-session-id", state: "running", currentIndex: 0 });
+      expect(storageMock.store.get("session")).toMatchObject({ id: "test-session-id", version: 0 });
+      expect(kvMock.store.get("session:current:test-user-id")).toBe("test-session-id");
+      expect(kvMock.store.has("session:test-session-id")).toBe(false);
+      expect(storageMock.put).toHaveBeenCalledWith("sessionId", "test-session-id");
+      expect(storageMock.put).toHaveBeenCalledWith("userId", "test-user-id");
+      expect(storageMock.put).toHaveBeenCalledWith("lastfmSessionKey", "test-lastfm-key");
+      expect(storageMock.put).toHaveBeenCalledWith("scrobblePolicy", DEFAULT_SCROBBLE_POLICY);
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 90_000);
+    });
+  });
+
+  describe("fetch - session commands", () => {
+    it("should return 404 if session not found in KV", async () => {
+      const response = await durable.fetch(
+        makeRequest("pause", { command: "pause", ...sessionCommand(), pausedAt: Date.now() })
+      );
+
+      expect(response.status).toBe(404);
+      const body = (await response.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("SESSION_NOT_FOUND");
+    });
+
+    it("should return 404 for another user's session", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", {
+          command: "next",
+          ...sessionCommand(session),
+          userId: "someone-else",
+          advancedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(404);
+      expect(storageMock.setAlarm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("session storage", () => {
+    it("should bump the version on every save", async () => {
+      const session = storeTestSession(createTestSession());
+
+      await durable.fetch(
+        makeRequest("pause", { command: "pause", ...sessionCommand(session), pausedAt: Date.now() })
+      );
+      await durable.fetch(
+        makeRequest("resume", { command: "resume", ...sessionCommand(session), resumedAt: Date.now() })
+      );
+
+      expect(readStoredSession(session).version).toBe(2);
+    });
+
+    it("should reject a write derived from a stale version", async () => {
+      const session = storeTestSession(createTestSession());
+
+      // Next waits on its scrobble while pause saves first
+      const [nextResponse, pauseResponse] = await Promise.all([
+        durable.fetch(
+          makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+        ),
+        durable.fetch(
+          makeRequest("pause", { command: "pause", ...sessionCommand(session), pausedAt: Date.now() })
+        ),
+      ]);
+
+      expect(pauseResponse.status).toBe(200);
+      expect(nextResponse.status).toBe(409);
+      const body = (await nextResponse.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("SESSION_CONFLICT");
+      const stored = readStoredSession(session);
+      expect(stored).toMatchObject({ state: "paused", currentIndex: 0, version: 1 });
+    });
+
+    it("should archive an ended session to KV and clear it from storage", async () => {
+      const now = Date.now();
+      const session = storeTestSession(advanceSession(advanceSession(createTestSession(), now), now));
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      expect(storageMock.store.has("session")).toBe(false);
+      const archived = JSON.parse(kvMock.store.get(`session:archive:${session.id}`)!) as Session;
+      expect(archived.state).toBe("ended");
+
+      const response = await durable.fetch(makeRequest("get", { command: "get", ...sessionCommand(session) }));
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.state).toBe("ended");
+    });
+
+    it("should migrate a session still stored in KV on first read", async () => {
+      const { version: _version, ...legacy } = createTestSession();
+      kvMock.store.set(`session:${legacy.id}`, JSON.stringify(legacy));
+
+      const response = await durable.fetch(
+        makeRequest("pause", { command: "pause", ...sessionCommand(), pausedAt: Date.now() })
+      );
+
+      expect(response.status).toBe(200);
+      expect(kvMock.store.has(`session:${legacy.id}`)).toBe(false);
+      expect(storageMock.store.get("session")).toMatchObject({ state: "paused", version: 1 });
+    });
+
+    it("should move an ended session still stored in KV to the archive", async () => {
+      const legacy = endSession(createTestSession(), { endedAt: Date.now() });
+      kvMock.store.set(`session:${legacy.id}`, JSON.stringify(legacy));
+
+      const response = await durable.fetch(makeRequest("get", { command: "get", ...sessionCommand() }));
+
+      expect(response.status).toBe(200);
+      expect(kvMock.store.has(`session:${legacy.id}`)).toBe(false);
+      expect(kvMock.store.has(`session:archive:${legacy.id}`)).toBe(true);
+      expect(storageMock.store.has("session")).toBe(false);
+    });
+  });
+
+  describe("fetch - pause command", () => {
+    it("should pause the session and cancel the scheduled alarm", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("pause", { command: "pause", ...sessionCommand(session), pausedAt: Date.now() })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).state).toBe("paused");
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("fetch - resume command", () => {
+    it("should resume the session and reschedule alarm for current track", async () => {
+      const session = storeTestSession(pauseSession(createTestSession(), Date.now()));
+
+      const response = await durable.fetch(
+        makeRequest("resume", {
+          command: "resume",
+          ...sessionCommand(session),
+          resumedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).state).toBe("running");
+      expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not count a long pause towards the scrobble threshold", async () => {
+      const now = Date.now();
+      const session = createTestSession();
+      // 30s played, then paused for 20 minutes until now
+      session.state = "paused";
+      session.tracks[0] = {
+        ...session.tracks[0]!,
+        startedAt: now - 1_230_000,
+        pauses: [{ pausedAt: now - 1_200_000, resumedAt: null }],
+      };
+      storeTestSession(session);
+
+      const response = await durable.fetch(
+        makeRequest("resume", {
+          command: "resume",
+          ...sessionCommand(session),
+          resumedAt: now,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      // 90s threshold for the 180s track, 30s already played
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 60_000);
+    });
+
+    it("should schedule alarm for track with unknown duration using 30s fallback", async () => {
+      const now = Date.now();
+      const release = createTestRelease();
+      release.tracks[0] = { ...release.tracks[0]!, durationSec: 0 };
+      const session = storeTestSession(
+        createSession({
+          sessionId: "no-duration-session",
+          userId: "test-user-id",
+          release,
+          startedAt: now,
+        })
+      );
+
+      const response = await durable.fetch(
+        makeRequest("resume", {
+          command: "resume",
+          ...sessionCommand(session),
+          resumedAt: now,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 30_000);
+    });
+  });
+
+  describe("fetch - scrobble-current command", () => {
+    it("should scrobble an eligible current track", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 100_000 } as Partial<Session>));
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", {
+          command: "scrobble-current",
+          ...sessionCommand(session),
+          elapsedMs: 100_000,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).tracks[0]!.status).toBe("scrobbled");
+      expect(storageMock.store.get("scrobbledTracks")).toEqual([0]);
+    });
+
+    it("should check eligibility against the stored policy", async () => {
+      const session = storeTestSession(createTestSession());
+      storageMock.store.set("scrobblePolicy", createScrobblePolicy(90));
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", {
+          command: "scrobble-current",
+          ...sessionCommand(session),
+          elapsedMs: 100_000,
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect(readStoredSession(session).tracks[0]!.status).toBe("pending");
+    });
+
+    it("should reject a track that has not played long enough", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", {
+          command: "scrobble-current",
+          ...sessionCommand(session),
+          elapsedMs: 10_000,
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect(readStoredSession(session).tracks[0]!.status).toBe("pending");
+    });
+
+    it("should not submit a track another request holds the lease for", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 100_000 } as Partial<Session>));
+      storageMock.store.set("scrobbleLeases", { 0: now + 30_000 });
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", {
+          command: "scrobble-current",
+          ...sessionCommand(session),
+          elapsedMs: 100_000,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]!.status).toBe("pending");
+      expect(updated.events.some((event) => event.type === "scrobble-attempt")).toBe(false);
+    });
+
+    it("should take over an expired lease", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 100_000 } as Partial<Session>));
+      storageMock.store.set("scrobbleLeases", { 0: now - 1_000 });
+
+      await durable.fetch(
+        makeRequest("scrobble-current", {
+          command: "scrobble-current",
+          ...sessionCommand(session),
+          elapsedMs: 100_000,
+        })
+      );
+
+      expect(readStoredSession(session).tracks[0]!.status).toBe("scrobbled");
+      expect(storageMock.store.get("scrobbleLeases")).toEqual({});
+    });
+
+    it("should submit a track only once when the alarm fires at the same time", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 100_000 } as Partial<Session>));
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      await Promise.all([
+        durable.fetch(
+          makeRequest("scrobble-current", {
+            command: "scrobble-current",
+            ...sessionCommand(session),
+            elapsedMs: 100_000,
+          })
+        ),
+        durable.alarm(),
+      ]);
+
+      const submissions = logSpy.mock.calls.filter(([message]) => message === "[DEV MODE] Would scrobble:");
+      expect(submissions).toHaveLength(1);
+      logSpy.mockRestore();
+    });
+  });
+
+  describe("fetch - next command", () => {
+    it("should scrobble the current track, advance and reschedule", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", {
+          command: "next",
+          ...sessionCommand(session),
+          advancedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const updated = readStoredSession(session);
+      expect(updated.currentIndex).toBe(1);
+      expect(updated.events.map((event) => event.type)).toEqual([
+        "start",
+        "next",
+        "scrobble-attempt",
+        "scrobble-result",
+      ]);
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      expect(storageMock.setAlarm).toHaveBeenCalled();
+    });
+
+    it("should not submit a track whose scrobble was already accepted", async () => {
+      const session = storeTestSession(createTestSession());
+      storageMock.store.set("scrobbledTracks", [0]);
+
+      await durable.fetch(
+        makeRequest("next", {
+          command: "next",
+          ...sessionCommand(session),
+          advancedAt: Date.now(),
+        })
+      );
+
+      const updated = readStoredSession(session);
+      expect(updated.currentIndex).toBe(1);
+      expect(updated.events.some((event) => event.type === "scrobble-attempt")).toBe(false);
+    });
+
+    it("should skip a track the stored policy finds too short", async () => {
+      const session = storeTestSession(createTestSession());
+      storageMock.store.set("scrobblePolicy", { ...DEFAULT_SCROBBLE_POLICY, minTrackDurationMs: 200_000 });
+
+      await durable.fetch(
+        makeRequest("next", {
+          command: "next",
+          ...sessionCommand(session),
+          advancedAt: Date.now(),
+        })
+      );
+
+      const updated = readStoredSession(session);
+      expect(updated.currentIndex).toBe(1);
+      expect(updated.tracks[0]?.status).toBe("skipped");
+      expect(updated.events.some((event) => event.type === "scrobble-attempt")).toBe(false);
+    });
+  });
+
+  describe("scrobble ids", () => {
+    it("should not call Last.fm again for a listen already submitted elsewhere", async () => {
+      const session = createTestSession();
+      storeTestSession(session);
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      // A second DO holding the same listen, as a racing tab or retry would
+      const otherStorage = createDOStorageMock();
+      otherStorage.store.set("session", session);
+      const other = new SessionAlarmDO(createDOStateMock(otherStorage), env);
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const response = await other.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      expect(logSpy).not.toHaveBeenCalledWith("[DEV MODE] Would scrobble:", expect.anything());
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      expect(body.session.events.at(-1)).toMatchObject({
+        type: "scrobble-result",
+        ok: true,
+        message: "Already submitted",
+      });
+      logSpy.mockRestore();
+    });
+
+    it("should store the scrobble id with a short TTL", async () => {
+      const session = storeTestSession(createTestSession());
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      expect(kvMock.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^scrobble:id:[0-9a-f]{64}$/),
+        expect.any(String),
+        { expirationTtl: 3600 }
+      );
+    });
+
+    it("should release the scrobble id when Last.fm rejects the scrobble", async () => {
+      env.DEV_MODE = "false";
+      delete env.LASTFM_API_KEY;
+      const session = storeTestSession(createTestSession());
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      expect([...kvMock.store.keys()].some((key) => key.startsWith("scrobble:id:"))).toBe(false);
+    });
+
+    it("should release the scrobble id when the Last.fm call throws, so a retry sends it", async () => {
+      env.DEV_MODE = "false";
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockRejectedValueOnce(new TypeError("Network connection lost"))
+        .mockImplementation(async () =>
+          Response.json({
+            scrobbles: { "@attr": { accepted: 1, ignored: 0 }, scrobble: { ignoredMessage: { code: "0", "#text": "" } } },
+          })
+        );
+      const session = storeTestSession(createTestSession());
+      const scrobbleCurrent = () =>
+        durable.fetch(
+          makeRequest("scrobble-current", {
+            command: "scrobble-current",
+            ...sessionCommand(session),
+            elapsedMs: 100_000,
+          })
+        );
+
+      await expect(scrobbleCurrent()).rejects.toThrow("Network connection lost");
+      expect([...kvMock.store.keys()].some((key) => key.startsWith("scrobble:id:"))).toBe(false);
+
+      const response = await scrobbleCurrent();
+
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(readStoredSession(session).tracks[0]?.status).toBe("scrobbled");
+      expect(storageMock.store.get("scrobbledTracks")).toEqual([0]);
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe("fetch - skip command", () => {
+    it("should skip the current track and reschedule for the next track", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("skip", {
+          command: "skip",
+          ...sessionCommand(session),
+          skippedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).tracks[0]!.status).toBe("skipped");
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      expect(storageMock.setAlarm).toHaveBeenCalled();
+    });
+
+    it("should reject an ended session", async () => {
+      const session = storeTestSession(endSession(createTestSession(), { endedAt: Date.now() }));
+
+      const response = await durable.fetch(
+        makeRequest("skip", {
+          command: "skip",
+          ...sessionCommand(session),
+          skippedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("fetch - prev command", () => {
+    it("should cancel existing alarm and reschedule for the restarted track", async () => {
+      const now = Date.now();
+      const session = storeTestSession(advanceSession(createTestSession(), now - 1_000));
+
+      const response = await durable.fetch(
+        makeRequest("prev", {
+          command: "prev",
+          ...sessionCommand(session),
+          rewoundAt: now,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).currentIndex).toBe(0);
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      // 50% of the 180s first track
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 90_000);
+    });
+
+    it("should not reschedule while paused", async () => {
+      const now = Date.now();
+      const session = storeTestSession(pauseSession(advanceSession(createTestSession(), now - 1_000), now));
+
+      const response = await durable.fetch(
+        makeRequest("prev", {
+          command: "prev",
+          ...sessionCommand(session),
+          rewoundAt: now,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      expect(storageMock.setAlarm).not.toHaveBeenCalled();
+    });
+
+    it("should reject when already on the first track", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("prev", {
+          command: "prev",
+          ...sessionCommand(session),
+          rewoundAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("fetch - duration command", () => {
+    it("should reschedule the alarm from the edited duration", async () => {
+      const now = Date.now();
+      const session = createTestSession();
+      session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 60_000 };
+      storeTestSession(session);
+
+      const response = await durable.fetch(
+        makeRequest("duration", {
+          command: "duration",
+          ...sessionCommand(session),
+          trackIndex: 0,
+          durationSec: 400,
+          scope: "track",
+          changedAt: now,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).release.tracks[0]!.durationSec).toBe(400);
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      // 50% of 400s, less the 60s already played
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 140_000);
+    });
+
+    it("should reject a track index outside the release", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("duration", {
+          command: "duration",
+          ...sessionCommand(session),
+          trackIndex: 9,
+          durationSec: 200,
+          scope: "track",
+          changedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect(storageMock.setAlarm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("fetch - end command", () => {
+    it("should end the session, cancel alarm and clear stored metadata", async () => {
+      const session = storeTestSession(createTestSession());
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("userId", session.userId);
+      storageMock.store.set("lastfmSessionKey", "test-key");
+      storageMock.store.set("scrobblePolicy", DEFAULT_SCROBBLE_POLICY);
+
+      const response = await durable.fetch(
+        makeRequest("end", {
+          command: "end",
+          ...sessionCommand(session),
+          endMode: "discard",
+          endedAt: Date.now(),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(readStoredSession(session).state).toBe("ended");
+      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      expect(storageMock.delete).toHaveBeenCalledWith("sessionId");
+      expect(storageMock.delete).toHaveBeenCalledWith("userId");
+      expect(storageMock.delete).toHaveBeenCalledWith("lastfmSessionKey");
+      expect(storageMock.delete).toHaveBeenCalledWith("scrobblePolicy");
+      expect(storageMock.delete).toHaveBeenCalledWith("thresholdPercent");
+      expect(storageMock.delete).toHaveBeenCalledWith("scrobbledTracks");
+      expect(storageMock.delete).toHaveBeenCalledWith("scrobbleLeases");
+    });
+
+    it("should apply the stored policy to the tracks it scrobbles", async () => {
+      const session = storeTestSession(createTestSession());
+      storageMock.store.set("scrobblePolicy", { ...DEFAULT_SCROBBLE_POLICY, minTrackDurationMs: 210_000 });
+
+      await durable.fetch(
+        makeRequest("end", {
+          command: "end",
+          ...sessionCommand(session),
+          endMode: "scrobble-remaining",
+          endedAt: Date.now(),
+        })
+      );
+
+      // Only the 240s track is long enough under the stored policy
+      expect(readStoredSession(session).tracks.map((track) => track.status)).toEqual([
+        "skipped",
+        "scrobbled",
+        "skipped",
+      ]);
+    });
+  });
+
+  describe("fetch - sync command", () => {
+    it("should scrobble tracks that became eligible and reschedule", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 200_000 } as Partial<Session>));
+
+      const response = await durable.fetch(
+        makeRequest("sync", {
+          command: "sync",
+          ...sessionCommand(session),
+          syncedAt: now,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session; scrobbledCount: number };
+      expect(body.scrobbledCount).toBe(1);
+      expect(body.session.currentIndex).toBe(1);
+      expect(storageMock.store.get("scrobbledTracks")).toEqual([0]);
+      expect(storageMock.setAlarm).toHaveBeenCalled();
+    });
+
+    it("should catch up using the stored policy", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 100_000 } as Partial<Session>));
+      storageMock.store.set("scrobblePolicy", createScrobblePolicy(90));
+
+      const response = await durable.fetch(
+        makeRequest("sync", {
+          command: "sync",
+          ...sessionCommand(session),
+          syncedAt: now,
+        })
+      );
+
+      const body = (await response.json()) as { session: Session; scrobbledCount: number };
+      expect(body.scrobbledCount).toBe(0);
+      expect(body.session.tracks[0]?.status).toBe("pending");
+    });
+  });
+
+  describe("batched scrobbles", () => {
+    /** Stub Last.fm, answering `track.scrobble` with the given items. */
+    function stubLastFm(scrobbles: unknown) {
+      env.DEV_MODE = "false";
+      return vi.spyOn(globalThis, "fetch").mockImplementation(async (_input, init) => {
+        const params = new URLSearchParams(init?.body as string);
+        if (params.get("method") === "track.scrobble") {
+          return Response.json({ scrobbles: { "@attr": { accepted: 1, ignored: 1 }, scrobble: scrobbles } });
+        }
+        return Response.json({ nowplaying: {} });
+      });
+    }
+
+    function scrobbleCalls(fetchSpy: ReturnType<typeof stubLastFm>): URLSearchParams[] {
+      return fetchSpy.mock.calls
+        .map(([, init]) => new URLSearchParams(init?.body as string))
+        .filter((params) => params.get("method") === "track.scrobble");
+    }
+
+    it("should submit every track a sync catches up on in one call", async () => {
+      const fetchSpy = stubLastFm([
+        { ignoredMessage: { code: "0", "#text": "" } },
+        { ignoredMessage: { code: "0", "#text": "" } },
+      ]);
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 450_000 } as Partial<Session>));
+
+      const response = await durable.fetch(
+        makeRequest("sync", {
+          command: "sync",
+          ...sessionCommand(session),
+          syncedAt: now,
+        })
+      );
+
+      const body = (await response.json()) as { session: Session; scrobbledCount: number };
+      expect(body.scrobbledCount).toBe(2);
+      const calls = scrobbleCalls(fetchSpy);
+      expect(calls).toHaveLength(1);
+      expect(calls[0]?.get("track[0]")).toBe("Track One");
+      expect(calls[0]?.get("track[1]")).toBe("Track Two");
+      expect(calls[0]?.get("timestamp[1]")).toBe(String(Math.floor((now - 270_000) / 1000)));
+      expect(storageMock.store.get("scrobbledTracks")).toEqual([0, 1]);
+      fetchSpy.mockRestore();
+    });
+
+    it("should mark a track Last.fm ignored as failed without queueing it", async () => {
+      const fetchSpy = stubLastFm([
+        { ignoredMessage: { code: "0", "#text": "" } },
+        { ignoredMessage: { code: "1", "#text": "Artist was ignored" } },
+      ]);
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 450_000 } as Partial<Session>));
+
+      const response = await durable.fetch(
+        makeRequest("sync", {
+          command: "sync",
+          ...sessionCommand(session),
+          syncedAt: now,
+        })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      expect(body.session.tracks[1]?.status).toBe("failed");
+      expect(body.session.events).toContainEqual(
+        expect.objectContaining({
+          type: "scrobble-result",
+          trackIndex: 1,
+          ok: false,
+          message: "Ignored by Last.fm: Artist was ignored",
+        })
+      );
+      expect(body.session.tracks[1]?.scrobbleResponse).toEqual({
+        accepted: false,
+        ignoredReason: "artist-ignored",
+        ignoredMessage: "Artist was ignored",
+        corrected: { artist: null, track: null, album: null },
+      });
+      expect(storageMock.store.get("scrobbledTracks")).toEqual([0]);
+      expect(storageMock.store.get("scrobbleLeases")).toEqual({});
+      fetchSpy.mockRestore();
+    });
+
+    it("should keep the values Last.fm corrected on an accepted scrobble", async () => {
+      const fetchSpy = stubLastFm({
+        artist: { corrected: "0", "#text": "Test Artist" },
+        track: { corrected: "1", "#text": "Track One (Remastered)" },
+        album: { corrected: "0", "#text": "Test Album" },
+        ignoredMessage: { code: "0", "#text": "" },
+      });
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]).toMatchObject({
+        status: "scrobbled",
+        scrobbleResponse: {
+          accepted: true,
+          ignoredReason: null,
+          corrected: { artist: null, track: "Track One (Remastered)", album: null },
+        },
+      });
+      fetchSpy.mockRestore();
+    });
+
+    it("should keep the values Last.fm corrected when the current track is scrobbled", async () => {
+      const fetchSpy = stubLastFm({
+        artist: { corrected: "0", "#text": "Test Artist" },
+        track: { corrected: "1", "#text": "Track One (Remastered)" },
+        album: { corrected: "0", "#text": "Test Album" },
+        ignoredMessage: { code: "0", "#text": "" },
+      });
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", { command: "scrobble-current", ...sessionCommand(session), elapsedMs: 100_000 })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      expect(body.session.tracks[0]?.scrobbleResponse?.corrected).toEqual({
+        artist: null,
+        track: "Track One (Remastered)",
+        album: null,
+      });
+      fetchSpy.mockRestore();
+    });
+
+    it("should mark the current track failed when Last.fm ignores it, so next does not resend it", async () => {
+      const fetchSpy = stubLastFm({ ignoredMessage: { code: "1", "#text": "Artist was ignored" } });
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", { command: "scrobble-current", ...sessionCommand(session), elapsedMs: 100_000 })
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]).toMatchObject({
+        status: "failed",
+        scrobbleResponse: { accepted: false, ignoredReason: "artist-ignored" },
+      });
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      expect(scrobbleCalls(fetchSpy)).toHaveLength(1);
+      expect(readStoredSession(session).tracks[0]?.status).toBe("failed");
+      fetchSpy.mockRestore();
+    });
+
+    it("should describe an ignored scrobble without a message by its code", async () => {
+      const fetchSpy = stubLastFm({ ignoredMessage: { code: "3", "#text": "" } });
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]?.scrobbleResponse?.ignoredReason).toBe("timestamp-too-old");
+      expect(body.session.events.at(-1)).toMatchObject({
+        type: "scrobble-result",
+        message: "Ignored by Last.fm: timestamp too old",
+      });
+      fetchSpy.mockRestore();
+    });
+
+    it("should send the album artist and track number with scrobbles and Now Playing", async () => {
+      const fetchSpy = stubLastFm({ ignoredMessage: { code: "0", "#text": "" } });
+      const release = { ...createTestRelease(), artist: "Various Artists", albumArtist: "Various Artists" };
+      const session = storeTestSession(createTestSession({ release } as Partial<Session>));
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const [scrobble] = scrobbleCalls(fetchSpy);
+      expect(scrobble?.get("artist[0]")).toBe("Test Artist");
+      expect(scrobble?.get("albumArtist[0]")).toBe("Various Artists");
+      expect(scrobble?.get("trackNumber[0]")).toBe("1");
+      const nowPlaying = fetchSpy.mock.calls
+        .map(([, init]) => new URLSearchParams(init?.body as string))
+        .find((params) => params.get("method") === "track.updateNowPlaying");
+      expect(nowPlaying?.get("albumArtist")).toBe("Various Artists");
+      expect(nowPlaying?.get("trackNumber")).toBe("2");
+      fetchSpy.mockRestore();
+    });
+
+    it("should apply the user's correction rules before scrobbling and Now Playing", async () => {
+      const fetchSpy = stubLastFm({ ignoredMessage: { code: "0", "#text": "" } });
+      const rules: ScrobbleRule[] = [
+        { id: "global", match: "literal", find: "Test Artist", replace: "Artist, The", fields: ["artist"] },
+        { id: "release", match: "regex", find: "^Track (\\w+)$", replace: "Song $1", fields: ["title"], releaseId: "12345" },
+        { id: "other", match: "literal", find: "Test Album", replace: "Elsewhere", fields: ["album"], releaseId: "999" },
+      ];
+      kvMock.store.set("scrobble-rules:test-user-id", JSON.stringify(rules));
+      const session = storeTestSession(createTestSession());
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const [scrobble] = scrobbleCalls(fetchSpy);
+      expect(scrobble?.get("artist[0]")).toBe("Artist, The");
+      expect(scrobble?.get("track[0]")).toBe("Song One");
+      expect(scrobble?.get("album[0]")).toBe("Test Album");
+      const nowPlaying = fetchSpy.mock.calls
+        .map(([, init]) => new URLSearchParams(init?.body as string))
+        .find((params) => params.get("method") === "track.updateNowPlaying");
+      expect(nowPlaying?.get("track")).toBe("Song Two");
+      fetchSpy.mockRestore();
+    });
+
+    it("should read a single scrobble result returned as an object", async () => {
+      const fetchSpy = stubLastFm({ ignoredMessage: { code: "0", "#text": "" } });
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      expect(scrobbleCalls(fetchSpy)[0]?.get("artist[0]")).toBe("Test Artist");
+      fetchSpy.mockRestore();
+    });
+
+    it("should submit the tracks an end backfills in one call", async () => {
+      const fetchSpy = stubLastFm([
+        { ignoredMessage: { code: "0", "#text": "" } },
+        { ignoredMessage: { code: "0", "#text": "" } },
+        { ignoredMessage: { code: "0", "#text": "" } },
+      ]);
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("end", {
+          command: "end",
+          ...sessionCommand(session),
+          endMode: "scrobble-remaining",
+          endedAt: Date.now(),
+        })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks.every((track) => track.status === "scrobbled")).toBe(true);
+      expect(scrobbleCalls(fetchSpy)).toHaveLength(1);
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe("Last.fm errors", () => {
+    function stubLastFmError(code: number) {
+      env.DEV_MODE = "false";
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      return vi
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async () => Response.json({ error: code, message: `Error ${code}` }));
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should disconnect Last.fm and report an expired session key", async () => {
+      stubLastFmError(9);
+      kvMock.store.set(
+        "user:test-user-id:tokens",
+        JSON.stringify({
+          lastfm: { service: "lastfm", accessToken: "test-lastfm-key", storedAt: Date.now() },
+          discogs: null,
+        })
+      );
+      const now = Date.now();
+      const session = storeTestSession(createTestSession({ startedAt: now - 100_000 } as Partial<Session>));
+
+      const response = await durable.fetch(
+        makeRequest("scrobble-current", {
+          command: "scrobble-current",
+          ...sessionCommand(session),
+          elapsedMs: 100_000,
+        })
+      );
+
+      expect(response.status).toBe(401);
+      const body = (await response.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("LASTFM_SESSION_EXPIRED");
+      const tokens = JSON.parse(kvMock.store.get("user:test-user-id:tokens")!) as Record<string, unknown>;
+      expect(tokens.lastfm).toBeNull();
+      expect(tokens.lastfmExpiredAt).toEqual(expect.any(Number));
+    });
+
+    it("should keep a newer Last.fm connection when an old key is rejected", async () => {
+      stubLastFmError(9);
+      kvMock.store.set(
+        "user:test-user-id:tokens",
+        JSON.stringify({
+          lastfm: { service: "lastfm", accessToken: "reconnected-key", storedAt: Date.now() },
+          discogs: null,
+        })
+      );
+      const session = storeTestSession(createTestSession());
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const tokens = JSON.parse(kvMock.store.get("user:test-user-id:tokens")!) as Record<string, unknown>;
+      expect(tokens.lastfm).toMatchObject({ accessToken: "reconnected-key" });
+    });
+
+    it("should mark a track failed without queueing it on a permanent error", async () => {
+      stubLastFmError(6);
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]?.status).toBe("failed");
+      const queue = env.SCROBBLE_QUEUE_DO.get(env.SCROBBLE_QUEUE_DO.idFromName("test-user-id"));
+      const listed = await queue.fetch("https://internal/list", {
+        method: "POST",
+        body: JSON.stringify({ command: "list", userId: "test-user-id" }),
+      });
+      expect(((await listed.json()) as PendingScrobblesResponse).items).toEqual([]);
+    });
+  });
+
+  describe("scrobble retries", () => {
+    async function listQueuedScrobbles(): Promise<PendingScrobblesResponse["items"]> {
+      const queue = env.SCROBBLE_QUEUE_DO.get(env.SCROBBLE_QUEUE_DO.idFromName("test-user-id"));
+      const response = await queue.fetch("https://internal/list", {
+        method: "POST",
+        body: JSON.stringify({ command: "list", userId: "test-user-id" }),
+      });
+      return ((await response.json()) as PendingScrobblesResponse).items;
+    }
+
+    function retryResult(session: Session, ok: boolean, status: string): Request {
+      return makeRequest("retry-result", {
+        command: "retry-result",
+        sessionId: session.id,
+        userId: session.userId,
+        trackIndex: 0,
+        startedAt: session.startedAt,
+        attemptedAt: Date.now(),
+        ok,
+        message: ok ? null : "Service offline",
+        status,
+        response: null,
+      });
+    }
+
+    it("should queue a scrobble Last.fm rejects and mark the track retrying", async () => {
+      env.DEV_MODE = "false";
+      delete env.LASTFM_API_KEY;
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks[0]).toMatchObject({ status: "retrying", scrobbledAt: null });
+      expect(body.session.currentIndex).toBe(1);
+      expect(await listQueuedScrobbles()).toEqual([
+        expect.objectContaining({
+          sessionId: session.id,
+          trackIndex: 0,
+          track: "Track One",
+          album: "Test Album",
+          startedAt: session.startedAt,
+          status: "retrying",
+          lastError: "Last.fm credentials not configured",
+        }),
+      ]);
+    });
+
+    it("should not resubmit a track waiting in the retry queue", async () => {
+      const session = storeTestSession(setScrobbleRetryStatus(createTestSession(), 0, "retrying", Date.now()));
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await durable.fetch(
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
+      );
+
+      expect(logSpy).not.toHaveBeenCalledWith("[DEV MODE] Would scrobble:", expect.anything());
+      expect(readStoredSession(session).tracks[0]?.status).toBe("retrying");
+      logSpy.mockRestore();
+    });
+
+    it("should record an accepted retry on the track and the event log", async () => {
+      const now = Date.now();
+      const session = storeTestSession(
+        setScrobbleRetryStatus(advanceSession(createTestSession(), now), 0, "retrying", now)
+      );
+
+      const response = await durable.fetch(retryResult(session, true, "scrobbled"));
+
+      expect(response.status).toBe(200);
+      const stored = readStoredSession(session);
+      expect(stored.tracks[0]?.status).toBe("scrobbled");
+      expect(stored.events.slice(-2)).toEqual([
+        expect.objectContaining({ type: "scrobble-attempt", source: "retry", trackIndex: 0 }),
+        expect.objectContaining({ type: "scrobble-result", ok: true, trackIndex: 0 }),
+      ]);
+      expect(storageMock.store.get("scrobbledTracks")).toEqual([0]);
+    });
+
+    it("should update the archived session when a retry finishes after it ended", async () => {
+      const now = Date.now();
+      const ended = endSession(
+        setScrobbleRetryStatus(advanceSession(createTestSession(), now), 0, "retrying", now),
+        { endedAt: now }
+      );
+      kvMock.store.set(`session:archive:${ended.id}`, JSON.stringify(ended));
 
-describe("SessionAlarmDO", () => {
-  let kvMock: ReturnType<typeof createKVMock>;
-  let storageMock: ReturnType<typeof createDOStorageMock>;
-  let state: DurableObjectState;
-  let env: CloudflareBinding;
-  let durable: SessionAlarmDO;
+      const response = await durable.fetch(retryResult(ended, false, "failed"));
 
-  beforeEach(() => {
-    kvMock = createKVMock();
-    storageMock = createDOStorageMock();
-    state = createMockState(storageMock);
-    env = createMockEnv(kvMock);
-    durable = new SessionAlarmDO(state, env);
+      expect(response.status).toBe(200);
+      const archived = JSON.parse(kvMock.store.get(`session:archive:${ended.id}`)!) as Session;
+      expect(archived.tracks[0]?.status).toBe("failed");
+      expect(archived.version).toBe(ended.version + 1);
+    });
   });
 
-  describe("fetch - start command", () => {
-    it("should store metadata and schedule alarm for first track", async () => {
-      const session = createTestSession();
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-
-      const response = await durable.fetch(
-        makeRequest("start", {
-          command: "start",
-          sessionId: session.id,
-          userId: session.userId,
-          lastfmSessionKey: "test-lastfm-key",
-          thresholdPercent: 50,
+  describe("fetch - retro command", () => {
+    function retroCommand(finishedAt: number) {
+      const release = createTestRelease();
+      const plan = planRetroScrobbles({ release, anchor: "finished", at: finishedAt }, Date.now());
+      return { command: "retro", ...sessionCommand(), release, plan, loggedAt: Date.now() };
+    }
+
+    it("should submit the listen's scrobbles in one call and archive it", async () => {
+      env.DEV_MODE = "false";
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        Response.json({
+          scrobbles: {
+            "@attr": { accepted: 3, ignored: 0 },
+            scrobble: [0, 1, 2].map(() => ({ ignoredMessage: { code: "0", "#text": "" } })),
+          },
         })
       );
+      const finishedAt = Date.now() - 60_000;
+
+      const response = await durable.fetch(makeRequest("retro", retroCommand(finishedAt)));
 
       expect(response.status).toBe(200);
-      expect(storageMock.put).toHaveBeenCalledWith("sessionId", session.id);
-      expect(storageMock.put).toHaveBeenCalledWith("userId", session.userId);
-      expect(storageMock.put).toHaveBeenCalledWith("lastfmSessionKey", "test-lastfm-key");
-      expect(storageMock.put).toHaveBeenCalledWith("thresholdPercent", 50);
-      expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session).toMatchObject({ state: "ended", version: 1, startedAt: finishedAt - 620_000 });
+      expect(body.session.tracks.map((track) => track.status)).toEqual(["scrobbled", "scrobbled", "scrobbled"]);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      const params = new URLSearchParams(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      expect(params.get("timestamp[2]")).toBe(String(Math.floor((finishedAt - 200_000) / 1000)));
+      expect(body.session.events).toContainEqual(expect.objectContaining({ type: "scrobble-attempt", source: "retro" }));
+      expect(readStoredSession(body.session)).toEqual(body.session);
+      expect(storageMock.store.size).toBe(0);
+      expect(kvMock.store.has("session:current:test-user-id")).toBe(false);
+      fetchSpy.mockRestore();
     });
 
-    it("should return 404 if session not found in KV", async () => {
-      const response = await durable.fetch(
+    it("should queue the listen's scrobbles Last.fm rejects", async () => {
+      env.DEV_MODE = "false";
+      delete env.LASTFM_API_KEY;
+
+      const response = await durable.fetch(makeRequest("retro", retroCommand(Date.now() - 60_000)));
+
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.tracks.map((track) => track.status)).toEqual(["retrying", "retrying", "retrying"]);
+    });
+  });
+
+  describe("side mode", () => {
+    function createSideSession(startedAt: number): Session {
+      return createSession({
+        sessionId: "test-session-id",
+        userId: "test-user-id",
+        release: createTestRelease(),
+        startedAt,
+        timerMode: "side",
+      });
+    }
+
+    it("should schedule the first alarm for the first inferred boundary", async () => {
+      const now = Date.now();
+
+      await durable.fetch(
         makeRequest("start", {
           command: "start",
-          sessionId: "nonexistent",
-          userId: "user",
-          lastfmSessionKey: "key",
-          thresholdPercent: 50,
+          ...sessionCommand(),
+          release: createTestRelease(),
+          startedAt: now,
+          scrobblePolicy: DEFAULT_SCROBBLE_POLICY,
+          timerMode: "side",
         })
       );
 
-      expect(response.status).toBe(404);
+      expect(storageMock.store.get("session")).toMatchObject({ timerMode: "side" });
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 180_000);
     });
-  });
 
-  describe("fetch - pause command", () => {
-    it("should cancel the scheduled alarm", async () => {
-      await durable.fetch(makeRequest("pause", { command: "pause" }));
+    it("should move on at the inferred boundary when the alarm runs late", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createSideSession(now - 200_000));
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
 
-      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]?.status).toBe("scrobbled");
+      expect(updated.currentIndex).toBe(1);
+      expect(updated.tracks[1]?.startedAt).toBe(now - 20_000);
     });
-  });
 
-  describe("fetch - resume command", () => {
-    it("should reschedule alarm for current track", async () => {
-      const session = createTestSession();
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
+    it("should move on without scrobbling again when the track was scrobbled early", async () => {
+      const now = Date.now();
+      const session = createSideSession(now - 200_000);
+      session.tracks[0] = { ...session.tracks[0]!, status: "scrobbled", scrobbledAt: now - 110_000 };
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]).toMatchObject({ status: "scrobbled", scrobbledAt: now - 110_000 });
+      expect(updated.currentIndex).toBe(1);
+      expect(updated.tracks[1]?.startedAt).toBe(now - 20_000);
+      expect(updated.events).not.toContainEqual(expect.objectContaining({ type: "scrobble-attempt" }));
+      // The second track ends 240s after it started
+      expect(storageMock.setAlarm).toHaveBeenLastCalledWith(now + 220_000);
+    });
+
+    it("should wait for the boundary when the track was scrobbled early", async () => {
+      const now = Date.now();
+      const session = createSideSession(now - 120_000);
+      session.tracks[0] = { ...session.tracks[0]!, status: "scrobbled", scrobbledAt: now - 30_000 };
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      expect(readStoredSession(session).currentIndex).toBe(0);
+      expect(storageMock.setAlarm).toHaveBeenLastCalledWith(now + 60_000);
+    });
+
+    it("should re-anchor the side and scrobble the track that changed", async () => {
+      const now = Date.now();
+      const session = storeTestSession(createSideSession(now - 120_000));
 
       const response = await durable.fetch(
-        makeRequest("resume", {
-          command: "resume",
-          resumedAt: Date.now(),
-        })
+        makeRequest("track-changed", { command: "track-changed", ...sessionCommand(session), changedAt: now })
       );
 
       expect(response.status).toBe(200);
-      expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.currentIndex).toBe(1);
+      expect(body.session.tracks[0]?.status).toBe("scrobbled");
+      // Side A had 60s more than the first track played; the second track takes it
+      expect(body.session.sideDurationsMs).toEqual([120_000, 300_000, 200_000]);
+      expect(body.session.events).toContainEqual(
+        expect.objectContaining({ type: "track-changed", trackIndex: 0, playedMs: 120_000 })
+      );
+      expect(storageMock.setAlarm).toHaveBeenLastCalledWith(now + 300_000);
     });
 
-    it("should schedule alarm for track with unknown duration using 30s fallback", async () => {
-      const release = createTestRelease();
-      release.tracks[0] = { ...release.tracks[0]!, durationSec: 0 };
+    it("should reject a track change for a session timed by track", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("track-changed", { command: "track-changed", ...sessionCommand(session), changedAt: Date.now() })
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("INVALID_STATE");
+    });
+  });
+
+  describe("side flips", () => {
+    function awaitingFlip(now: number): Session {
       const session = createSession({
-        sessionId: "no-duration-session",
+        sessionId: "test-session-id",
         userId: "test-user-id",
-        release,
-        startedAt: Date.now(),
+        release: createTestRelease(),
+        startedAt: now - 420_000,
+        pauseAtSideEnd: true,
       });
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
+      return advanceSession(advanceSession(session, now - 240_000), now);
+    }
+
+    it("should wait for a flip when the alarm finishes a side", async () => {
+      const now = Date.now();
+      const session = storeTestSession(
+        advanceSession(
+          createSession({
+            sessionId: "test-session-id",
+            userId: "test-user-id",
+            release: createTestRelease(),
+            startedAt: now - 400_000,
+            pauseAtSideEnd: true,
+          }),
+          now - 200_000
+        )
+      );
       storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.tracks[1]?.status).toBe("scrobbled");
+      expect(updated.state).toBe("awaiting-flip");
+      expect(updated.currentIndex).toBe(2);
+      expect(storageMock.setAlarm).not.toHaveBeenCalled();
+    });
+
+    it("should start the next side when flipped", async () => {
+      const now = Date.now();
+      const session = storeTestSession(awaitingFlip(now - 60_000));
 
       const response = await durable.fetch(
-        makeRequest("resume", {
-          command: "resume",
-          resumedAt: Date.now(),
-        })
+        makeRequest("flip", { command: "flip", ...sessionCommand(session), flippedAt: now })
       );
 
       expect(response.status).toBe(200);
-      expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
+      const body = (await response.json()) as { session: Session };
+      expect(body.session.state).toBe("running");
+      expect(body.session.tracks[2]?.startedAt).toBe(now);
+      expect(storageMock.setAlarm).toHaveBeenLastCalledWith(now + 100_000);
     });
 
-    it("should return 400 if no session stored", async () => {
+    it("should reject next while waiting for a flip", async () => {
+      const session = storeTestSession(awaitingFlip(Date.now()));
+
       const response = await durable.fetch(
-        makeRequest("resume", {
-          command: "resume",
-          resumedAt: Date.now(),
-        })
+        makeRequest("next", { command: "next", ...sessionCommand(session), advancedAt: Date.now() })
       );
 
       expect(response.status).toBe(400);
+      const body = (await response.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("INVALID_STATE");
+      expect(readStoredSession(session).state).toBe("awaiting-flip");
     });
-  });
 
-  describe("fetch - next command", () => {
-    it("should cancel existing alarm and reschedule after track advance", async () => {
-      const session = createTestSession();
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      storageMock.store.set("sessionId", session.id);
+    it("should reject skip while waiting for a flip", async () => {
+      const session = storeTestSession(awaitingFlip(Date.now()));
 
       const response = await durable.fetch(
-        makeRequest("next", {
-          command: "next",
-          advancedAt: Date.now(),
-        })
+        makeRequest("skip", { command: "skip", ...sessionCommand(session), skippedAt: Date.now() })
       );
 
-      expect(response.status).toBe(200);
-      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
-      expect(storageMock.setAlarm).toHaveBeenCalled();
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("INVALID_STATE");
+      const stored = readStoredSession(session);
+      expect(stored.state).toBe("awaiting-flip");
+      expect(stored.tracks[2]?.status).toBe("pending");
+    });
+
+    it("should reject a flip for a session that is not waiting for one", async () => {
+      const session = storeTestSession(createTestSession());
+
+      const response = await durable.fetch(
+        makeRequest("flip", { command: "flip", ...sessionCommand(session), flippedAt: Date.now() })
+      );
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as { error: { code: string } };
+      expect(body.error.code).toBe("INVALID_STATE");
     });
   });
 
-  describe("fetch - end command", () => {
-    it("should cancel alarm and clear stored metadata", async () => {
-      storageMock.store.set("sessionId", "test-session");
-      storageMock.store.set("userId", "test-user");
-      storageMock.store.set("lastfmSessionKey", "test-key");
-      storageMock.store.set("thresholdPercent", 50);
+  describe("timing defaults", () => {
+    it("should time a track without a duration with the session's default length", async () => {
+      const now = Date.now();
+      const release = createTestRelease();
 
-      const response = await durable.fetch(makeRequest("end", { command: "end" }));
+      await durable.fetch(
+        makeRequest("start", {
+          command: "start",
+          ...sessionCommand(),
+          release: {
+            ...release,
+            tracks: release.tracks.map((track) => (track.index === 0 ? { ...track, durationSec: null } : track)),
+          },
+          startedAt: now,
+          scrobblePolicy: DEFAULT_SCROBBLE_POLICY,
+          defaultTrackSec: 300,
+        })
+      );
 
-      expect(response.status).toBe(200);
-      expect(storageMock.deleteAlarm).toHaveBeenCalledTimes(1);
-      expect(storageMock.delete).toHaveBeenCalledWith("sessionId");
-      expect(storageMock.delete).toHaveBeenCalledWith("userId");
-      expect(storageMock.delete).toHaveBeenCalledWith("lastfmSessionKey");
-      expect(storageMock.delete).toHaveBeenCalledWith("thresholdPercent");
+      expect(storageMock.store.get("session")).toMatchObject({ defaultTrackMs: 300_000 });
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 150_000);
+    });
+
+    it("should start the next track after the needle-drop gap in track mode", async () => {
+      const now = Date.now();
+      const session = storeTestSession(
+        createSession({
+          sessionId: "test-session-id",
+          userId: "test-user-id",
+          release: createTestRelease(),
+          startedAt: now - 200_000,
+          trackGapSec: 4,
+        })
+      );
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      const advancedAt = updated.events.find((event) => event.type === "next")!.at;
+      expect(updated.tracks[1]?.startedAt).toBe(advancedAt + 4_000);
+      // Half of the 240s second track, counted from its start
+      expect(storageMock.setAlarm).toHaveBeenLastCalledWith(advancedAt + 124_000);
+    });
+
+    it("should start the next track after the needle-drop gap in side mode", async () => {
+      const now = Date.now();
+      const session = storeTestSession(
+        createSession({
+          sessionId: "test-session-id",
+          userId: "test-user-id",
+          release: createTestRelease(),
+          startedAt: now - 200_000,
+          timerMode: "side",
+          trackGapSec: 4,
+        })
+      );
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      expect(readStoredSession(session).tracks[1]?.startedAt).toBe(now - 16_000);
     });
   });
 
@@ -256,16 +1569,13 @@ describe("SessionAlarmDO", () => {
       const session = createTestSession({ startedAt: now - 200_000 } as Partial<Session>);
       session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 200_000 };
 
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      kvMock.store.set(`session:current:${session.userId}`, session.id);
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
 
       await durable.alarm();
 
-      const updatedRaw = kvMock.store.get(`session:${session.id}`);
-      expect(updatedRaw).toBeDefined();
-      const updated = JSON.parse(updatedRaw!) as Session;
+      const updated = readStoredSession(session);
 
       expect(updated.tracks[0]!.status).toBe("scrobbled");
       expect(updated.currentIndex).toBe(1);
@@ -273,6 +1583,69 @@ describe("SessionAlarmDO", () => {
       expect(storageMock.setAlarm).toHaveBeenCalled();
     });
 
+    it("should record its scrobble attempt, result and advance in the event log", async () => {
+      const now = Date.now();
+      const session = createTestSession();
+      session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 200_000 };
+
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.events.slice(-3)).toEqual([
+        expect.objectContaining({ type: "scrobble-attempt", trackIndex: 0, source: "alarm", startedAt: now - 200_000 }),
+        expect.objectContaining({ type: "scrobble-result", trackIndex: 0, ok: true, message: null }),
+        expect.objectContaining({ type: "next", fromIndex: 0, toIndex: 1 }),
+      ]);
+    });
+
+    it("should not scrobble a track that was paused for most of its wall-clock time", async () => {
+      const now = Date.now();
+      const session = createTestSession();
+      // 21 minutes since start, 20 of them paused: only 60s played
+      session.tracks[0] = {
+        ...session.tracks[0]!,
+        startedAt: now - 1_260_000,
+        pauses: [{ pausedAt: now - 1_230_000, resumedAt: now - 30_000 }],
+      };
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]!.status).toBe("pending");
+      expect(updated.currentIndex).toBe(0);
+      // Rescheduled for the remaining 30s of the 90s threshold
+      expect(storageMock.setAlarm).toHaveBeenCalledWith(now + 30_000);
+    });
+
+    it("should shift the scrobble timestamp by the time spent paused", async () => {
+      const now = Date.now();
+      const session = createTestSession();
+      // 120s played around a 20 minute pause
+      session.tracks[0] = {
+        ...session.tracks[0]!,
+        startedAt: now - 1_320_000,
+        pauses: [{ pausedAt: now - 1_260_000, resumedAt: now - 60_000 }],
+      };
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]!.status).toBe("scrobbled");
+      expect(updated.events).toContainEqual(
+        expect.objectContaining({ type: "scrobble-attempt", trackIndex: 0, startedAt: now - 120_000 })
+      );
+    });
+
     it("should not act if session not found", async () => {
       storageMock.store.set("sessionId", "nonexistent");
       storageMock.store.set("lastfmSessionKey", "key");
@@ -285,7 +1658,7 @@ describe("SessionAlarmDO", () => {
     it("should not act if session is paused", async () => {
       const session = createTestSession();
       session.state = "paused";
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "key");
 
@@ -307,15 +1680,13 @@ describe("SessionAlarmDO", () => {
       });
       session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 200_000 };
 
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      kvMock.store.set(`session:current:${session.userId}`, session.id);
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "key");
 
       await durable.alarm();
 
-      const updatedRaw = kvMock.store.get(`session:${session.id}`);
-      const updated = JSON.parse(updatedRaw!) as Session;
+      const updated = readStoredSession(session);
       expect(updated.state).toBe("ended");
       expect(updated.tracks[0]!.status).toBe("scrobbled");
     });
@@ -323,7 +1694,7 @@ describe("SessionAlarmDO", () => {
     it("should skip if track already scrobbled", async () => {
       const session = createTestSession();
       session.tracks[0] = { ...session.tracks[0]!, status: "scrobbled", scrobbledAt: Date.now() };
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "key");
 
@@ -345,15 +1716,13 @@ describe("SessionAlarmDO", () => {
       session.tracks[0] = { ...session.tracks[0]!, status: "scrobbled", scrobbledAt: now - 2_000 };
       session.tracks[1] = { ...session.tracks[1]!, startedAt: now - 2_000 };
 
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      kvMock.store.set(`session:current:${session.userId}`, session.id);
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
 
       await durable.alarm();
 
-      const updatedRaw = kvMock.store.get(`session:${session.id}`);
-      const updated = JSON.parse(updatedRaw!) as Session;
+      const updated = readStoredSession(session);
       expect(updated.currentIndex).toBe(1);
       expect(updated.tracks[1]!.status).toBe("pending");
       expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
@@ -372,16 +1741,14 @@ describe("SessionAlarmDO", () => {
       });
       session.tracks[0] = { ...session.tracks[0]!, startedAt: now };
 
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      kvMock.store.set(`session:current:${session.userId}`, session.id);
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "key");
 
       await durable.alarm();
 
       expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
-      expect(kvMock.store.get(`session:${session.id}`)).toBeDefined();
-      const updated = JSON.parse(kvMock.store.get(`session:${session.id}`)!) as Session;
+      const updated = readStoredSession(session);
       expect(updated.tracks[0]!.status).toBe("pending");
     });
 
@@ -398,33 +1765,117 @@ describe("SessionAlarmDO", () => {
       });
       session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 60_000 };
 
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      kvMock.store.set(`session:current:${session.userId}`, session.id);
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "key");
 
       await durable.alarm();
 
-      const updated = JSON.parse(kvMock.store.get(`session:${session.id}`)!) as Session;
+      const updated = readStoredSession(session);
       expect(updated.tracks[0]!.status).toBe("scrobbled");
       expect(updated.currentIndex).toBe(1);
     });
 
-    it("should use stored thresholdPercent when scheduling and checking eligibility", async () => {
+    it("should use the stored scrobble policy when checking eligibility", async () => {
+      const now = Date.now();
+      const session = createTestSession({ startedAt: now - 120_000 } as Partial<Session>);
+      session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 120_000 };
+
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+      storageMock.store.set("scrobblePolicy", createScrobblePolicy(75));
+
+      await durable.alarm();
+
+      // 120s of a 180s track is under the 75% threshold
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]!.status).toBe("pending");
+      expect(storageMock.setAlarm).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fall back to a stored legacy thresholdPercent", async () => {
       const now = Date.now();
       const session = createTestSession({ startedAt: now - 200_000 } as Partial<Session>);
       session.tracks[0] = { ...session.tracks[0]!, startedAt: now - 200_000 };
 
-      kvMock.store.set(`session:${session.id}`, JSON.stringify(session));
-      kvMock.store.set(`session:current:${session.userId}`, session.id);
+      storeTestSession(session);
       storageMock.store.set("sessionId", session.id);
       storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
       storageMock.store.set("thresholdPercent", 75);
 
       await durable.alarm();
 
-      const updated = JSON.parse(kvMock.store.get(`session:${session.id}`)!) as Session;
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]!.status).toBe("scrobbled");
+    });
+
+    it("should cap the threshold at 4 minutes for long tracks", async () => {
+      const now = Date.now();
+      const release = createTestRelease();
+      release.tracks[0] = { ...release.tracks[0]!, durationSec: 1200 };
+      const session = createSession({
+        sessionId: "test-session-id",
+        userId: "test-user-id",
+        release,
+        startedAt: now - 241_000,
+      });
+
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+      storageMock.store.set("scrobblePolicy", DEFAULT_SCROBBLE_POLICY);
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
       expect(updated.tracks[0]!.status).toBe("scrobbled");
+      expect(updated.currentIndex).toBe(1);
+    });
+
+    it("should wait for a track too short to scrobble to finish", async () => {
+      const now = Date.now();
+      const release = createTestRelease();
+      release.tracks[0] = { ...release.tracks[0]!, durationSec: 20 };
+      const session = createSession({
+        sessionId: "test-session-id",
+        userId: "test-user-id",
+        release,
+        startedAt: now - 10_000,
+      });
+
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const alarmTime = storageMock.getScheduledAlarm()!;
+      expect(alarmTime).toBeGreaterThanOrEqual(now + 9_000);
+      expect(alarmTime).toBeLessThanOrEqual(now + 11_000);
+    });
+
+    it("should skip a track too short to scrobble once it has played through", async () => {
+      const now = Date.now();
+      const release = createTestRelease();
+      release.tracks[0] = { ...release.tracks[0]!, durationSec: 20 };
+      const session = createSession({
+        sessionId: "test-session-id",
+        userId: "test-user-id",
+        release,
+        startedAt: now - 25_000,
+      });
+
+      storeTestSession(session);
+      storageMock.store.set("sessionId", session.id);
+      storageMock.store.set("lastfmSessionKey", "test-lastfm-key");
+
+      await durable.alarm();
+
+      const updated = readStoredSession(session);
+      expect(updated.tracks[0]!.status).toBe("skipped");
+      expect(updated.currentIndex).toBe(1);
+      expect(updated.events.some((event) => event.type === "scrobble-attempt")).toBe(false);
     });
   });
 });
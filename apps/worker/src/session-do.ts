@@ -1,43 +1,234 @@
-import { advanceSession, type Session } from "@repo/shared";
 import {
-  loadSession,
-  scrobbleTrack,
+  DEFAULT_SCROBBLE_POLICY,
+  advanceSession,
+  createAPIError,
+  createRetroSession,
+  createScrobblePolicy,
+  createSession,
+  endSession,
+  ErrorCode,
+  flipSide,
+  getPlayedMs,
+  getScrobbleStartedAt,
+  getScrobbleThresholdMs,
+  getSessionTrackDurationMs,
+  isEligibleToScrobble,
+  pauseSession,
+  reanchorSideTrack,
+  recordSessionEvent,
+  resumeSession,
+  rewindSession,
+  setScrobbleResponse,
+  setScrobbleRetryStatus,
+  setTrackDuration,
+  skipTrack,
+  syncSession,
+  type NormalizedRelease,
+  type RetroPlan,
+  type ScrobblePolicy,
+  type ScrobbleResponse,
+  type ScrobbleSource,
+  type Session,
+  type SessionActionResponse,
+  type SessionDurationScope,
+  type SessionEndMode,
+  type SessionStartResponse,
+  type SessionSyncResponse,
+  type SessionTimerMode,
+} from "@repo/shared";
+import {
+  archiveSession,
+  callDurableObject,
+  deleteLegacySession,
+  loadArchivedSession,
+  loadLegacySession,
+  scrobbleSessionTracks,
   sendNowPlaying,
-  storeSession,
+  setCurrentSessionId,
+  type ScrobbleResult,
+  type SessionScrobble,
 } from "./session-helpers.js";
+import { disconnectExpiredLastFm } from "./middleware/auth.js";
 import type { CloudflareBinding } from "./types.js";
 
-interface StartCommand {
-  command: "start";
+/**
+ * Fields every command forwarded by the session routes carries, so the DO
+ * can load the session and check it belongs to the caller.
+ */
+interface SessionCommand {
   sessionId: string;
   userId: string;
   lastfmSessionKey: string;
-  thresholdPercent: number;
 }
 
-interface PauseCommand {
+interface GetCommand extends Omit<SessionCommand, "lastfmSessionKey"> {
+  command: "get";
+}
+
+interface StartCommand extends SessionCommand {
+  command: "start";
+  release: NormalizedRelease;
+  startedAt: number;
+  scrobblePolicy: ScrobblePolicy;
+  timerMode?: SessionTimerMode;
+  pauseAtSideEnd?: boolean;
+  defaultTrackSec?: number;
+  trackGapSec?: number;
+}
+
+interface PauseCommand extends SessionCommand {
   command: "pause";
+  pausedAt: number;
 }
 
-interface ResumeCommand {
+interface ResumeCommand extends SessionCommand {
   command: "resume";
   resumedAt: number;
 }
 
-interface NextCommand {
+interface ScrobbleCurrentCommand extends SessionCommand {
+  command: "scrobble-current";
+  elapsedMs: number;
+}
+
+interface NextCommand extends SessionCommand {
   command: "next";
   advancedAt: number;
 }
 
-interface EndCommand {
+/**
+ * Side mode: the user marked the current track as having just changed.
+ */
+interface TrackChangedCommand extends SessionCommand {
+  command: "track-changed";
+  changedAt: number;
+}
+
+/**
+ * The user flipped the record; start the side the session is waiting on.
+ */
+interface FlipCommand extends SessionCommand {
+  command: "flip";
+  flippedAt: number;
+}
+
+interface SkipCommand extends SessionCommand {
+  command: "skip";
+  skippedAt: number;
+}
+
+interface PrevCommand extends SessionCommand {
+  command: "prev";
+  rewoundAt: number;
+}
+
+interface DurationCommand extends SessionCommand {
+  command: "duration";
+  trackIndex: number;
+  durationSec: number;
+  scope: SessionDurationScope;
+  changedAt: number;
+}
+
+interface EndCommand extends SessionCommand {
   command: "end";
+  endMode: SessionEndMode;
+  endedAt: number;
+}
+
+interface SyncCommand extends SessionCommand {
+  command: "sync";
+  syncedAt: number;
+}
+
+/**
+ * A past listen logged after the fact, with its back-dated timings already
+ * planned by the route.
+ */
+interface RetroCommand extends SessionCommand {
+  command: "retro";
+  release: NormalizedRelease;
+  plan: Extract<RetroPlan, { ok: true }>;
+  loggedAt: number;
+  defaultTrackSec?: number | undefined;
+}
+
+/**
+ * Outcome of a retry from the user's scrobble queue.
+ */
+interface RetryResultCommand extends Omit<SessionCommand, "lastfmSessionKey"> {
+  command: "retry-result";
+  trackIndex: number;
+  startedAt: number;
+  attemptedAt: number;
+  ok: boolean;
+  message: string | null;
+  status: "scrobbled" | "retrying" | "failed";
+  /** Last.fm's verdict, when the retry reached it */
+  response: ScrobbleResponse | null;
 }
 
-type DOCommand = StartCommand | PauseCommand | ResumeCommand | NextCommand | EndCommand;
+type DOCommand =
+  | GetCommand
+  | StartCommand
+  | PauseCommand
+  | ResumeCommand
+  | ScrobbleCurrentCommand
+  | NextCommand
+  | TrackChangedCommand
+  | FlipCommand
+  | SkipCommand
+  | PrevCommand
+  | DurationCommand
+  | EndCommand
+  | SyncCommand
+  | RetroCommand
+  | RetryResultCommand;
+
+/** How long a scrobble submission holds its track's lease (milliseconds). */
+const SCROBBLE_LEASE_MS = 60_000;
+
+/**
+ * Played time at which the alarm acts on the current track: its scrobble
+ * threshold, or the end of a track too short to scrobble. In side mode it
+ * waits for the track's inferred boundary, where the side moves on.
+ */
+function getAlarmTargetMs(session: Session, thresholdMs: number | null, durationMs: number | null): number {
+  if (session.timerMode === "side" && durationMs !== null) {
+    return durationMs;
+  }
+  return thresholdMs ?? durationMs ?? 0;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function sessionNotFound(): Response {
+  return jsonResponse(createAPIError(ErrorCode.SESSION_NOT_FOUND, "Session not found"), 404);
+}
 
-const DEFAULT_THRESHOLD_PERCENT = 50;
-const MINIMUM_SCROBBLE_MS = 30_000; // 30 seconds fallback for unknown durations
+function sessionConflict(): Response {
+  return jsonResponse(
+    createAPIError(ErrorCode.SESSION_CONFLICT, "Session changed while the request was in progress"),
+    409
+  );
+}
 
+/**
+ * Durable Object that owns a listening session.
+ *
+ * Every state transition and every scrobble goes through here. The live
+ * session is kept in the DO's transactional storage under a `version` that
+ * each save bumps, so a handler that loaded a session before another one
+ * saved cannot overwrite it. KV only holds the user's current-session
+ * pointer and an archived copy once the session ends.
+ *
+ * Submissions to Last.fm take a per-track lease and are recorded once
+ * accepted, so a track is never sent twice even when two requests interleave
+ * while waiting on Last.fm. Submissions Last.fm rejects are handed to the
+ * user's ScrobbleQueueDO, which reports its retries back here.
+ */
 export class SessionAlarmDO implements DurableObject {
   private ctx: DurableObjectState;
   private env: CloudflareBinding;
@@ -59,16 +250,36 @@ export class SessionAlarmDO implements DurableObject {
     const cmd = body as DOCommand;
 
     switch (path) {
+      case "get":
+        return this.handleGet(cmd as GetCommand);
       case "start":
         return this.handleStart(cmd as StartCommand);
       case "pause":
-        return this.handlePause();
+        return this.handlePause(cmd as PauseCommand);
       case "resume":
         return this.handleResume(cmd as ResumeCommand);
+      case "scrobble-current":
+        return this.handleScrobbleCurrent(cmd as ScrobbleCurrentCommand);
       case "next":
         return this.handleNext(cmd as NextCommand);
+      case "track-changed":
+        return this.handleTrackChanged(cmd as TrackChangedCommand);
+      case "flip":
+        return this.handleFlip(cmd as FlipCommand);
+      case "skip":
+        return this.handleSkip(cmd as SkipCommand);
+      case "prev":
+        return this.handlePrev(cmd as PrevCommand);
+      case "duration":
+        return this.handleDuration(cmd as DurationCommand);
       case "end":
-        return this.handleEnd();
+        return this.handleEnd(cmd as EndCommand);
+      case "sync":
+        return this.handleSync(cmd as SyncCommand);
+      case "retro":
+        return this.handleRetro(cmd as RetroCommand);
+      case "retry-result":
+        return this.handleRetryResult(cmd as RetryResultCommand);
       default:
         return new Response("Unknown command", { status: 400 });
     }
@@ -82,7 +293,7 @@ export class SessionAlarmDO implements DurableObject {
       return;
     }
 
-    const session = await loadSession(this.env.NOW_SPINNING_KV, sessionId);
+    const session = await this.loadSession(sessionId);
     if (!session || session.state !== "running") {
       return;
     }
@@ -91,120 +302,874 @@ export class SessionAlarmDO implements DurableObject {
     const currentTrack = session.tracks[currentIndex];
     const releaseTrack = session.release.tracks[currentIndex];
 
-    if (!currentTrack || !releaseTrack || currentTrack.status === "scrobbled") {
+    if (!currentTrack || !releaseTrack) {
+      return;
+    }
+
+    // Scrobbled early through scrobble-current. In track mode there is nothing
+    // left for the alarm to do; in side mode it still moves the side on.
+    const alreadyScrobbled = currentTrack.status === "scrobbled";
+    if (alreadyScrobbled && session.timerMode !== "side") {
       return;
     }
 
-    const thresholdPercent = (await this.ctx.storage.get<number>("thresholdPercent")) ?? DEFAULT_THRESHOLD_PERCENT;
+    const policy = await this.getScrobblePolicy();
     const now = Date.now();
-    const startedAt = currentTrack.startedAt ?? now;
-    const durationMs = releaseTrack.durationSec ? releaseTrack.durationSec * 1000 : null;
+    const durationMs = getSessionTrackDurationMs(session, currentIndex);
+    const thresholdMs = getScrobbleThresholdMs(durationMs, policy);
 
-    const thresholdMs = durationMs
-      ? (durationMs * thresholdPercent) / 100
-      : MINIMUM_SCROBBLE_MS;
-    const elapsed = now - startedAt;
+    // Time spent paused does not count towards the threshold
+    const elapsed = getPlayedMs(currentTrack, now);
 
-    if (elapsed < thresholdMs) {
+    if (elapsed < getAlarmTargetMs(session, thresholdMs, durationMs)) {
       await this.scheduleAlarmForCurrentTrack(session, now);
       return;
     }
 
-    const scrobbleResult = await scrobbleTrack(
-      this.env,
-      lastfmSessionKey,
-      session.release,
-      currentIndex,
-      Math.floor(startedAt / 1000)
-    );
-
-    if (!scrobbleResult.ok) {
-      console.error(`[SessionAlarmDO] Failed to scrobble track ${currentIndex}:`, scrobbleResult.message);
-    }
+    // Side mode moves on at the inferred boundary (plus the needle-drop gap),
+    // however late the alarm ran
+    const advancedAt =
+      session.timerMode === "side" && durationMs !== null
+        ? getScrobbleStartedAt(currentTrack, now) + durationMs + (session.trackGapMs ?? 0)
+        : now;
 
-    const advanced = advanceSession(session, now);
-    await storeSession(this.env.NOW_SPINNING_KV, advanced);
+    let advanced: Session;
+    if (alreadyScrobbled) {
+      advanced = advanceSession(session, advancedAt);
+    } else if (thresholdMs === null) {
+      // Too short to scrobble; it has played through, so move on
+      advanced = skipTrack(session, advancedAt);
+    } else {
+      const { session: scrobbled, result: scrobbleResult } = await this.scrobbleWithLease(
+        lastfmSessionKey,
+        session,
+        currentIndex,
+        getScrobbleStartedAt(currentTrack, now),
+        "alarm"
+      );
 
-    if (advanced.state === "ended") {
+      advanced = advanceSession(scrobbled, advancedAt);
+      if (scrobbleResult && !scrobbleResult.ok) {
+        console.error(`[SessionAlarmDO] Failed to scrobble track ${currentIndex}:`, scrobbleResult.message);
+        advanced = await this.queueRetry(
+          lastfmSessionKey,
+          advanced,
+          currentIndex,
+          getScrobbleStartedAt(currentTrack, now),
+          scrobbleResult
+        );
+      }
+    }
+    // On a conflict the command that changed the session has rescheduled us.
+    // At the end of a side nothing more happens until the record is flipped.
+    const saved = await this.saveSession(session, advanced);
+    if (!saved || saved.state !== "running") {
       return;
     }
 
-    const npResult = await sendNowPlaying(
-      this.env,
-      lastfmSessionKey,
-      advanced.release,
-      advanced.currentIndex
-    );
-    if (!npResult.ok) {
-      console.error(`[SessionAlarmDO] Failed to send now playing for track ${advanced.currentIndex}:`, npResult.message);
+    await this.sendNowPlaying(lastfmSessionKey, saved);
+    await this.scheduleNextAlarm(saved);
+  }
+
+  private async handleGet(cmd: GetCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
     }
 
-    await this.scheduleNextAlarm(advanced);
+    const response: SessionActionResponse = { session };
+    return jsonResponse(response);
   }
 
   private async handleStart(cmd: StartCommand): Promise<Response> {
+    const session = createSession({
+      sessionId: cmd.sessionId,
+      userId: cmd.userId,
+      release: cmd.release,
+      startedAt: cmd.startedAt,
+      timerMode: cmd.timerMode,
+      pauseAtSideEnd: cmd.pauseAtSideEnd,
+      defaultTrackSec: cmd.defaultTrackSec,
+      trackGapSec: cmd.trackGapSec,
+    });
+
+    await this.ctx.storage.put("session", session);
+    await setCurrentSessionId(this.env.NOW_SPINNING_KV, cmd.userId, cmd.sessionId);
     await this.ctx.storage.put("sessionId", cmd.sessionId);
     await this.ctx.storage.put("userId", cmd.userId);
     await this.ctx.storage.put("lastfmSessionKey", cmd.lastfmSessionKey);
-    await this.ctx.storage.put("thresholdPercent", cmd.thresholdPercent ?? DEFAULT_THRESHOLD_PERCENT);
+    await this.ctx.storage.put("scrobblePolicy", cmd.scrobblePolicy ?? DEFAULT_SCROBBLE_POLICY);
+
+    await this.sendNowPlaying(cmd.lastfmSessionKey, session);
+    await this.scheduleAlarmForCurrentTrack(session, cmd.startedAt);
+
+    const response: SessionStartResponse = { session };
+    return jsonResponse(response);
+  }
+
+  private async handlePause(cmd: PauseCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const updated = pauseSession(session, cmd.pausedAt);
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
+    await this.ctx.storage.deleteAlarm();
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
+
+  private async handleResume(cmd: ResumeCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const updated = resumeSession(session, cmd.resumedAt);
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
+
+    if (saved.state !== "ended") {
+      await this.sendNowPlaying(cmd.lastfmSessionKey, saved);
+      await this.scheduleAlarmForCurrentTrack(saved, cmd.resumedAt);
+    }
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
+
+  private async handleScrobbleCurrent(cmd: ScrobbleCurrentCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const currentIndex = session.currentIndex;
+    const currentTrack = session.tracks[currentIndex];
+    if (!currentTrack) {
+      return jsonResponse(
+        createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Current track index is invalid"),
+        500
+      );
+    }
+
+    // Check if already scrobbled (idempotent)
+    if (currentTrack.status === "scrobbled") {
+      const response: SessionActionResponse = { session };
+      return jsonResponse(response);
+    }
+
+    const durationMs = getSessionTrackDurationMs(session, currentIndex);
+    const policy = await this.getScrobblePolicy();
+    if (!isEligibleToScrobble(cmd.elapsedMs, durationMs, policy)) {
+      return jsonResponse(
+        createAPIError(ErrorCode.VALIDATION_ERROR, "Track has not been played long enough to scrobble"),
+        400
+      );
+    }
+
+    const now = Date.now();
+    const { session: recorded, result: scrobbleResult } = await this.scrobbleWithLease(
+      cmd.lastfmSessionKey,
+      session,
+      currentIndex,
+      getScrobbleStartedAt(currentTrack, now),
+      "scrobble-current"
+    );
+    if (!scrobbleResult) {
+      // Already submitted or in flight elsewhere; whoever holds it records the outcome
+      const response: SessionActionResponse = { session };
+      return jsonResponse(response);
+    }
+    if (scrobbleResult.ignored) {
+      // Resubmitting would be ignored again, so next moves on without it
+      const saved = await this.saveSession(
+        session,
+        setScrobbleRetryStatus(recorded, currentIndex, "failed", now)
+      );
+      if (!saved) {
+        return sessionConflict();
+      }
+      const response: SessionActionResponse = { session: saved };
+      return jsonResponse(response);
+    }
+    if (!scrobbleResult.ok) {
+      console.error("[SessionAlarmDO] Failed to scrobble current track:", scrobbleResult.message);
+      // Keep the failed attempt in the event log
+      await this.saveSession(session, recorded);
+      if (scrobbleResult.error === "session-expired") {
+        return jsonResponse(
+          createAPIError(ErrorCode.LASTFM_SESSION_EXPIRED, "Last.fm session expired, reconnect to keep scrobbling"),
+          401
+        );
+      }
+      return jsonResponse(
+        createAPIError(ErrorCode.LASTFM_ERROR, "Failed to scrobble track to Last.fm"),
+        502
+      );
+    }
+
+    // Mark track as scrobbled, keeping Last.fm's response recorded on it
+    const updatedTracks = [...recorded.tracks];
+    updatedTracks[currentIndex] = { ...recorded.tracks[currentIndex]!, status: "scrobbled", scrobbledAt: now };
+    const saved = await this.saveSession(session, { ...recorded, tracks: updatedTracks });
+    if (!saved) {
+      return sessionConflict();
+    }
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
 
-    const session = await loadSession(this.env.NOW_SPINNING_KV, cmd.sessionId);
+  private async handleNext(cmd: NextCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
     if (!session) {
-      return new Response("Session not found in KV", { status: 404 });
+      return sessionNotFound();
     }
 
-    await this.scheduleNextAlarm(session);
-    return new Response("OK");
+    return this.moveToNextTrack(session, session, cmd.lastfmSessionKey, cmd.advancedAt);
   }
 
-  private async handlePause(): Promise<Response> {
+  /**
+   * Side mode: the current track changed now. The rest of the side is
+   * re-anchored on this moment before moving on, as `next` does.
+   */
+  private async handleTrackChanged(cmd: TrackChangedCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    if (session.state === "ended") {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_STATE, "Session has already ended"), 400);
+    }
+    if (session.timerMode !== "side") {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_STATE, "Session is not timed by side"), 400);
+    }
+
+    const reanchored = reanchorSideTrack(session, cmd.changedAt);
+    return this.moveToNextTrack(session, reanchored, cmd.lastfmSessionKey, cmd.changedAt);
+  }
+
+  /**
+   * Leave the current track of `session`, scrobbling it unless it is too
+   * short or already submitted, and save the result over `loaded`, the
+   * version `session` was derived from.
+   */
+  private async moveToNextTrack(
+    loaded: Session,
+    session: Session,
+    lastfmSessionKey: string,
+    now: number
+  ): Promise<Response> {
+    // The waiting track has not played yet, so there is nothing to move on from
+    if (loaded.state === "awaiting-flip") {
+      return jsonResponse(
+        createAPIError(ErrorCode.INVALID_STATE, "Flip the record to start the next side"),
+        400
+      );
+    }
+
+    const previousIndex = session.currentIndex;
+    const previousTrack = session.tracks[previousIndex];
+    if (!previousTrack) {
+      return jsonResponse(
+        createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Current track index is invalid"),
+        500
+      );
+    }
+
+    const previousStartedAt = getScrobbleStartedAt(previousTrack, now);
+    const wasAlreadyScrobbled = previousTrack.status === "scrobbled";
+    // Last.fm ignores tracks shorter than the policy minimum, so move on without scrobbling
+    const policy = await this.getScrobblePolicy();
+    const isTooShort =
+      getScrobbleThresholdMs(getSessionTrackDurationMs(session, previousIndex), policy) === null;
+
+    let updated = isTooShort ? skipTrack(session, now) : advanceSession(session, now);
+
+    // Only scrobble if not already scrobbled (e.g., by proactive scrobble-current endpoint)
+    if (!wasAlreadyScrobbled && !isTooShort) {
+      const { session: recorded, result: scrobbleResult } = await this.scrobbleWithLease(
+        lastfmSessionKey,
+        updated,
+        previousIndex,
+        previousStartedAt,
+        "next"
+      );
+      updated = recorded;
+      if (scrobbleResult && !scrobbleResult.ok) {
+        console.error("[SessionAlarmDO] Failed to scrobble track on next:", scrobbleResult.message);
+        updated = await this.queueRetry(
+          lastfmSessionKey,
+          updated,
+          previousIndex,
+          previousStartedAt,
+          scrobbleResult
+        );
+      }
+    }
+
+    const saved = await this.saveSession(loaded, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
     await this.ctx.storage.deleteAlarm();
-    return new Response("OK");
+
+    if (saved.state === "running") {
+      await this.sendNowPlaying(lastfmSessionKey, saved);
+      await this.scheduleNextAlarm(saved);
+    }
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
   }
 
-  private async handleResume(cmd: ResumeCommand): Promise<Response> {
-    const sessionId = await this.ctx.storage.get<string>("sessionId");
-    if (!sessionId) {
-      return new Response("No session", { status: 400 });
+  private async handleFlip(cmd: FlipCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
     }
 
-    const session = await loadSession(this.env.NOW_SPINNING_KV, sessionId);
-    if (!session || session.state !== "running") {
-      return new Response("Session not running", { status: 400 });
+    if (session.state !== "awaiting-flip") {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_STATE, "Session is not waiting for a flip"), 400);
+    }
+
+    const updated = flipSide(session, cmd.flippedAt);
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
     }
 
-    await this.scheduleAlarmForCurrentTrack(session, cmd.resumedAt);
-    return new Response("OK");
+    await this.sendNowPlaying(cmd.lastfmSessionKey, saved);
+    await this.scheduleAlarmForCurrentTrack(saved, cmd.flippedAt);
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
   }
 
-  private async handleNext(_cmd: NextCommand): Promise<Response> {
-    const sessionId = await this.ctx.storage.get<string>("sessionId");
-    if (!sessionId) {
-      return new Response("No session", { status: 400 });
+  private async handleSkip(cmd: SkipCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    if (session.state === "ended") {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_STATE, "Session has already ended"), 400);
+    }
+
+    // As with next, the waiting track has not played yet
+    if (session.state === "awaiting-flip") {
+      return jsonResponse(
+        createAPIError(ErrorCode.INVALID_STATE, "Flip the record to start the next side"),
+        400
+      );
+    }
+
+    if (!session.tracks[session.currentIndex]) {
+      return jsonResponse(
+        createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Current track index is invalid"),
+        500
+      );
     }
 
+    // Unlike next, the track we leave is never submitted to Last.fm
+    const updated = skipTrack(session, cmd.skippedAt);
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
     await this.ctx.storage.deleteAlarm();
 
-    const session = await loadSession(this.env.NOW_SPINNING_KV, sessionId);
-    if (!session || session.state === "ended") {
-      return new Response("OK");
+    if (saved.state === "running") {
+      await this.sendNowPlaying(cmd.lastfmSessionKey, saved);
+      await this.scheduleNextAlarm(saved);
+    }
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
+
+  private async handlePrev(cmd: PrevCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    if (session.state === "ended" || session.currentIndex <= 0) {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_STATE, "No previous track to return to"), 400);
+    }
+
+    // Scrobbled statuses are preserved, so nothing already scrobbled is submitted again
+    const updated = rewindSession(session, cmd.rewoundAt);
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
+
+    if (saved.state === "running") {
+      await this.sendNowPlaying(cmd.lastfmSessionKey, saved);
+    }
+    await this.rescheduleCurrentTrack(saved, cmd.rewoundAt);
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
+
+  private async handleDuration(cmd: DurationCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    if (session.state === "ended") {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_STATE, "Session has ended"), 400);
+    }
+
+    if (cmd.trackIndex >= session.release.tracks.length) {
+      return jsonResponse(createAPIError(ErrorCode.INVALID_TRACK_INDEX, "Track index out of range"), 400);
+    }
+
+    const updated = setTrackDuration(session, cmd.trackIndex, cmd.durationSec, cmd.changedAt, cmd.scope);
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
+
+    // A new duration moves the scrobble threshold for the current track
+    await this.rescheduleCurrentTrack(saved, cmd.changedAt);
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
+
+  private async handleEnd(cmd: EndCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const now = cmd.endedAt;
+    const policy = await this.getScrobblePolicy();
+    let updated = endSession(session, { endMode: cmd.endMode, endedAt: now, policy });
+
+    // Tracks scrobbled by the end mode carry their backfilled start time
+    const newlyScrobbled = updated.tracks.filter(
+      (track) => track.status === "scrobbled" && session.tracks[track.index]?.status !== "scrobbled"
+    );
+    const backfill = newlyScrobbled.map((track) => ({
+      trackIndex: track.index,
+      startedAt: track.startedAt ?? now,
+    }));
+    const { session: recorded, results } = await this.scrobblesWithLease(
+      cmd.lastfmSessionKey,
+      updated,
+      backfill,
+      "end"
+    );
+    updated = recorded;
+    for (const [i, { trackIndex, startedAt }] of backfill.entries()) {
+      const scrobbleResult = results[i];
+      if (scrobbleResult && !scrobbleResult.ok) {
+        console.error(`[SessionAlarmDO] Failed to scrobble track ${trackIndex} on end:`, scrobbleResult.message);
+        updated = await this.queueRetry(cmd.lastfmSessionKey, updated, trackIndex, startedAt, scrobbleResult);
+      }
+    }
+
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
+
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
+  }
+
+  private async handleSync(cmd: SyncCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const policy = await this.getScrobblePolicy();
+    const syncResult = syncSession(session, cmd.syncedAt, policy);
+    const { scrobbleActions } = syncResult;
+    let synced = syncResult.session;
+
+    // A long gap can leave several tracks to catch up on; submit them together
+    const { session: recorded, results } = await this.scrobblesWithLease(
+      cmd.lastfmSessionKey,
+      synced,
+      scrobbleActions,
+      "sync"
+    );
+    synced = recorded;
+    for (const [i, action] of scrobbleActions.entries()) {
+      const scrobbleResult = results[i];
+      if (scrobbleResult && !scrobbleResult.ok) {
+        console.error(`[SessionAlarmDO] Failed to scrobble track ${action.trackIndex} on sync:`, scrobbleResult.message);
+        synced = await this.queueRetry(
+          cmd.lastfmSessionKey,
+          synced,
+          action.trackIndex,
+          action.startedAt,
+          scrobbleResult
+        );
+      }
+    }
+
+    if (synced.state === "running" && scrobbleActions.length > 0) {
+      await this.sendNowPlaying(cmd.lastfmSessionKey, synced);
+    }
+
+    const saved = await this.saveSession(session, synced);
+    if (!saved) {
+      return sessionConflict();
+    }
+    if (saved.currentIndex !== session.currentIndex) {
+      await this.rescheduleCurrentTrack(saved, cmd.syncedAt);
+    }
+
+    const response: SessionSyncResponse = {
+      session: saved,
+      scrobbledCount: scrobbleActions.length,
+    };
+    return jsonResponse(response);
+  }
+
+  /**
+   * Log a past listen as an ended session and submit its back-dated
+   * scrobbles in one batch. The session never runs, so it goes straight to
+   * the archive and does not replace the user's current session.
+   */
+  private async handleRetro(cmd: RetroCommand): Promise<Response> {
+    let session = createRetroSession({
+      sessionId: cmd.sessionId,
+      userId: cmd.userId,
+      release: cmd.release,
+      plan: cmd.plan,
+      loggedAt: cmd.loggedAt,
+      defaultTrackSec: cmd.defaultTrackSec,
+    });
+
+    const { session: recorded, results } = await this.scrobblesWithLease(
+      cmd.lastfmSessionKey,
+      session,
+      cmd.plan.scrobbles,
+      "retro"
+    );
+    session = recorded;
+    for (const [i, { trackIndex, startedAt }] of cmd.plan.scrobbles.entries()) {
+      const scrobbleResult = results[i];
+      if (scrobbleResult && !scrobbleResult.ok) {
+        console.error(`[SessionAlarmDO] Failed to scrobble track ${trackIndex} retroactively:`, scrobbleResult.message);
+        session = await this.queueRetry(cmd.lastfmSessionKey, session, trackIndex, startedAt, scrobbleResult);
+      }
+    }
+
+    const archived: Session = { ...session, version: session.version + 1 };
+    await archiveSession(this.env.NOW_SPINNING_KV, archived);
+    await this.clearStoredSession();
+
+    const response: SessionActionResponse = { session: archived };
+    return jsonResponse(response);
+  }
+
+  /**
+   * Record a retry from the scrobble queue on the track and the event log.
+   * Retries can finish after the session has ended, in which case the
+   * archived copy is updated.
+   */
+  private async handleRetryResult(cmd: RetryResultCommand): Promise<Response> {
+    const session = await this.loadOwnedSession(cmd);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const attempted = recordSessionEvent(session, {
+      type: "scrobble-attempt",
+      at: cmd.attemptedAt,
+      trackIndex: cmd.trackIndex,
+      source: "retry",
+      startedAt: cmd.startedAt,
+    });
+    const recorded = recordSessionEvent(attempted, {
+      type: "scrobble-result",
+      at: cmd.attemptedAt,
+      trackIndex: cmd.trackIndex,
+      ok: cmd.ok,
+      message: cmd.message,
+    });
+    const withStatus = setScrobbleRetryStatus(recorded, cmd.trackIndex, cmd.status, cmd.attemptedAt);
+    const updated = cmd.response ? setScrobbleResponse(withStatus, cmd.trackIndex, cmd.response) : withStatus;
+
+    if (session.state === "ended") {
+      const archived: Session = { ...updated, version: session.version + 1 };
+      await archiveSession(this.env.NOW_SPINNING_KV, archived);
+      const response: SessionActionResponse = { session: archived };
+      return jsonResponse(response);
+    }
+
+    const saved = await this.saveSession(session, updated);
+    if (!saved) {
+      return sessionConflict();
+    }
+    if (cmd.ok) {
+      const accepted = (await this.ctx.storage.get<number[]>("scrobbledTracks")) ?? [];
+      await this.ctx.storage.put("scrobbledTracks", [...accepted, cmd.trackIndex]);
     }
 
-    await this.scheduleNextAlarm(session);
-    return new Response("OK");
+    const response: SessionActionResponse = { session: saved };
+    return jsonResponse(response);
   }
 
-  private async handleEnd(): Promise<Response> {
+  /**
+   * Load the command's session, or null if it does not exist or belongs to
+   * another user.
+   */
+  private async loadOwnedSession(
+    cmd: Pick<SessionCommand, "sessionId" | "userId">
+  ): Promise<Session | null> {
+    const session = await this.loadSession(cmd.sessionId);
+    if (!session || session.userId !== cmd.userId) {
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Load the live session from storage, falling back to the KV archive for
+   * ended sessions. Sessions still stored in KV by an older release are
+   * moved into storage (or the archive) the first time they are read.
+   */
+  private async loadSession(sessionId: string): Promise<Session | null> {
+    const stored = await this.ctx.storage.get<Session>("session");
+    if (stored) {
+      return stored;
+    }
+
+    const kv = this.env.NOW_SPINNING_KV;
+    const legacy = await loadLegacySession(kv, sessionId);
+    if (legacy) {
+      if (legacy.state === "ended") {
+        await archiveSession(kv, legacy);
+      } else {
+        await this.ctx.storage.put("session", legacy);
+      }
+      await deleteLegacySession(kv, sessionId);
+      return legacy;
+    }
+
+    return loadArchivedSession(kv, sessionId);
+  }
+
+  /**
+   * Save `updated` if the stored session is still the `previous` version it
+   * was derived from. Returns the saved session with its new version, or null
+   * when another write got there first. Ended sessions are archived to KV and
+   * cleared from storage.
+   */
+  private async saveSession(previous: Session, updated: Session): Promise<Session | null> {
+    if (updated === previous) {
+      return previous;
+    }
+
+    const stored = await this.ctx.storage.get<Session>("session");
+    if (!stored || stored.version !== previous.version) {
+      return null;
+    }
+
+    const saved: Session = { ...updated, version: previous.version + 1 };
+    if (saved.state === "ended") {
+      await archiveSession(this.env.NOW_SPINNING_KV, saved);
+      await this.clearStoredSession();
+    } else {
+      await this.ctx.storage.put("session", saved);
+    }
+    return saved;
+  }
+
+  private async clearStoredSession(): Promise<void> {
     await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.delete("session");
     await this.ctx.storage.delete("sessionId");
     await this.ctx.storage.delete("userId");
     await this.ctx.storage.delete("lastfmSessionKey");
+    await this.ctx.storage.delete("scrobblePolicy");
     await this.ctx.storage.delete("thresholdPercent");
-    return new Response("OK");
+    await this.ctx.storage.delete("scrobbledTracks");
+    await this.ctx.storage.delete("scrobbleLeases");
+  }
+
+  /**
+   * Hand a scrobble Last.fm did not accept to the user's retry queue and mark
+   * its track as retrying. Scrobbles Last.fm ignored or rejected as invalid
+   * would fail again, so their track is marked failed instead.
+   */
+  private async queueRetry(
+    lastfmSessionKey: string,
+    session: Session,
+    trackIndex: number,
+    startedAt: number,
+    result: ScrobbleResult
+  ): Promise<Session> {
+    const track = session.release.tracks[trackIndex];
+    if (!track) {
+      return session;
+    }
+    if (result.ignored || result.error === "permanent") {
+      return setScrobbleRetryStatus(session, trackIndex, "failed", Date.now());
+    }
+
+    await callDurableObject(this.env.SCROBBLE_QUEUE_DO, session.userId, "enqueue", {
+      userId: session.userId,
+      lastfmSessionKey,
+      scrobble: {
+        sessionId: session.id,
+        releaseId: session.release.id,
+        trackIndex,
+        artist: track.artist,
+        track: track.title,
+        album: session.release.title,
+        ...(session.release.albumArtist ? { albumArtist: session.release.albumArtist } : {}),
+        trackNumber: track.index + 1,
+        durationSec: track.durationSec,
+        startedAt,
+        lastError: result.message ?? null,
+      },
+    });
+
+    return setScrobbleRetryStatus(session, trackIndex, "retrying", Date.now());
+  }
+
+  /**
+   * Submit a track's scrobble unless it was already accepted, is waiting in
+   * the retry queue or another request holds its lease. The result is null
+   * when nothing was sent.
+   */
+  private async scrobbleWithLease(
+    lastfmSessionKey: string,
+    session: Session,
+    trackIndex: number,
+    startedAt: number,
+    source: ScrobbleSource
+  ): Promise<{ session: Session; result: ScrobbleResult | null }> {
+    const { session: recorded, results } = await this.scrobblesWithLease(
+      lastfmSessionKey,
+      session,
+      [{ trackIndex, startedAt }],
+      source
+    );
+    return { session: recorded, result: results[0] ?? null };
+  }
+
+  /**
+   * Batched `scrobbleWithLease`: every scrobble that is not skipped goes to
+   * Last.fm in as few calls as possible. Results are in the order given.
+   */
+  private async scrobblesWithLease(
+    lastfmSessionKey: string,
+    session: Session,
+    scrobbles: SessionScrobble[],
+    source: ScrobbleSource
+  ): Promise<{ session: Session; results: (ScrobbleResult | null)[] }> {
+    const scrobbledTracks = (await this.ctx.storage.get<number[]>("scrobbledTracks")) ?? [];
+    const now = Date.now();
+    const leases = (await this.ctx.storage.get<Record<string, number>>("scrobbleLeases")) ?? {};
+
+    const leased = scrobbles.filter(({ trackIndex }) => {
+      const status = session.tracks[trackIndex]?.status;
+      const leaseExpiresAt = leases[trackIndex];
+      return (
+        status !== "retrying" &&
+        status !== "failed" &&
+        !scrobbledTracks.includes(trackIndex) &&
+        (leaseExpiresAt === undefined || leaseExpiresAt <= now)
+      );
+    });
+    if (leased.length === 0) {
+      return { session, results: scrobbles.map(() => null) };
+    }
+
+    const leaseExpiresAt = now + SCROBBLE_LEASE_MS;
+    await this.ctx.storage.put("scrobbleLeases", {
+      ...leases,
+      ...Object.fromEntries(leased.map(({ trackIndex }) => [trackIndex, leaseExpiresAt])),
+    });
+
+    try {
+      const scrobbled = await scrobbleSessionTracks(this.env, lastfmSessionKey, session, leased, source);
+      const acceptedIndexes = leased
+        .filter((_, i) => scrobbled.results[i]?.ok)
+        .map(({ trackIndex }) => trackIndex);
+      if (acceptedIndexes.length > 0) {
+        const accepted = (await this.ctx.storage.get<number[]>("scrobbledTracks")) ?? [];
+        await this.ctx.storage.put("scrobbledTracks", [...accepted, ...acceptedIndexes]);
+      }
+
+      return {
+        session: scrobbled.session,
+        results: scrobbles.map((scrobble) => {
+          const i = leased.indexOf(scrobble);
+          return i === -1 ? null : scrobbled.results[i] ?? null;
+        }),
+      };
+    } finally {
+      const remaining = { ...((await this.ctx.storage.get<Record<string, number>>("scrobbleLeases")) ?? {}) };
+      for (const { trackIndex } of leased) {
+        delete remaining[trackIndex];
+      }
+      await this.ctx.storage.put("scrobbleLeases", remaining);
+    }
+  }
+
+  private async sendNowPlaying(lastfmSessionKey: string, session: Session): Promise<void> {
+    const npResult = await sendNowPlaying(
+      this.env,
+      lastfmSessionKey,
+      session.userId,
+      session.release,
+      session.currentIndex
+    );
+    if (!npResult.ok) {
+      console.error(`[SessionAlarmDO] Failed to send now playing for track ${session.currentIndex}:`, npResult.message);
+    }
+    if (npResult.error === "session-expired") {
+      await disconnectExpiredLastFm(this.env.NOW_SPINNING_KV, session.userId, lastfmSessionKey);
+    }
+  }
+
+  private async getScrobblePolicy(): Promise<ScrobblePolicy> {
+    const policy = await this.ctx.storage.get<ScrobblePolicy>("scrobblePolicy");
+    if (policy) {
+      return policy;
+    }
+    // Sessions started before policies were stored only kept a percentage
+    const thresholdPercent = await this.ctx.storage.get<number>("thresholdPercent");
+    return thresholdPercent !== undefined
+      ? createScrobblePolicy(thresholdPercent)
+      : DEFAULT_SCROBBLE_POLICY;
+  }
+
+  private async rescheduleCurrentTrack(session: Session, referenceTime: number): Promise<void> {
+    await this.ctx.storage.deleteAlarm();
+
+    if (session.state !== "running") {
+      return;
+    }
+
+    await this.scheduleAlarmForCurrentTrack(session, referenceTime);
   }
 
   private async scheduleNextAlarm(session: Session): Promise<void> {
-    if (session.state === "ended") {
+    if (session.state !== "running") {
       return;
     }
 
@@ -221,17 +1186,15 @@ export class SessionAlarmDO implements DurableObject {
       return;
     }
 
-    const thresholdPercent = (await this.ctx.storage.get<number>("thresholdPercent")) ?? DEFAULT_THRESHOLD_PERCENT;
-    const durationMs = releaseTrack.durationSec ? releaseTrack.durationSec * 1000 : null;
-    const thresholdMs = durationMs
-      ? (durationMs * thresholdPercent) / 100
-      : MINIMUM_SCROBBLE_MS;
+    const policy = await this.getScrobblePolicy();
+    const durationMs = getSessionTrackDurationMs(session, currentIndex);
+    const targetMs = getAlarmTargetMs(session, getScrobbleThresholdMs(durationMs, policy), durationMs);
 
-    const startedAt = currentTrack.startedAt ?? referenceTime;
-    const elapsed = referenceTime - startedAt;
-    const remainingMs = Math.max(thresholdMs - elapsed, 1000);
+    const elapsed = getPlayedMs(currentTrack, referenceTime);
+    const remainingMs = Math.max(targetMs - elapsed, 1000);
 
-    const alarmTime = referenceTime + remainingMs;
+    // A track started after the needle-drop gap counts from its start
+    const alarmTime = Math.max(referenceTime, currentTrack.startedAt ?? referenceTime) + remainingMs;
     await this.ctx.storage.setAlarm(alarmTime);
   }
 }
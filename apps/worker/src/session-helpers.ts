@@ -1,33 +1,125 @@
-import type { NormalizedRelease, Session } from "@repo/shared";
-import { fetchLastFm } from "./lastfm.js";
+import {
+  applyScrobbleRules,
+  recordSessionEvent,
+  setScrobbleResponse,
+  type NormalizedRelease,
+  type ScrobbleRule,
+  type ScrobbleIgnoredReason,
+  type ScrobbleResponse,
+  type ScrobbleSource,
+  type Session,
+  type SessionTrackState,
+} from "@repo/shared";
+import { fetchLastFm, type LastFmErrorKind } from "./lastfm.js";
+import { disconnectExpiredLastFm } from "./middleware/auth.js";
 import type { CloudflareBinding } from "./types.js";
 
-function sessionKey(sessionId: string): string {
+/** Key sessions were stored under before they moved into the session DO. */
+function legacySessionKey(sessionId: string): string {
   return `session:${sessionId}`;
 }
 
+function archivedSessionKey(sessionId: string): string {
+  return `session:archive:${sessionId}`;
+}
+
 function currentSessionKey(userId: string): string {
   return `session:current:${userId}`;
 }
 
-export async function storeSession(kv: KVNamespace, session: Session): Promise<void> {
-  await kv.put(sessionKey(session.id), JSON.stringify(session));
-  await kv.put(currentSessionKey(session.userId), session.id);
+function scrobbleRulesKey(userId: string): string {
+  return `scrobble-rules:${userId}`;
+}
+
+/**
+ * The user's scrobble correction rules, in evaluation order.
+ */
+export async function loadScrobbleRules(kv: KVNamespace, userId: string): Promise<ScrobbleRule[]> {
+  return (await kv.get<ScrobbleRule[]>(scrobbleRulesKey(userId), "json")) ?? [];
+}
+
+export async function saveScrobbleRules(kv: KVNamespace, userId: string, rules: ScrobbleRule[]): Promise<void> {
+  await kv.put(scrobbleRulesKey(userId), JSON.stringify(rules));
+}
+
+/**
+ * Sessions stored before the event log, pause tracking and versioning were
+ * added lack `events`, per-track `pauses` and `version`.
+ */
+type StoredSession = Omit<Session, "events" | "tracks" | "version"> & {
+  events?: Session["events"];
+  version?: number;
+  tracks: (Omit<SessionTrackState, "pauses"> & { pauses?: SessionTrackState["pauses"] })[];
+};
+
+function normalizeStoredSession(stored: StoredSession): Session {
+  return {
+    ...stored,
+    events: stored.events ?? [],
+    version: stored.version ?? 0,
+    tracks: stored.tracks.map((track) => ({ ...track, pauses: track.pauses ?? [] })),
+  };
+}
+
+export async function setCurrentSessionId(
+  kv: KVNamespace,
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  await kv.put(currentSessionKey(userId), sessionId);
 }
 
-export async function loadSession(kv: KVNamespace, sessionId: string): Promise<Session | null> {
-  return (await kv.get<Session>(sessionKey(sessionId), "json")) ?? null;
+export async function loadCurrentSessionId(kv: KVNamespace, userId: string): Promise<string | null> {
+  return kv.get<string>(currentSessionKey(userId));
 }
 
-export async function loadCurrentSession(
+/**
+ * Keep a read-only copy of an ended session once its DO has let it go.
+ */
+export async function archiveSession(kv: KVNamespace, session: Session): Promise<void> {
+  await kv.put(archivedSessionKey(session.id), JSON.stringify(session));
+}
+
+export async function loadArchivedSession(
   kv: KVNamespace,
-  userId: string
+  sessionId: string
 ): Promise<Session | null> {
-  const currentId = await kv.get<string>(currentSessionKey(userId));
-  if (!currentId) {
-    return null;
-  }
-  return loadSession(kv, currentId);
+  const stored = await kv.get<StoredSession>(archivedSessionKey(sessionId), "json");
+  return stored ? normalizeStoredSession(stored) : null;
+}
+
+/**
+ * Load a session still stored in KV by a release from before the session DO
+ * owned its state. Used once per session to migrate it.
+ */
+export async function loadLegacySession(
+  kv: KVNamespace,
+  sessionId: string
+): Promise<Session | null> {
+  const stored = await kv.get<StoredSession>(legacySessionKey(sessionId), "json");
+  return stored ? normalizeStoredSession(stored) : null;
+}
+
+export async function deleteLegacySession(kv: KVNamespace, sessionId: string): Promise<void> {
+  await kv.delete(legacySessionKey(sessionId));
+}
+
+/**
+ * Send a command to the named Durable Object. Commands are POSTed as JSON to
+ * a path matching the command name.
+ */
+export async function callDurableObject(
+  namespace: DurableObjectNamespace,
+  name: string,
+  command: string,
+  body: Record<string, unknown>
+): Promise<Response> {
+  const stub = namespace.get(namespace.idFromName(name));
+  return stub.fetch(`https://internal/${command}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ command, ...body }),
+  });
 }
 
 function buildLastFmParams(
@@ -46,9 +138,10 @@ function buildLastFmParams(
 export async function sendNowPlaying(
   env: CloudflareBinding,
   sessionKeyValue: string,
+  userId: string,
   release: NormalizedRelease,
   trackIndex: number
-): Promise<{ ok: boolean; message?: string }> {
+): Promise<{ ok: boolean; message?: string; error?: LastFmErrorKind }> {
   if (trackIndex < 0 || trackIndex >= release.tracks.length) {
     return { ok: false, message: "Track index out of bounds" };
   }
@@ -58,13 +151,26 @@ export async function sendNowPlaying(
     return { ok: false, message: "Track not found" };
   }
 
+  const rules = await loadScrobbleRules(env.NOW_SPINNING_KV, userId);
+  const fields = applyScrobbleRules(
+    {
+      artist: track.artist,
+      title: track.title,
+      album: release.title,
+      ...(release.albumArtist ? { albumArtist: release.albumArtist } : {}),
+    },
+    rules,
+    release.id
+  );
   const isDevMode = env.DEV_MODE === "true";
 
   if (isDevMode) {
     console.log("[DEV MODE] Would send Now Playing:", {
-      artist: track.artist,
-      track: track.title,
-      album: release.title,
+      artist: fields.artist,
+      track: fields.title,
+      album: fields.album,
+      albumArtist: fields.albumArtist,
+      trackNumber: track.index + 1,
       duration: track.durationSec,
     });
     return { ok: true };
@@ -75,9 +181,11 @@ export async function sendNowPlaying(
     {
       ...buildLastFmParams({
         sk: sessionKeyValue,
-        artist: track.artist,
-        track: track.title,
-        album: release.title,
+        artist: fields.artist,
+        track: fields.title,
+        album: fields.album,
+        albumArtist: fields.albumArtist,
+        trackNumber: track.index + 1,
         duration: track.durationSec,
       }),
     },
@@ -86,56 +194,406 @@ export async function sendNowPlaying(
 
   if (!result.ok) {
     console.error("[sendNowPlaying] Last.fm API error:", result.message);
+    return { ok: false, message: result.message, error: result.kind };
   }
-  return result;
+  return { ok: true };
 }
 
-export async function scrobbleTrack(
+/**
+ * Outcome of a scrobble submission. `alreadySubmitted` is set when the same
+ * listen was sent recently and Last.fm was not called again; `ignored` when
+ * Last.fm received the scrobble but did not record it; `error` when the
+ * Last.fm call itself failed.
+ */
+export interface ScrobbleResult {
+  ok: boolean;
+  message?: string;
+  alreadySubmitted?: boolean;
+  ignored?: boolean;
+  error?: LastFmErrorKind;
+  /** Last.fm's verdict on the scrobble, when the call went through */
+  response?: ScrobbleResponse;
+}
+
+/**
+ * Track details submitted to Last.fm for one scrobble.
+ */
+interface ScrobbleSubmission {
+  userId: string;
+  releaseId: string;
+  artist: string;
+  track: string;
+  album: string;
+  /** Omitted for releases normalized before album artists were recorded */
+  albumArtist?: string | undefined;
+  /** 1-based position in the release's tracklist */
+  trackNumber?: number | undefined;
+  durationSec: number | null;
+  /** Start time in epoch seconds */
+  timestampSec: number;
+}
+
+/**
+ * A session track to scrobble and the start time to submit for it.
+ */
+export interface SessionScrobble {
+  trackIndex: number;
+  /** Epoch ms */
+  startedAt: number;
+}
+
+/** A submitted value as echoed back by Last.fm; `corrected` is "1" if it changed it. */
+interface LastFmScrobbleField {
+  corrected?: string;
+  "#text"?: string;
+}
+
+interface LastFmScrobbleItem {
+  artist?: LastFmScrobbleField;
+  track?: LastFmScrobbleField;
+  album?: LastFmScrobbleField;
+  ignoredMessage?: { code: string; "#text"?: string };
+}
+
+/**
+ * `track.scrobble` response. Last.fm returns a single object rather than an
+ * array when one scrobble was submitted.
+ */
+interface LastFmScrobbleResponse {
+  scrobbles?: {
+    scrobble?: LastFmScrobbleItem | LastFmScrobbleItem[];
+  };
+}
+
+/** Most scrobbles Last.fm accepts in one `track.scrobble` call. */
+const SCROBBLE_BATCH_SIZE = 50;
+
+/** How long a submitted scrobble's id is kept to catch duplicates (seconds). */
+const SCROBBLE_ID_TTL_SEC = 60 * 60;
+
+/**
+ * Scrobble id per the SPEC: a hash of user, release, track title, artist and
+ * start time rounded to the minute, so resubmissions of one listen collide.
+ */
+async function getScrobbleIdKey(submission: ScrobbleSubmission): Promise<string> {
+  const startedAtRounded = Math.round(submission.timestampSec / 60) * 60;
+  const input = JSON.stringify([
+    submission.userId,
+    submission.releaseId,
+    submission.track,
+    submission.artist,
+    startedAtRounded,
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  const scrobbleId = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `scrobble:id:${scrobbleId}`;
+}
+
+/**
+ * Apply each submitting user's correction rules to their scrobbles.
+ */
+async function applyCorrectionRules(
+  kv: KVNamespace,
+  submissions: ScrobbleSubmission[]
+): Promise<ScrobbleSubmission[]> {
+  const rulesByUser = new Map<string, ScrobbleRule[]>();
+  const corrected: ScrobbleSubmission[] = [];
+  for (const submission of submissions) {
+    const rules = rulesByUser.get(submission.userId) ?? (await loadScrobbleRules(kv, submission.userId));
+    rulesByUser.set(submission.userId, rules);
+
+    const fields = applyScrobbleRules(
+      {
+        artist: submission.artist,
+        title: submission.track,
+        album: submission.album,
+        ...(submission.albumArtist ? { albumArtist: submission.albumArtist } : {}),
+      },
+      rules,
+      submission.releaseId
+    );
+    corrected.push({
+      ...submission,
+      artist: fields.artist,
+      track: fields.title,
+      album: fields.album,
+      albumArtist: fields.albumArtist,
+    });
+  }
+  return corrected;
+}
+
+/**
+ * Submit scrobbles to Last.fm (or log them in dev mode), up to 50 per call,
+ * after applying the user's correction rules. Returns one result per
+ * submission, in order.
+ *
+ * Each scrobble id is stored before Last.fm is called and cleared again if
+ * the scrobble is not recorded or the call throws, so a listen submitted
+ * from two places at once, or again soon after, only reaches Last.fm once.
+ */
+async function submitScrobbles(
   env: CloudflareBinding,
   sessionKeyValue: string,
-  release: NormalizedRelease,
-  trackIndex: number,
-  timestampSec: number
-): Promise<{ ok: boolean; message?: string }> {
-  if (trackIndex < 0 || trackIndex >= release.tracks.length) {
-    return { ok: false, message: "Track index out of bounds" };
+  uncorrected: ScrobbleSubmission[]
+): Promise<ScrobbleResult[]> {
+  const kv = env.NOW_SPINNING_KV;
+  const submissions = await applyCorrectionRules(kv, uncorrected);
+  const results: ScrobbleResult[] = [];
+  const idKeys: string[] = [];
+  const toSend: number[] = [];
+
+  for (const [i, submission] of submissions.entries()) {
+    const idKey = await getScrobbleIdKey(submission);
+    idKeys.push(idKey);
+    if (await kv.get(idKey)) {
+      results.push({ ok: true, alreadySubmitted: true });
+      continue;
+    }
+    await kv.put(idKey, String(Date.now()), { expirationTtl: SCROBBLE_ID_TTL_SEC });
+    results.push({ ok: false });
+    toSend.push(i);
   }
 
-  const track = release.tracks[trackIndex];
-  if (!track) {
-    return { ok: false, message: "Track not found" };
+  for (let start = 0; start < toSend.length; start += SCROBBLE_BATCH_SIZE) {
+    const batch = toSend.slice(start, start + SCROBBLE_BATCH_SIZE);
+    let batchResults: ScrobbleResult[];
+    try {
+      batchResults = await sendScrobbles(
+        env,
+        sessionKeyValue,
+        batch.map((i) => submissions[i]!)
+      );
+    } catch (err) {
+      // Nothing from here on reached Last.fm; free the ids so a retry sends them
+      await Promise.all(toSend.slice(start).map((i) => kv.delete(idKeys[i]!)));
+      throw err;
+    }
+    for (const [j, i] of batch.entries()) {
+      const result = batchResults[j]!;
+      results[i] = result;
+      if (!result.ok) {
+        await kv.delete(idKeys[i]!);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Submit a single scrobble; see `submitScrobbles`.
+ */
+export async function submitScrobble(
+  env: CloudflareBinding,
+  sessionKeyValue: string,
+  submission: ScrobbleSubmission
+): Promise<ScrobbleResult> {
+  const [result] = await submitScrobbles(env, sessionKeyValue, [submission]);
+  return result!;
+}
+
+/** Last.fm `ignoredMessage` codes; "0" means the scrobble was accepted. */
+const IGNORED_REASONS: Record<string, ScrobbleIgnoredReason> = {
+  "1": "artist-ignored",
+  "2": "track-ignored",
+  "3": "timestamp-too-old",
+  "4": "timestamp-too-new",
+  "5": "daily-limit-exceeded",
+};
+
+const IGNORED_REASON_LABELS: Record<ScrobbleIgnoredReason, string> = {
+  "artist-ignored": "artist ignored",
+  "track-ignored": "track ignored",
+  "timestamp-too-old": "timestamp too old",
+  "timestamp-too-new": "timestamp too new",
+  "daily-limit-exceeded": "daily scrobble limit exceeded",
+  unknown: "unknown reason",
+};
+
+function getCorrectedValue(field: LastFmScrobbleField | undefined): string | null {
+  return field?.corrected === "1" ? field["#text"] ?? null : null;
+}
+
+function parseScrobbleItem(item: LastFmScrobbleItem): ScrobbleResult {
+  const code = item.ignoredMessage?.code ?? "0";
+  const accepted = code === "0";
+  const ignoredReason = accepted ? null : IGNORED_REASONS[code] ?? "unknown";
+  const response: ScrobbleResponse = {
+    accepted,
+    ignoredReason,
+    ignoredMessage: accepted ? null : item.ignoredMessage?.["#text"] || null,
+    corrected: {
+      artist: getCorrectedValue(item.artist),
+      track: getCorrectedValue(item.track),
+      album: getCorrectedValue(item.album),
+    },
+  };
+
+  if (!ignoredReason) {
+    return { ok: true, response };
   }
+  return {
+    ok: false,
+    ignored: true,
+    message: `Ignored by Last.fm: ${response.ignoredMessage ?? IGNORED_REASON_LABELS[ignoredReason]}`,
+    response,
+  };
+}
 
+/**
+ * Read each scrobble's accepted/ignored outcome and corrections from a
+ * `track.scrobble` response.
+ */
+function parseScrobbleResults(data: LastFmScrobbleResponse, count: number): ScrobbleResult[] {
+  const raw = data.scrobbles?.scrobble;
+  const items = Array.isArray(raw) ? raw : raw ? [raw] : [];
+
+  return Array.from({ length: count }, (_, i) => {
+    const item = items[i];
+    return item ? parseScrobbleItem(item) : { ok: false, message: "Missing scrobble result" };
+  });
+}
+
+async function sendScrobbles(
+  env: CloudflareBinding,
+  sessionKeyValue: string,
+  submissions: ScrobbleSubmission[]
+): Promise<ScrobbleResult[]> {
   const isDevMode = env.DEV_MODE === "true";
 
   if (isDevMode) {
-    console.log("[DEV MODE] Would scrobble:", {
+    for (const submission of submissions) {
+      console.log("[DEV MODE] Would scrobble:", {
+        artist: submission.artist,
+        track: submission.track,
+        album: submission.album,
+        albumArtist: submission.albumArtist,
+        trackNumber: submission.trackNumber,
+        timestamp: new Date(submission.timestampSec * 1000).toISOString(),
+        duration: submission.durationSec,
+      });
+    }
+    return submissions.map(() => ({ ok: true }));
+  }
+
+  const params: Record<string, string> = { sk: sessionKeyValue };
+  submissions.forEach((submission, i) => {
+    Object.assign(
+      params,
+      buildLastFmParams({
+        [`artist[${i}]`]: submission.artist,
+        [`track[${i}]`]: submission.track,
+        [`album[${i}]`]: submission.album,
+        [`albumArtist[${i}]`]: submission.albumArtist,
+        [`trackNumber[${i}]`]: submission.trackNumber,
+        [`timestamp[${i}]`]: submission.timestampSec,
+        [`duration[${i}]`]: submission.durationSec,
+      })
+    );
+  });
+
+  const result = await fetchLastFm<LastFmScrobbleResponse>("track.scrobble", params, env);
+
+  if (!result.ok) {
+    console.error("[sendScrobbles] Last.fm API error:", result.message);
+    if (result.kind === "session-expired" && submissions[0]) {
+      await disconnectExpiredLastFm(env.NOW_SPINNING_KV, submissions[0].userId, sessionKeyValue);
+    }
+    return submissions.map(() => ({ ok: false, message: result.message, error: result.kind }));
+  }
+  return parseScrobbleResults(result.data, submissions.length);
+}
+
+/**
+ * Scrobble release tracks, one result per item in order.
+ */
+async function scrobbleTracks(
+  env: CloudflareBinding,
+  sessionKeyValue: string,
+  userId: string,
+  release: NormalizedRelease,
+  items: { trackIndex: number; timestampSec: number }[]
+): Promise<ScrobbleResult[]> {
+  const results: ScrobbleResult[] = items.map(() => ({ ok: false, message: "Track not found" }));
+  const submissions: ScrobbleSubmission[] = [];
+  const submitted: number[] = [];
+
+  items.forEach(({ trackIndex, timestampSec }, i) => {
+    const track = release.tracks[trackIndex];
+    if (!track) {
+      return;
+    }
+    submitted.push(i);
+    submissions.push({
+      userId,
+      releaseId: release.id,
       artist: track.artist,
       track: track.title,
       album: release.title,
-      timestamp: new Date(timestampSec * 1000).toISOString(),
-      duration: track.durationSec,
+      albumArtist: release.albumArtist,
+      trackNumber: track.index + 1,
+      durationSec: track.durationSec,
+      timestampSec,
     });
-    return { ok: true };
+  });
+
+  const submittedResults = await submitScrobbles(env, sessionKeyValue, submissions);
+  submitted.forEach((i, j) => {
+    results[i] = submittedResults[j]!;
+  });
+  return results;
+}
+
+function getScrobbleResultMessage(result: ScrobbleResult): string | null {
+  if (result.alreadySubmitted) {
+    return "Already submitted";
   }
+  return result.ok ? null : result.message ?? null;
+}
 
-  const result = await fetchLastFm(
-    "track.scrobble",
-    {
-      ...buildLastFmParams({
-        sk: sessionKeyValue,
-        artist: track.artist,
-        track: track.title,
-        album: release.title,
-        timestamp: timestampSec,
-        duration: track.durationSec,
-      }),
-    },
-    env
+/**
+ * Scrobble session tracks in as few Last.fm calls as possible and record
+ * each attempt and its result on the session's event log. The returned
+ * session still needs to be stored.
+ */
+export async function scrobbleSessionTracks(
+  env: CloudflareBinding,
+  sessionKeyValue: string,
+  session: Session,
+  scrobbles: SessionScrobble[],
+  source: ScrobbleSource
+): Promise<{ session: Session; results: ScrobbleResult[] }> {
+  const attemptedAt = Date.now();
+  const attempted = scrobbles.reduce(
+    (updated, { trackIndex, startedAt }) =>
+      recordSessionEvent(updated, { type: "scrobble-attempt", at: attemptedAt, trackIndex, source, startedAt }),
+    session
   );
 
-  if (!result.ok) {
-    console.error("[scrobbleTrack] Last.fm API error:", result.message);
-  }
-  return result;
+  const results = await scrobbleTracks(
+    env,
+    sessionKeyValue,
+    session.userId,
+    session.release,
+    scrobbles.map(({ trackIndex, startedAt }) => ({
+      trackIndex,
+      timestampSec: Math.floor(startedAt / 1000),
+    }))
+  );
+
+  const resultAt = Date.now();
+  const recorded = scrobbles.reduce((updated, { trackIndex }, i) => {
+    const result = results[i]!;
+    const withResponse = result.response ? setScrobbleResponse(updated, trackIndex, result.response) : updated;
+    return recordSessionEvent(withResponse, {
+      type: "scrobble-result",
+      at: resultAt,
+      trackIndex,
+      ok: result.ok,
+      message: getScrobbleResultMessage(result),
+    });
+  }, attempted);
+
+  return { session: recorded, results };
 }
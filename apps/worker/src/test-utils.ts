@@ -1,4 +1,7 @@
 import { vi } from "vitest";
+import { ScrobbleQueueDO } from "./scrobble-queue-do";
+import { SessionAlarmDO } from "./session-do";
+import type { CloudflareBinding } from "./types";
 
 /**
  * Test utilities for Worker routes and middleware.
@@ -102,14 +105,72 @@ export interface TestListResponse {
   [key: string]: unknown;
 }
 
-export function createDurableObjectNamespaceMock() {
-  const mockStub = {
-    fetch: vi.fn(async () => new Response("OK")),
+export function createDOStorageMock() {
+  const store = new Map<string, unknown>();
+  let scheduledAlarm: number | null = null;
+
+  return {
+    get: vi.fn(async <T>(key: string): Promise<T | undefined> => {
+      return store.get(key) as T | undefined;
+    }),
+    put: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    setAlarm: vi.fn(async (time: number) => {
+      scheduledAlarm = time;
+    }),
+    getAlarm: vi.fn(async () => scheduledAlarm),
+    deleteAlarm: vi.fn(async () => {
+      scheduledAlarm = null;
+    }),
+    store,
+    getScheduledAlarm: () => scheduledAlarm,
   };
+}
 
+export function createDOStateMock(storageMock: ReturnType<typeof createDOStorageMock>) {
   return {
-    idFromName: vi.fn(() => ({ toString: () => "mock-do-id" })),
-    get: vi.fn(() => mockStub),
-    stub: mockStub,
+    id: { toString: () => "mock-do-id" },
+    storage: storageMock,
+    waitUntil: vi.fn(),
+  } as unknown as DurableObjectState;
+}
+
+/**
+ * Durable Object namespace backed by real instances, one per name, so tests
+ * exercise the DOs the routes and other DOs call.
+ */
+function createDONamespaceMock(create: () => DurableObject) {
+  const instances = new Map<string, DurableObject>();
+
+  return {
+    idFromName: vi.fn((name: string) => ({ name, toString: () => name })),
+    get: vi.fn((id: { name: string }) => {
+      let durable = instances.get(id.name);
+      if (!durable) {
+        durable = create();
+        instances.set(id.name, durable);
+      }
+      const instance = durable;
+      return {
+        fetch: vi.fn(async (input: string, init?: RequestInit) => instance.fetch!(new Request(input, init))),
+      };
+    }),
+    instances,
   };
 }
+
+export function createSessionDONamespaceMock(env: CloudflareBinding) {
+  return createDONamespaceMock(
+    () => new SessionAlarmDO(createDOStateMock(createDOStorageMock()), env)
+  );
+}
+
+export function createScrobbleQueueDONamespaceMock(env: CloudflareBinding) {
+  return createDONamespaceMock(
+    () => new ScrobbleQueueDO(createDOStateMock(createDOStorageMock()), env)
+  );
+}
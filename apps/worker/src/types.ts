@@ -8,6 +8,7 @@ export interface CloudflareBinding {
 
   // Durable Objects
   SESSION_DO: DurableObjectNamespace;
+  SCROBBLE_QUEUE_DO: DurableObjectNamespace;
 
   // Environment variables (from wrangler.toml [vars])
   PUBLIC_APP_ORIGIN: string;
@@ -3,6 +3,15 @@
  */
 
 import type { Context } from "hono";
+import {
+  fillMissingDurations,
+  hasMissingDurations,
+  normalizeDiscogsRelease,
+  type DiscogsMasterApiResponse,
+  type DiscogsReleaseApiResponse,
+  type NormalizeDiscogsReleaseOptions,
+  type NormalizedRelease,
+} from "@repo/shared";
 import type { CloudflareBinding } from "../types.js";
 
 type HonoContext = Context<{ Bindings: CloudflareBinding }>;
@@ -10,6 +19,9 @@ type HonoContext = Context<{ Bindings: CloudflareBinding }>;
 export const DISCOGS_API_BASE = "https://api.discogs.com";
 export const DISCOGS_USER_AGENT = "NowSpinning/0.0.1 +now-spinning.dev";
 
+/** How long a master's normalized tracklists stay cached (seconds). */
+const MASTER_SOURCES_TTL_SECONDS = 604_800;
+
 export function getDiscogsAppCredentials(
   c: HonoContext
 ): { consumerKey: string; consumerSecret: string } | null {
@@ -25,3 +37,91 @@ export function getDiscogsAppCredentials(
 export function createAppAuthHeader(consumerKey: string, consumerSecret: string): string {
   return `Discogs key=${consumerKey}, secret=${consumerSecret}`;
 }
+
+/**
+ * Fetch a Discogs resource, or null when the request fails or the body is
+ * not JSON.
+ */
+async function fetchDiscogsResource<T>(path: string, authHeader: string): Promise<T | null> {
+  try {
+    const response = await fetch(`${DISCOGS_API_BASE}${path}`, {
+      headers: {
+        "User-Agent": DISCOGS_USER_AGENT,
+        "Authorization": authHeader,
+      },
+    });
+    if (!response.ok) {
+      return null;
+    }
+    return await response.json<T>();
+  } catch (err) {
+    console.error(`[fetchDiscogsResource] Failed to load ${path}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Options that shape track titles, which durations are matched on. The
+ * sources are normalized with the same ones as the release they fill.
+ */
+type TitleOptions = Pick<NormalizeDiscogsReleaseOptions, "profile" | "subTracks">;
+
+/**
+ * Normalized tracklists of a master release and its main release, the
+ * sources for durations a pressing does not list. Cached in KV by master and
+ * title options, so starting a session after browsing the release does not
+ * hit Discogs again.
+ */
+async function loadMasterSources(
+  kv: KVNamespace,
+  authHeader: string,
+  masterId: number,
+  options: TitleOptions
+): Promise<NormalizedRelease[] | null> {
+  const { profile = "standard", subTracks } = options;
+  const cacheKey = `discogs:master:${masterId}:${profile}${subTracks ? `:${subTracks}` : ""}`;
+  const cached = await kv.get<NormalizedRelease[]>(cacheKey, "json");
+  if (cached) {
+    return cached;
+  }
+
+  const master = await fetchDiscogsResource<DiscogsMasterApiResponse>(`/masters/${masterId}`, authHeader);
+  if (!master) {
+    return null;
+  }
+
+  const sources = [normalizeDiscogsRelease(master, options)];
+  if (master.main_release) {
+    const mainRelease = await fetchDiscogsResource<DiscogsReleaseApiResponse>(
+      `/releases/${master.main_release}`,
+      authHeader
+    );
+    if (mainRelease) {
+      sources.push(normalizeDiscogsRelease(mainRelease, options));
+    }
+  }
+
+  await kv.put(cacheKey, JSON.stringify(sources), { expirationTtl: MASTER_SOURCES_TTL_SECONDS });
+  return sources;
+}
+
+/**
+ * Fill in durations the release does not list from its master release and
+ * the master's main release, normalized with the release's title `options`.
+ * Best effort: if the master cannot be fetched the release is returned as it
+ * is.
+ */
+export async function fillDurationsFromMaster(
+  kv: KVNamespace,
+  authHeader: string,
+  release: NormalizedRelease,
+  masterId: number | undefined,
+  options: TitleOptions = {}
+): Promise<NormalizedRelease> {
+  if (!masterId || !hasMissingDurations(release)) {
+    return release;
+  }
+
+  const sources = await loadMasterSources(kv, authHeader, masterId, options);
+  return sources ? fillMissingDurations(release, sources) : release;
+}
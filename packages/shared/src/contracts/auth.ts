@@ -29,6 +29,8 @@ export interface UserSession {
 export interface AuthStatusResponse {
   lastfmConnected: boolean;
   discogsConnected: boolean;
+  /** Last.fm was disconnected because it rejected the session key; reconnect to scrobble again */
+  lastfmSessionExpired?: boolean;
 }
 
 /** OAuth start request (initiates the flow) */
@@ -13,6 +13,8 @@ export const ErrorCode = {
   INVALID_TRACK_INDEX: "INVALID_TRACK_INDEX",
   LASTFM_ERROR: "LASTFM_ERROR",
   LASTFM_NOT_CONNECTED: "LASTFM_NOT_CONNECTED",
+  LASTFM_SESSION_EXPIRED: "LASTFM_SESSION_EXPIRED",
+  SESSION_CONFLICT: "SESSION_CONFLICT",
   SESSION_NOT_FOUND: "SESSION_NOT_FOUND",
   UNAUTHORIZED: "UNAUTHORIZED",
   VALIDATION_ERROR: "VALIDATION_ERROR",
@@ -0,0 +1,9 @@
+/**
+ * Scrobble correction rule contracts - shared between Worker and SPA.
+ */
+
+import type { ScrobbleRule } from "../domain/scrobbleRule.js";
+
+export interface ScrobbleRulesResponse {
+  rules: ScrobbleRule[];
+}
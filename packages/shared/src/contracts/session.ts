@@ -2,7 +2,7 @@
  * Session contracts - shared between Worker and SPA.
  */
 
-import type { Session } from "../domain/session.js";
+import type { PendingScrobble, Session, SessionEvent } from "../domain/session.js";
 
 export interface SessionStartRequest {
   releaseId: string;
@@ -24,3 +24,11 @@ export interface SessionSyncResponse {
   session: Session;
   scrobbledCount: number;
 }
+
+export interface SessionEventsResponse {
+  events: SessionEvent[];
+}
+
+export interface PendingScrobblesResponse {
+  items: PendingScrobble[];
+}
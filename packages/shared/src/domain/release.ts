@@ -9,6 +9,13 @@ export interface NormalizedRelease {
   title: string;
   /** Primary artist (display name) */
   artist: string;
+  /**
+   * Artist Last.fm files the album under: the release artist, or
+   * "Various Artists" for compilations of several artists
+   */
+  albumArtist?: string;
+  /** Set when Discogs lists the release as a compilation or credits it to Various */
+  compilation?: boolean;
   /** Release year (null if unknown) */
   year: number | null;
   /** Cover image URL (null if unavailable) */
@@ -30,8 +37,12 @@ export interface NormalizedTrack {
   artist: string;
   /** Duration in seconds (null if unknown) */
   durationSec: number | null;
-  /** Side identifier derived from position (null if not applicable) */
-  side: "A" | "B" | "C" | "D" | null;
+  /** Set when the duration was filled in from the master release rather than listed on this one */
+  durationSource?: "master";
+  /** Side letter(s) derived from position, e.g. "A", "F" or "AA" (null if not applicable) */
+  side: string | null;
+  /** Disc number from CD-style positions such as "2-03" (absent if not given) */
+  disc?: number;
   /** 0-based index for stable internal ordering */
   index: number;
 }
@@ -0,0 +1,36 @@
+/**
+ * User-defined scrobble correction rules.
+ * Rewrite what is sent to Last.fm, e.g. strip "(Remastered 2011)" from titles.
+ */
+
+/** Scrobble field a rule rewrites */
+export type ScrobbleRuleField = "artist" | "title" | "album";
+
+/**
+ * How a rule finds text: `literal` replaces every exact occurrence;
+ * `regex` replaces every match of a JavaScript regular expression, and
+ * the replacement may use `$1`-style groups.
+ */
+export type ScrobbleRuleMatch = "literal" | "regex";
+
+export interface ScrobbleRule {
+  /** Stable id, generated by the client */
+  id: string;
+  match: ScrobbleRuleMatch;
+  /** Text or pattern to find */
+  find: string;
+  /** Replacement text; empty to strip what was found */
+  replace: string;
+  /** Fields the rule applies to; artist rules also rewrite the album artist */
+  fields: ScrobbleRuleField[];
+  /** Discogs release the rule is limited to; applies to every release when absent */
+  releaseId?: string | undefined;
+}
+
+/** The values a scrobble or Now Playing update sends, before or after rules. */
+export interface ScrobbleFields {
+  artist: string;
+  title: string;
+  album: string;
+  albumArtist?: string;
+}
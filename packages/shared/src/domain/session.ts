@@ -2,13 +2,116 @@ import type { NormalizedRelease } from "./release.js";
 
 /**
  * Session state values.
+ * - awaiting-flip: a side has finished; the next side starts once the user
+ *   confirms the record was flipped
  */
-export type SessionState = "running" | "paused" | "ended";
+export type SessionState = "running" | "paused" | "awaiting-flip" | "ended";
 
 /**
  * Track scrobble status within a session.
+ * - retrying: Last.fm did not accept it; it is waiting in the retry queue
+ * - failed: retries ran out, so it stays queued until retried by hand, or
+ *   Last.fm ignored it
  */
-export type SessionTrackStatus = "pending" | "scrobbled" | "skipped";
+export type SessionTrackStatus = "pending" | "scrobbled" | "skipped" | "retrying" | "failed";
+
+/**
+ * How an ended session treats the current and remaining tracks.
+ * - discard: leave them unscrobbled
+ * - skip-remaining: mark them skipped
+ * - scrobble-remaining: scrobble them as played, with backfilled timestamps
+ */
+export type SessionEndMode = "discard" | "skip-remaining" | "scrobble-remaining";
+
+/**
+ * Which tracks a duration edit applies to: the edited track or all of them.
+ */
+export type SessionDurationScope = "track" | "all";
+
+/**
+ * How track changes are timed.
+ * - track: each track runs for its own duration
+ * - side: one timer runs per side and track boundaries are inferred from the
+ *   track lengths on that side
+ */
+export type SessionTimerMode = "track" | "side";
+
+/**
+ * What triggered a scrobble attempt.
+ */
+export type ScrobbleSource = "next" | "scrobble-current" | "sync" | "end" | "alarm" | "retry" | "retro";
+
+/**
+ * Entry in a session's append-only event log.
+ * `at` is when the event happened (epoch ms).
+ */
+export type SessionEvent =
+  | { type: "start"; at: number }
+  | { type: "pause"; at: number; trackIndex: number }
+  | { type: "resume"; at: number; trackIndex: number }
+  | { type: "next"; at: number; fromIndex: number; toIndex: number | null }
+  | { type: "skip"; at: number; fromIndex: number; toIndex: number | null }
+  | { type: "prev"; at: number; fromIndex: number; toIndex: number }
+  | { type: "flip"; at: number; trackIndex: number }
+  | { type: "track-changed"; at: number; trackIndex: number; playedMs: number }
+  | {
+      type: "duration-edit";
+      at: number;
+      trackIndex: number;
+      durationSec: number;
+      scope: SessionDurationScope;
+    }
+  | {
+      type: "scrobble-attempt";
+      at: number;
+      trackIndex: number;
+      source: ScrobbleSource;
+      /** Start time submitted to Last.fm (epoch ms) */
+      startedAt: number;
+    }
+  | { type: "scrobble-result"; at: number; trackIndex: number; ok: boolean; message: string | null }
+  | { type: "sync-catch-up"; at: number; trackIndexes: number[] }
+  | { type: "end"; at: number; endMode: SessionEndMode };
+
+/**
+ * An interval during which a track's playback was paused.
+ */
+export interface TrackPause {
+  /** Timestamp when playback was paused (epoch ms) */
+  pausedAt: number;
+  /** Timestamp when playback resumed (epoch ms, null while still paused) */
+  resumedAt: number | null;
+}
+
+/**
+ * Why Last.fm ignored a scrobble, from the `ignoredMessage` code it returned.
+ */
+export type ScrobbleIgnoredReason =
+  | "artist-ignored"
+  | "track-ignored"
+  | "timestamp-too-old"
+  | "timestamp-too-new"
+  | "daily-limit-exceeded"
+  | "unknown";
+
+/**
+ * Last.fm's response to a track's scrobble: whether it was recorded and any
+ * metadata Last.fm corrected.
+ */
+export interface ScrobbleResponse {
+  /** Whether Last.fm recorded the scrobble */
+  accepted: boolean;
+  /** Why Last.fm ignored the scrobble (null when accepted) */
+  ignoredReason: ScrobbleIgnoredReason | null;
+  /** Last.fm's description of why the scrobble was ignored */
+  ignoredMessage: string | null;
+  /** Values Last.fm recorded in place of the submitted ones (null where unchanged) */
+  corrected: {
+    artist: string | null;
+    track: string | null;
+    album: string | null;
+  };
+}
 
 /**
  * Per-track state within a session.
@@ -22,6 +125,10 @@ export interface SessionTrackState {
   status: SessionTrackStatus;
   /** Timestamp when track was scrobbled (epoch ms, null if not scrobbled) */
   scrobbledAt: number | null;
+  /** Pauses while this track was playing, oldest first */
+  pauses: TrackPause[];
+  /** Last.fm's response to the latest scrobble of this track, once it has answered */
+  scrobbleResponse?: ScrobbleResponse;
 }
 
 /**
@@ -39,8 +146,54 @@ export interface Session {
   state: SessionState;
   /** Index of currently playing track (0-based) */
   currentIndex: number;
+  /** Whether playback waits for a flip after each side (off when absent) */
+  pauseAtSideEnd?: boolean;
+  /** How track changes are timed (track mode when absent) */
+  timerMode?: SessionTimerMode;
+  /**
+   * Side mode only: inferred length of each track (milliseconds, by track
+   * index), from which the track boundaries within a side follow
+   */
+  sideDurationsMs?: number[];
+  /** Length assumed for tracks without a duration (milliseconds; unknown when absent) */
+  defaultTrackMs?: number;
+  /** Needle-drop gap between one track ending and the next starting (milliseconds) */
+  trackGapMs?: number;
   /** Timestamp when session started (epoch ms) */
   startedAt: number;
   /** Per-track state */
   tracks: SessionTrackState[];
+  /** Append-only log of what happened during the session */
+  events: SessionEvent[];
+  /** Write counter, bumped on every save; stale writes are rejected */
+  version: number;
+}
+
+/**
+ * A scrobble Last.fm did not accept, held in the user's retry queue.
+ */
+export interface PendingScrobble {
+  /** Session the track was played in */
+  sessionId: string;
+  /** Discogs release the track belongs to */
+  releaseId: string;
+  /** Track index within the session */
+  trackIndex: number;
+  artist: string;
+  track: string;
+  album: string;
+  albumArtist?: string;
+  /** 1-based position in the release's tracklist */
+  trackNumber?: number;
+  durationSec: number | null;
+  /** Start time submitted to Last.fm (epoch ms) */
+  startedAt: number;
+  /** Queue status, mirrored on the session track */
+  status: Extract<SessionTrackStatus, "retrying" | "failed">;
+  /** Submissions made so far, including the first one that failed */
+  attempts: number;
+  /** When the next automatic attempt is due (epoch ms, null once failed) */
+  nextAttemptAt: number | null;
+  /** Last.fm's message for the most recent failure */
+  lastError: string | null;
 }
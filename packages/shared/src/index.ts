@@ -4,22 +4,65 @@ export type {
   NormalizedTrack,
 } from "./domain/release.js";
 export type {
+  PendingScrobble,
+  ScrobbleIgnoredReason,
+  ScrobbleResponse,
+  ScrobbleSource,
   Session,
+  SessionDurationScope,
+  SessionEndMode,
+  SessionEvent,
   SessionState,
+  SessionTimerMode,
   SessionTrackState,
   SessionTrackStatus,
+  TrackPause,
 } from "./domain/session.js";
+export type {
+  ScrobbleFields,
+  ScrobbleRule,
+  ScrobbleRuleField,
+  ScrobbleRuleMatch,
+} from "./domain/scrobbleRule.js";
 export {
   advanceSession,
   createSession,
   endSession,
+  flipSide,
   pauseSession,
+  reanchorSideTrack,
+  recordSessionEvent,
   resumeSession,
+  rewindSession,
+  setScrobbleResponse,
+  setScrobbleRetryStatus,
+  setTrackDuration,
+  skipTrack,
 } from "./session/engine.js";
 export {
+  getSessionTrackDurationMs,
+  getSideTimer,
+  getSideTrackIndexes,
+  inferSideDurationsMs,
+} from "./session/side.js";
+export {
+  RETRO_MAX_AGE_MS,
+  createRetroSession,
+  planRetroScrobbles,
+} from "./session/retro.js";
+export type { RetroAnchor, RetroPlan, RetroPlanInput, RetroScrobble } from "./session/retro.js";
+export {
+  DEFAULT_SCROBBLE_POLICY,
+  createScrobblePolicy,
   isEligibleToScrobble,
   getScrobbleThresholdMs,
 } from "./session/eligibility.js";
+export type { ScrobblePolicy } from "./session/eligibility.js";
+export {
+  getPausedMs,
+  getPlayedMs,
+  getScrobbleStartedAt,
+} from "./session/timing.js";
 export { syncSession } from "./session/sync.js";
 export type { SyncScrobbleAction, SyncSessionResult } from "./session/sync.js";
 
@@ -48,16 +91,29 @@ export type {
   DiscogsSearchResponse,
 } from "./contracts/discogs.js";
 export type {
+  PendingScrobblesResponse,
   SessionActionResponse,
   SessionCurrentResponse,
+  SessionEventsResponse,
   SessionStartRequest,
   SessionStartResponse,
   SessionSyncResponse,
 } from "./contracts/session.js";
+export type { ScrobbleRulesResponse } from "./contracts/rules.js";
 
-export type { DiscogsReleaseApiResponse } from "./normalize/discogsRelease.js";
-export { normalizeDiscogsRelease, parseDiscogsDuration } from "./normalize/discogsRelease.js";
-export { stripDiscogsDisambiguation } from "./normalize/artistName.js";
+export type {
+  DiscogsMasterApiResponse,
+  DiscogsReleaseApiResponse,
+  DiscogsReleaseProfile,
+  DiscogsSubTrackMode,
+  NormalizeDiscogsReleaseOptions,
+} from "./normalize/discogsRelease.js";
+export { normalizeDiscogsRelease, parseDiscogsDuration, parseDiscogsPosition } from "./normalize/discogsRelease.js";
+export { fillMissingDurations, hasMissingDurations } from "./normalize/masterDurations.js";
+export { applyScrobbleRules, previewScrobbleRules } from "./normalize/scrobbleRules.js";
+export type { ScrobbleRulesPreview } from "./normalize/scrobbleRules.js";
+export type { ArtistCreditPolicy, DiscogsArtistCredit } from "./normalize/artistName.js";
+export { formatArtistCredit, stripDiscogsDisambiguation } from "./normalize/artistName.js";
 
 // Validation schemas
 export {
@@ -73,17 +129,32 @@ export {
   DiscogsSearchQuerySchema,
   DiscogsReleaseIdSchema,
   DiscogsReleaseParamSchema,
+  DiscogsReleaseQuerySchema,
   type DiscogsCollectionQuery,
   type DiscogsSearchQuery,
   type DiscogsReleaseId,
   type DiscogsReleaseParam,
+  type DiscogsReleaseQuery,
 } from "./validation/index.js";
 export {
   SessionStartRequestSchema,
   SessionIdSchema,
   SessionParamSchema,
+  SessionTrackParamSchema,
   SessionScrobbleCurrentRequestSchema,
+  SessionEndRequestSchema,
+  SessionTrackDurationRequestSchema,
+  SessionRetroRequestSchema,
   type SessionId,
   type SessionParam,
+  type SessionTrackParam,
   type SessionScrobbleCurrentRequest,
+  type SessionEndRequest,
+  type SessionTrackDurationRequest,
+  type SessionRetroRequest,
+} from "./validation/index.js";
+export {
+  ScrobbleRuleSchema,
+  ScrobbleRulesRequestSchema,
+  type ScrobbleRulesRequest,
 } from "./validation/index.js";
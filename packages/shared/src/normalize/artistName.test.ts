@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { stripDiscogsDisambiguation } from "./artistName.js";
+import { formatArtistCredit, stripDiscogsDisambiguation } from "./artistName.js";
 
 describe("stripDiscogsDisambiguation", () => {
   it("strips numeric disambiguation suffix", () => {
@@ -43,3 +43,49 @@ describe("stripDiscogsDisambiguation", () => {
     expect(stripDiscogsDisambiguation("Artist (2nd Edition)")).toBe("Artist (2nd Edition)");
   });
 });
+
+describe("formatArtistCredit", () => {
+  const credits = [
+    { name: "Kanye West", join: "&" },
+    { name: "Jay-Z (2)", anv: "Jay Z", join: "Feat." },
+    { name: "Frank Ocean" },
+  ];
+
+  it("joins every artist with Discogs' join phrases for the full policy", () => {
+    expect(formatArtistCredit(credits, "full")).toBe("Kanye West & Jay Z Feat. Frank Ocean");
+  });
+
+  it("keeps only the first artist for the primary policy", () => {
+    expect(formatArtistCredit(credits, "primary")).toBe("Kanye West");
+  });
+
+  it("moves featured artists behind a single feat. for the feat policy", () => {
+    expect(formatArtistCredit(credits, "feat")).toBe("Kanye West & Jay Z feat. Frank Ocean");
+  });
+
+  it("adds extra artists credited as featuring for the feat policy", () => {
+    const extraArtists = [
+      { name: "Rihanna", role: "Featuring" },
+      { name: "Rick Rubin", role: "Producer" },
+    ];
+    expect(formatArtistCredit([{ name: "Jay-Z" }], "feat", extraArtists)).toBe("Jay-Z feat. Rihanna");
+    expect(formatArtistCredit([{ name: "Jay-Z" }], "full", extraArtists)).toBe("Jay-Z");
+  });
+
+  it("reads commas and missing join phrases as comma separators", () => {
+    expect(
+      formatArtistCredit([{ name: "Crosby", join: "," }, { name: "Stills", join: "" }, { name: "Nash (3)" }], "full")
+    ).toBe("Crosby, Stills, Nash");
+  });
+
+  it("prefers the name variation and strips disambiguation per artist", () => {
+    expect(formatArtistCredit([{ name: "Prince (2)", anv: "The Artist" }, { name: "Madonna (4)" }], "full")).toBe(
+      "The Artist, Madonna"
+    );
+  });
+
+  it("returns null when no artist is named", () => {
+    expect(formatArtistCredit(undefined, "full")).toBeNull();
+    expect(formatArtistCredit([{ name: " " }], "feat")).toBeNull();
+  });
+});
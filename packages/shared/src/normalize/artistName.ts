@@ -12,3 +12,78 @@
 export function stripDiscogsDisambiguation(name: string): string {
   return name.replace(/ \((?:[2-9]\d*|\d{2,})\)$/, "").trim();
 }
+
+/**
+ * One credited artist as Discogs lists it: the artist's name, the name
+ * variation printed on this release (`anv`), and the phrase joining it to
+ * the next artist (`join`, e.g. "&", ",", "Feat.").
+ */
+export interface DiscogsArtistCredit {
+  name?: string;
+  anv?: string;
+  join?: string;
+  /** Set on extra artists, e.g. "Featuring" or "Producer" */
+  role?: string;
+}
+
+/**
+ * How a credit with several artists reads when displayed and scrobbled:
+ * - `full`: every artist with Discogs' join phrases ("A & B Feat. C")
+ * - `primary`: the first artist only
+ * - `feat`: the main artists, then featured ones after "feat." as Last.fm
+ *   expects, including extra artists credited as featuring
+ */
+export type ArtistCreditPolicy = "full" | "primary" | "feat";
+
+const FEATURING_PATTERN = /^(?:feat\.?|ft\.?|featuring)$/i;
+
+/** The printed name for a credit, without disambiguation. */
+function creditName(credit: DiscogsArtistCredit): string {
+  return stripDiscogsDisambiguation(credit.anv?.trim() || credit.name?.trim() || "");
+}
+
+/** Names joined by their join phrases; a missing phrase reads as a comma. */
+function joinCredits(credits: DiscogsArtistCredit[]): string {
+  return credits.reduce((text, credit, index) => {
+    if (index === 0) {
+      return creditName(credit);
+    }
+    const join = credits[index - 1]?.join?.trim() || ",";
+    return join === "," ? `${text}, ${creditName(credit)}` : `${text} ${join} ${creditName(credit)}`;
+  }, "");
+}
+
+/**
+ * Build the artist string for a Discogs credit under `policy`, or null when
+ * no artist is named. Name variations are preferred over the artist's
+ * canonical name, and disambiguation suffixes are stripped from each artist.
+ */
+export function formatArtistCredit(
+  artists: DiscogsArtistCredit[] | undefined,
+  policy: ArtistCreditPolicy,
+  extraArtists: DiscogsArtistCredit[] = []
+): string | null {
+  const credits = (artists ?? []).filter((credit) => creditName(credit) !== "");
+  const first = credits[0];
+  if (!first) {
+    return null;
+  }
+
+  if (policy === "primary") {
+    return creditName(first);
+  }
+  if (policy === "full") {
+    return joinCredits(credits);
+  }
+
+  const featIndex = credits.findIndex((credit) => FEATURING_PATTERN.test(credit.join?.trim() ?? ""));
+  const main = featIndex === -1 ? credits : credits.slice(0, featIndex + 1);
+  const featured = [
+    ...(featIndex === -1 ? [] : credits.slice(featIndex + 1)),
+    ...extraArtists.filter((credit) => /^featuring/i.test(credit.role?.trim() ?? "")),
+  ]
+    .map(creditName)
+    .filter((name, index, names) => name !== "" && names.indexOf(name) === index);
+
+  return featured.length > 0 ? `${joinCredits(main)} feat. ${featured.join(" & ")}` : joinCredits(main);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { formatClassicalTitle, resolveClassicalCredits } from "./classical.js";
+
+describe("formatClassicalTitle", () => {
+  it("joins composer, work and movement", () => {
+    expect(formatClassicalTitle("Beethoven", "Symphony No. 5", "Allegro Con Brio")).toBe(
+      "Beethoven: Symphony No. 5 - Allegro Con Brio"
+    );
+  });
+
+  it("leaves out a work that is the whole track and an unknown composer", () => {
+    expect(formatClassicalTitle("Beethoven", "Egmont Overture", "Egmont Overture")).toBe("Beethoven: Egmont Overture");
+    expect(formatClassicalTitle("Beethoven", undefined, "Für Elise")).toBe("Beethoven: Für Elise");
+    expect(formatClassicalTitle(null, "Symphony No. 5", "Allegro")).toBe("Symphony No. 5 - Allegro");
+  });
+
+  it("does not repeat a composer already leading the title", () => {
+    expect(formatClassicalTitle("Bach", undefined, "Bach: Air On The G String")).toBe("Bach: Air On The G String");
+  });
+});
+
+describe("resolveClassicalCredits", () => {
+  const releaseArtists = [
+    { name: "Johann Sebastian Bach", anv: "Bach", join: "-" },
+    { name: "Glenn Gould" },
+  ];
+
+  it("credits composers from the track before the release", () => {
+    const credits = resolveClassicalCredits(
+      {
+        trackArtists: undefined,
+        trackExtraArtists: [{ name: "Antonio Vivaldi", role: "Composed By" }],
+        releaseArtists,
+        releaseExtraArtists: [{ name: "Johann Sebastian Bach", anv: "Bach", role: "Composed By" }],
+      },
+      "full"
+    );
+
+    expect(credits.composer).toBe("Antonio Vivaldi");
+  });
+
+  it("credits the artists other than the composers as performers", () => {
+    const credits = resolveClassicalCredits(
+      {
+        trackArtists: undefined,
+        trackExtraArtists: undefined,
+        releaseArtists,
+        releaseExtraArtists: [{ name: "Johann Sebastian Bach", anv: "Bach", role: "Composed By" }],
+      },
+      "full"
+    );
+
+    expect(credits).toEqual({ composer: "Bach", performer: "Glenn Gould" });
+  });
+
+  it("falls back to performing roles when only the composer is a main artist", () => {
+    const credits = resolveClassicalCredits(
+      {
+        trackArtists: undefined,
+        trackExtraArtists: undefined,
+        releaseArtists: [{ name: "Johann Sebastian Bach" }],
+        releaseExtraArtists: [
+          { name: "Johann Sebastian Bach", role: "Composed By" },
+          { name: "Wolfgang Rübsam", role: "Producer" },
+          { name: "Academy Of St. Martin-in-the-Fields", role: "Orchestra", join: "," },
+          { name: "Neville Marriner", role: "Conductor" },
+        ],
+      },
+      "full"
+    );
+
+    expect(credits.performer).toBe("Academy Of St. Martin-in-the-Fields, Neville Marriner");
+  });
+
+  it("joins several composers with an ampersand", () => {
+    const credits = resolveClassicalCredits(
+      {
+        trackArtists: [{ name: "Kronos Quartet" }],
+        trackExtraArtists: [
+          { name: "Philip Glass", role: "Composed By", join: "," },
+          { name: "Steve Reich", role: "Composer" },
+        ],
+        releaseArtists: undefined,
+        releaseExtraArtists: undefined,
+      },
+      "full"
+    );
+
+    expect(credits).toEqual({ composer: "Philip Glass & Steve Reich", performer: "Kronos Quartet" });
+  });
+});
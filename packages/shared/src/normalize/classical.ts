@@ -0,0 +1,75 @@
+import { formatArtistCredit, type ArtistCreditPolicy, type DiscogsArtistCredit } from "./artistName.js";
+
+/** Discogs roles that credit a composer, e.g. "Composed By" or "Music By". */
+const COMPOSER_ROLE_PATTERN = /^(?:composed by|composer|music by|written-by)\b/i;
+
+/** Discogs roles that credit a performer of classical works. */
+const PERFORMER_ROLE_PATTERN = /^(?:orchestra|conductor|ensemble|choir|chorus|performer|soloist)\b/i;
+
+/** Artists credited where a classical track is listed, from most to least specific. */
+interface ClassicalCreditSources {
+  trackArtists: DiscogsArtistCredit[] | undefined;
+  trackExtraArtists: DiscogsArtistCredit[] | undefined;
+  releaseArtists: DiscogsArtistCredit[] | undefined;
+  /** Release-wide extra artists; ones limited to some tracks are left out */
+  releaseExtraArtists: DiscogsArtistCredit[] | undefined;
+}
+
+interface ClassicalCredits {
+  composer: string | null;
+  performer: string | null;
+}
+
+function hasRole(credit: DiscogsArtistCredit, pattern: RegExp): boolean {
+  return pattern.test(credit.role?.trim() ?? "");
+}
+
+function firstNonEmpty(...lists: DiscogsArtistCredit[][]): DiscogsArtistCredit[] {
+  return lists.find((list) => list.length > 0) ?? [];
+}
+
+/**
+ * Find who composed and who performed a classical track. Composer credits
+ * on the track win over release-wide ones. Performers are the credited
+ * artists other than the composers (Discogs often lists the composer as a
+ * main artist), else the artists credited in a performing role.
+ */
+export function resolveClassicalCredits(
+  sources: ClassicalCreditSources,
+  policy: ArtistCreditPolicy
+): ClassicalCredits {
+  const composers = firstNonEmpty(
+    (sources.trackExtraArtists ?? []).filter((credit) => hasRole(credit, COMPOSER_ROLE_PATTERN)),
+    (sources.releaseExtraArtists ?? []).filter((credit) => hasRole(credit, COMPOSER_ROLE_PATTERN))
+  );
+  const composerNames = new Set(composers.map((credit) => credit.name?.trim().toLowerCase()));
+  const isPerformer = (credit: DiscogsArtistCredit) => !composerNames.has(credit.name?.trim().toLowerCase());
+
+  const performers = firstNonEmpty(
+    (sources.trackArtists ?? []).filter(isPerformer),
+    (sources.releaseArtists ?? []).filter(isPerformer),
+    (sources.trackExtraArtists ?? []).filter((credit) => hasRole(credit, PERFORMER_ROLE_PATTERN)),
+    (sources.releaseExtraArtists ?? []).filter((credit) => hasRole(credit, PERFORMER_ROLE_PATTERN))
+  );
+
+  return {
+    composer: formatArtistCredit(
+      composers.map((credit, index) => ({ ...credit, join: index < composers.length - 1 ? "&" : "" })),
+      "full"
+    ),
+    performer: formatArtistCredit(performers, policy),
+  };
+}
+
+/**
+ * Build a classical track title, `Composer: Work - Movement`. The work is
+ * left out when the track is the whole work, and the composer when unknown
+ * or already leading the title.
+ */
+export function formatClassicalTitle(composer: string | null, work: string | undefined, movement: string): string {
+  const title = work && work !== movement ? `${work} - ${movement}` : movement;
+  if (!composer || title.toLowerCase().startsWith(composer.toLowerCase())) {
+    return title;
+  }
+  return `${composer}: ${title}`;
+}
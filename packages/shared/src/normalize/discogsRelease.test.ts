@@ -1,5 +1,8 @@
 import { describe, expect, it } from "vitest";
-import { normalizeDiscogsRelease, parseDiscogsDuration } from "./discogsRelease.js";
+import { normalizeDiscogsRelease, parseDiscogsDuration, parseDiscogsPosition } from "./discogsRelease.js";
+import classicalFixture from "./fixtures/discogs-classical.json";
+import singleArtistCompilationFixture from "./fixtures/discogs-single-artist-compilation.json";
+import variousArtistsFixture from "./fixtures/discogs-various-artists.json";
 
 describe("parseDiscogsDuration", () => {
   it("parses mm:ss and hh:mm:ss values", () => {
@@ -31,6 +34,36 @@ describe("parseDiscogsDuration", () => {
   });
 });
 
+describe("parseDiscogsPosition", () => {
+  it("reads side letters beyond D", () => {
+    expect(parseDiscogsPosition("A1")).toEqual({ side: "A" });
+    expect(parseDiscogsPosition("F3")).toEqual({ side: "F" });
+    expect(parseDiscogsPosition("L12")).toEqual({ side: "L" });
+  });
+
+  it("reads double-A sides, bare letters and part letters", () => {
+    expect(parseDiscogsPosition("AA")).toEqual({ side: "AA" });
+    expect(parseDiscogsPosition("AA1")).toEqual({ side: "AA" });
+    expect(parseDiscogsPosition("B")).toEqual({ side: "B" });
+    expect(parseDiscogsPosition("A1a")).toEqual({ side: "A" });
+    expect(parseDiscogsPosition("c2")).toEqual({ side: "C" });
+  });
+
+  it("reads disc numbers from CD-style positions", () => {
+    expect(parseDiscogsPosition("1-05")).toEqual({ side: null, disc: 1 });
+    expect(parseDiscogsPosition("2-3")).toEqual({ side: null, disc: 2 });
+    expect(parseDiscogsPosition("CD1-3")).toEqual({ side: null, disc: 1 });
+    expect(parseDiscogsPosition("DVD2-1")).toEqual({ side: null, disc: 2 });
+  });
+
+  it("finds neither in plain numbers or other text", () => {
+    expect(parseDiscogsPosition("7")).toEqual({ side: null });
+    expect(parseDiscogsPosition("Video")).toEqual({ side: null });
+    expect(parseDiscogsPosition("")).toEqual({ side: null });
+    expect(parseDiscogsPosition(undefined)).toEqual({ side: null });
+  });
+});
+
 describe("normalizeDiscogsRelease", () => {
   it("normalizes track ordering, sides, and artist fallbacks", () => {
     const normalized = normalizeDiscogsRelease({
@@ -83,6 +116,23 @@ describe("normalizeDiscogsRelease", () => {
     });
   });
 
+  it("keeps the sides of a triple LP and the discs of a double CD", () => {
+    const lp = normalizeDiscogsRelease({
+      id: 6,
+      tracklist: [{ position: "D2", title: "Four" }, { position: "E1", title: "Five" }, { position: "F1", title: "Six" }],
+    });
+    expect(lp.tracks.map((track) => track.side)).toEqual(["D", "E", "F"]);
+
+    const cd = normalizeDiscogsRelease({
+      id: 7,
+      tracklist: [{ position: "1-12", title: "Last On One" }, { position: "2-01", title: "First On Two" }],
+    });
+    expect(cd.tracks.map((track) => [track.side, track.disc])).toEqual([
+      [null, 1],
+      [null, 2],
+    ]);
+  });
+
   it("uses 'Unknown Artist' when artists array is missing", () => {
     const normalized = normalizeDiscogsRelease({
       id: 1,
@@ -266,3 +316,240 @@ describe("normalizeDiscogsRelease", () => {
     expect(normalized.tracks[2]?.artist).toBe("Plain Artist");
   });
 });
+
+describe("normalizeDiscogsRelease with several credited artists", () => {
+  const collaboration = {
+    id: 15,
+    title: "Watch The Throne",
+    artists: [
+      { name: "Jay-Z", join: "&" },
+      { name: "Kanye West", join: "" },
+    ],
+    tracklist: [
+      { position: "A1", title: "No Church In The Wild" },
+      {
+        position: "A2",
+        title: "Lift Off",
+        extraartists: [{ name: "Beyoncé", role: "Featuring" }],
+      },
+      {
+        position: "B1",
+        title: "Otis",
+        artists: [
+          { name: "Jay-Z", join: "&" },
+          { name: "Kanye West", join: "Feat." },
+          { name: "Otis Redding (2)", anv: "Otis" },
+        ],
+      },
+    ],
+  };
+
+  it("credits every artist by default", () => {
+    const normalized = normalizeDiscogsRelease(collaboration);
+
+    expect(normalized.artist).toBe("Jay-Z & Kanye West");
+    expect(normalized.tracks.map((track) => track.artist)).toEqual([
+      "Jay-Z & Kanye West",
+      "Jay-Z & Kanye West",
+      "Jay-Z & Kanye West Feat. Otis",
+    ]);
+  });
+
+  it("credits the first artist only with the primary policy", () => {
+    const normalized = normalizeDiscogsRelease(collaboration, { artistCredit: "primary" });
+
+    expect(normalized.artist).toBe("Jay-Z");
+    expect(normalized.tracks.map((track) => track.artist)).toEqual(["Jay-Z", "Jay-Z", "Jay-Z"]);
+  });
+
+  it("places featured artists after feat. with the feat policy", () => {
+    const normalized = normalizeDiscogsRelease(collaboration, { artistCredit: "feat" });
+
+    expect(normalized.artist).toBe("Jay-Z & Kanye West");
+    expect(normalized.tracks.map((track) => track.artist)).toEqual([
+      "Jay-Z & Kanye West",
+      "Jay-Z & Kanye West feat. Beyoncé",
+      "Jay-Z & Kanye West feat. Otis",
+    ]);
+  });
+});
+
+describe("normalizeDiscogsRelease with index tracks", () => {
+  // A classical side: one work split into movements, and a standalone track
+  const classicalRelease = {
+    id: 10,
+    title: "Symphonies",
+    artists: [{ name: "Berliner Philharmoniker" }],
+    tracklist: [
+      {
+        position: "",
+        type_: "index",
+        title: "Symphony No. 5 In C Minor, Op. 67",
+        duration: "",
+        artists: [{ name: "Herbert von Karajan (2)" }],
+        sub_tracks: [
+          { position: "A1", type_: "track", title: "Allegro Con Brio", duration: "7:21" },
+          { position: "A2", type_: "track", title: "Andante Con Moto", duration: "10:02" },
+        ],
+      },
+      { position: "B1", type_: "track", title: "Egmont Overture", duration: "8:30" },
+    ],
+  };
+
+  // A DJ mix whose parts are unnumbered and untimed
+  const mixRelease = {
+    id: 11,
+    title: "Mix Session",
+    artists: [{ name: "Various" }],
+    tracklist: [
+      {
+        position: "C",
+        type_: "index",
+        title: "Continuous Mix",
+        duration: "45:00",
+        sub_tracks: [
+          { type_: "track", title: "Opening Cut", artists: [{ name: "DJ One" }] },
+          { type_: "heading", title: "Part Two" },
+          { type_: "track", title: "Closing Cut" },
+        ],
+      },
+    ],
+  };
+
+  it("keeps an index track as one track timed by its parts by default", () => {
+    const normalized = normalizeDiscogsRelease(classicalRelease);
+
+    expect(normalized.tracks).toHaveLength(2);
+    expect(normalized.tracks[0]).toMatchObject({
+      position: "1",
+      title: "Symphony No. 5 In C Minor, Op. 67",
+      artist: "Herbert von Karajan",
+      durationSec: 1043,
+      index: 0,
+    });
+    expect(normalized.tracks[1]).toMatchObject({ position: "B1", index: 1 });
+  });
+
+  it("prefers the index track's own duration and leaves partial sums unknown", () => {
+    const mix = normalizeDiscogsRelease(mixRelease, { subTracks: "parent" });
+    expect(mix.tracks[0]?.durationSec).toBe(2700);
+
+    const partial = normalizeDiscogsRelease({
+      ...classicalRelease,
+      tracklist: [
+        {
+          ...classicalRelease.tracklist[0],
+          sub_tracks: [{ position: "A1", title: "Allegro Con Brio", duration: "7:21" }, { position: "A2", title: "Andante" }],
+        },
+      ],
+    });
+    expect(partial.tracks[0]?.durationSec).toBeNull();
+  });
+
+  it("flattens parts into tracks that inherit the index's artist", () => {
+    const normalized = normalizeDiscogsRelease(classicalRelease, { subTracks: "flatten" });
+
+    expect(normalized.tracks.map((track) => [track.position, track.title, track.artist, track.side])).toEqual([
+      ["A1", "Allegro Con Brio", "Herbert von Karajan", "A"],
+      ["A2", "Andante Con Moto", "Herbert von Karajan", "A"],
+      ["B1", "Egmont Overture", "Berliner Philharmoniker", "B"],
+    ]);
+    expect(normalized.tracks.map((track) => track.index)).toEqual([0, 1, 2]);
+  });
+
+  it("numbers unpositioned parts after the index track's position", () => {
+    const normalized = normalizeDiscogsRelease(mixRelease, { subTracks: "flatten" });
+
+    expect(normalized.tracks.map((track) => [track.position, track.artist, track.durationSec])).toEqual([
+      ["C.1", "DJ One", null],
+      ["C.2", "Various Artists", null],
+    ]);
+    expect(normalized.tracks[0]?.side).toBe("C");
+  });
+});
+
+describe("normalizeDiscogsRelease with compilations", () => {
+  it("files a Various compilation under Various Artists and keeps each track's artists", () => {
+    const normalized = normalizeDiscogsRelease(variousArtistsFixture);
+
+    expect(normalized).toMatchObject({ artist: "Various Artists", albumArtist: "Various Artists", compilation: true });
+    expect(normalized.tracks.map((track) => track.artist)).toEqual([
+      "Tim Roth & Amanda Plummer / Dick Dale & His Del-Tones",
+      "John Travolta & Samuel L. Jackson",
+      "Kool & The Gang",
+      "Dusty Springfield",
+      "Urge Overkill",
+      "The Lively Ones",
+    ]);
+  });
+
+  it("credits uncredited tracks on a Various release to Various Artists", () => {
+    const normalized = normalizeDiscogsRelease({
+      ...variousArtistsFixture,
+      tracklist: [{ position: "A1", title: "Unknown Cut" }],
+    });
+
+    expect(normalized.tracks[0]?.artist).toBe("Various Artists");
+  });
+
+  it("treats a compilation whose tracks name several lead artists as Various Artists", () => {
+    const normalized = normalizeDiscogsRelease({
+      ...variousArtistsFixture,
+      artists: [{ name: "Quentin Tarantino" }],
+    });
+
+    expect(normalized.albumArtist).toBe("Various Artists");
+  });
+
+  it("keeps a single artist's compilation under that artist", () => {
+    const normalized = normalizeDiscogsRelease(singleArtistCompilationFixture);
+
+    expect(normalized).toMatchObject({ artist: "Queen", albumArtist: "Queen", compilation: true });
+    expect(normalized.tracks.map((track) => track.artist)).toEqual(["Queen", "Queen", "Queen & David Bowie"]);
+  });
+
+  it("sets the album artist but no compilation flag on a studio album", () => {
+    const normalized = normalizeDiscogsRelease({ id: 1, title: "Album", artists: [{ name: "Artist (2)" }] });
+
+    expect(normalized.albumArtist).toBe("Artist");
+    expect(normalized.compilation).toBeUndefined();
+  });
+});
+
+describe("normalizeDiscogsRelease with the classical profile", () => {
+  it("titles movements with composer and work and credits the performers", () => {
+    const normalized = normalizeDiscogsRelease(classicalFixture, { profile: "classical" });
+
+    expect(normalized.artist).toBe("Berliner Philharmoniker, Herbert von Karajan");
+    expect(normalized.tracks.map((track) => [track.position, track.title])).toEqual([
+      ["A1", "Beethoven: Symphonie Nr. 5 C-moll Op. 67 - Allegro Con Brio"],
+      ["A2", "Beethoven: Symphonie Nr. 5 C-moll Op. 67 - Andante Con Moto"],
+      ["A3", "Beethoven: Symphonie Nr. 5 C-moll Op. 67 - Allegro"],
+      ["A4", "Beethoven: Symphonie Nr. 5 C-moll Op. 67 - Allegro"],
+      ["B1", "Beethoven: Symphonie Nr. 8 F-dur Op. 93 - Allegro Vivace E Con Brio"],
+      ["B2", "Beethoven: Symphonie Nr. 8 F-dur Op. 93 - Allegretto Scherzando"],
+      ["B3", "Beethoven: Symphonie Nr. 8 F-dur Op. 93 - Tempo Di Menuetto"],
+      ["B4", "Beethoven: Symphonie Nr. 8 F-dur Op. 93 - Allegro Vivace"],
+      ["B5", "Ludwig van Beethoven: Egmont-Ouvertüre Op. 84"],
+    ]);
+    expect(new Set(normalized.tracks.map((track) => track.artist))).toEqual(
+      new Set(["Berliner Philharmoniker, Herbert von Karajan"])
+    );
+  });
+
+  it("keeps an index track whole when asked", () => {
+    const normalized = normalizeDiscogsRelease(classicalFixture, { profile: "classical", subTracks: "parent" });
+
+    expect(normalized.tracks[4]).toMatchObject({
+      title: "Beethoven: Symphonie Nr. 8 F-dur Op. 93",
+      durationSec: 1585,
+    });
+  });
+
+  it("titles tracks as Discogs lists them with the standard profile", () => {
+    const normalized = normalizeDiscogsRelease(classicalFixture);
+
+    expect(normalized.artist).toBe("Beethoven - Berliner Philharmoniker, Herbert von Karajan");
+    expect(normalized.tracks[0]?.title).toBe("Allegro Con Brio");
+  });
+});
@@ -1,21 +1,78 @@
 import type { NormalizedRelease, NormalizedTrack } from "../domain/release.js";
-import { stripDiscogsDisambiguation } from "./artistName.js";
+import {
+  formatArtistCredit,
+  stripDiscogsDisambiguation,
+  type ArtistCreditPolicy,
+  type DiscogsArtistCredit,
+} from "./artistName.js";
+import { formatClassicalTitle, resolveClassicalCredits } from "./classical.js";
 
 export interface DiscogsReleaseApiResponse {
   id?: number;
+  master_id?: number;
   title?: string;
   year?: number;
-  artists?: Array<{ name?: string }>;
+  artists?: DiscogsArtistCredit[];
+  /** Contributors credited release-wide, or on the `tracks` listed (e.g. "A1 to A4") */
+  extraartists?: Array<DiscogsArtistCredit & { tracks?: string }>;
   images?: Array<{ uri?: string; type?: string }>;
+  formats?: Array<{ name?: string; descriptions?: string[] }>;
   tracklist?: DiscogsTrack[];
 }
 
+/**
+ * A Discogs master release. Its tracklist has the same shape as a release's,
+ * so it normalizes the same way.
+ */
+export interface DiscogsMasterApiResponse extends Omit<DiscogsReleaseApiResponse, "master_id"> {
+  main_release?: number;
+}
+
 export interface DiscogsTrack {
   position?: string;
   title?: string;
   duration?: string;
-  artists?: Array<{ name?: string }>;
+  artists?: DiscogsArtistCredit[];
+  /** Contributors credited on this track only, e.g. featured artists */
+  extraartists?: DiscogsArtistCredit[];
   type_?: string;
+  /** Parts of an index track (`type_: "index"`), e.g. a work's movements */
+  sub_tracks?: DiscogsTrack[];
+}
+
+/**
+ * How index tracks (a parent with `sub_tracks`, as on classical works and DJ
+ * mixes) become tracks: `"parent"` keeps the index as one track, timed as the
+ * sum of its parts when it lists no duration itself; `"flatten"` makes each
+ * part its own track, inheriting the index's artist and position.
+ */
+export type DiscogsSubTrackMode = "parent" | "flatten";
+
+/**
+ * How tracks are titled and credited: `"standard"` as Discogs lists them;
+ * `"classical"` as `Composer: Work - Movement` from composer credits and the
+ * heading or index track a movement sits under, credited to the performers.
+ */
+export type DiscogsReleaseProfile = "standard" | "classical";
+
+export interface NormalizeDiscogsReleaseOptions {
+  /** Defaults to `"flatten"` for the classical profile, else `"parent"` */
+  subTracks?: DiscogsSubTrackMode | undefined;
+  /** How several credited artists are combined; defaults to `"full"` */
+  artistCredit?: ArtistCreditPolicy | undefined;
+  /** Defaults to `"standard"` */
+  profile?: DiscogsReleaseProfile | undefined;
+}
+
+/** A tracklist entry that will become one normalized track. */
+interface TracklistEntry {
+  position: string;
+  title: string | undefined;
+  artists: DiscogsArtistCredit[] | undefined;
+  extraArtists: DiscogsArtistCredit[] | undefined;
+  durationSec: number | null;
+  /** The work the entry is part of: its index track, or the heading above it */
+  work: string | undefined;
 }
 
 export function parseDiscogsDuration(duration?: string | null): number | null {
@@ -48,17 +105,107 @@ export function parseDiscogsDuration(duration?: string | null): number | null {
   return null;
 }
 
-function deriveSide(position?: string | null): NormalizedTrack["side"] {
-  if (!position) {
-    return null;
+/** Disc and track number, optionally after a media prefix: "1-05", "CD1-3", "DVD2-1". */
+const DISC_POSITION_PATTERN = /^[A-Z]{0,3}(\d+)-\d+/i;
+
+/** A side letter, or a doubled one ("AA"), before the track number or part letter: "A1", "F", "A1a". */
+const SIDE_POSITION_PATTERN = /^([A-Z])\1?(?![A-Z])/i;
+
+/**
+ * Read the side and disc from a Discogs position. Vinyl and cassette
+ * positions carry a side letter (any letter, so box sets past side D keep
+ * theirs); CD-style positions carry a disc number instead.
+ */
+export function parseDiscogsPosition(position?: string | null): Pick<NormalizedTrack, "side" | "disc"> {
+  const trimmed = position?.trim() ?? "";
+
+  const discMatch = trimmed.match(DISC_POSITION_PATTERN);
+  if (discMatch?.[1]) {
+    return { side: null, disc: Number.parseInt(discMatch[1], 10) };
   }
 
-  const match = position.trim().toUpperCase().match(/^[ABCD]/);
-  if (!match) {
+  const sideMatch = trimmed.match(SIDE_POSITION_PATTERN);
+  return { side: sideMatch ? sideMatch[0].toUpperCase() : null };
+}
+
+/**
+ * Total length of an index track's parts, or null unless every part lists
+ * a duration (a partial sum would understate it).
+ */
+function sumSubTrackDurations(parts: DiscogsTrack[]): number | null {
+  const durations = parts.map((part) => parseDiscogsDuration(part.duration));
+  if (durations.some((durationSec) => durationSec === null)) {
     return null;
   }
+  return durations.reduce<number>((sum, durationSec) => sum + (durationSec ?? 0), 0);
+}
+
+function toTracklistEntries(tracklist: DiscogsTrack[], subTracks: DiscogsSubTrackMode): TracklistEntry[] {
+  // A heading names the work for the tracks below it, up to the next heading
+  // or index track (which names its own work)
+  let heading: string | undefined;
+  const tracksUnderHeadings = tracklist.flatMap((track) => {
+    if (track.type_ === "heading") {
+      heading = track.title?.trim() || undefined;
+      return [];
+    }
+    if (track.type_ === "index") {
+      heading = undefined;
+    }
+    return [{ track, heading }];
+  });
+
+  return tracksUnderHeadings.flatMap(({ track, heading: work }): TracklistEntry[] => {
+    const position = track.position?.trim() ?? "";
+    const parts = (track.sub_tracks ?? []).filter((part) => part.type_ !== "heading");
+    const entry: TracklistEntry = {
+      position,
+      title: track.title,
+      artists: track.artists,
+      extraArtists: track.extraartists,
+      durationSec: parseDiscogsDuration(track.duration),
+      work,
+    };
+
+    if (track.type_ !== "index" || parts.length === 0) {
+      return [entry];
+    }
+    if (subTracks === "parent") {
+      return [{ ...entry, durationSec: entry.durationSec ?? sumSubTrackDurations(parts) }];
+    }
+    return parts.map((part, partIndex) => ({
+      position: part.position?.trim() || (position ? `${position}.${partIndex + 1}` : ""),
+      title: part.title,
+      artists: part.artists?.length ? part.artists : entry.artists,
+      extraArtists: [...(entry.extraArtists ?? []), ...(part.extraartists ?? [])],
+      durationSec: parseDiscogsDuration(part.duration),
+      work: track.title?.trim() || work,
+    }));
+  });
+}
+
+/** Last.fm's name for the album artist of a multi-artist compilation. */
+const VARIOUS_ARTISTS = "Various Artists";
+
+/** Discogs credits multi-artist compilations to the artist "Various". */
+function isCreditedToVarious(artists: DiscogsArtistCredit[] | undefined): boolean {
+  return (artists ?? []).some((credit) => stripDiscogsDisambiguation(credit.name?.trim() ?? "").toLowerCase() === "various");
+}
+
+function hasCompilationFormat(formats: DiscogsReleaseApiResponse["formats"]): boolean {
+  return (formats ?? []).some((format) =>
+    (format.descriptions ?? []).some((description) => description.trim().toLowerCase() === "compilation")
+  );
+}
 
-  return match[0] as NormalizedTrack["side"];
+/** Whether tracks are credited to more than one distinct lead artist. */
+function hasSeveralTrackArtists(entries: TracklistEntry[]): boolean {
+  const names = new Set(
+    entries
+      .map((entry) => formatArtistCredit(entry.artists, "primary")?.toLowerCase())
+      .filter((name): name is string => Boolean(name))
+  );
+  return names.size > 1;
 }
 
 function resolveCoverUrl(images?: Array<{ uri?: string; type?: string }>): string | null {
@@ -70,26 +217,64 @@ function resolveCoverUrl(images?: Array<{ uri?: string; type?: string }>): strin
   return primary?.uri ?? images[0]?.uri ?? null;
 }
 
-export function normalizeDiscogsRelease(data: DiscogsReleaseApiResponse): NormalizedRelease {
-  const releaseArtist = stripDiscogsDisambiguation(data.artists?.[0]?.name ?? "Unknown Artist");
-  const tracks = (data.tracklist ?? [])
-    .filter((track) => track.type_ !== "heading")
-    .map((track, index) => {
-      const position = track.position?.trim() || `${index + 1}`;
+export function normalizeDiscogsRelease(
+  data: DiscogsReleaseApiResponse,
+  options: NormalizeDiscogsReleaseOptions = {}
+): NormalizedRelease {
+  const artistCredit = options.artistCredit ?? "full";
+  const classical = options.profile === "classical";
+  const entries = toTracklistEntries(data.tracklist ?? [], options.subTracks ?? (classical ? "flatten" : "parent"));
+  const releaseExtraArtists = (data.extraartists ?? []).filter((credit) => !credit.tracks?.trim());
+  const compilation = isCreditedToVarious(data.artists) || hasCompilationFormat(data.formats);
+  const variousArtists =
+    isCreditedToVarious(data.artists) || (compilation && hasSeveralTrackArtists(entries));
+  const releasePerformer = classical
+    ? resolveClassicalCredits(
+        { trackArtists: undefined, trackExtraArtists: undefined, releaseArtists: data.artists, releaseExtraArtists },
+        artistCredit
+      ).performer
+    : null;
+  const releaseArtist = variousArtists
+    ? VARIOUS_ARTISTS
+    : releasePerformer ?? formatArtistCredit(data.artists, artistCredit) ?? "Unknown Artist";
+  const tracks = entries.map(
+    (entry, index) => {
+      const position = entry.position || `${index + 1}`;
+      const title = entry.title ?? "Untitled";
+      const credits = classical
+        ? resolveClassicalCredits(
+            {
+              trackArtists: entry.artists,
+              trackExtraArtists: entry.extraArtists,
+              releaseArtists: variousArtists ? undefined : data.artists,
+              releaseExtraArtists,
+            },
+            artistCredit
+          )
+        : null;
       return {
         position,
-        title: track.title ?? "Untitled",
-        artist: stripDiscogsDisambiguation(track.artists?.[0]?.name ?? releaseArtist),
-        durationSec: parseDiscogsDuration(track.duration),
-        side: deriveSide(position),
+        title: credits ? formatClassicalTitle(credits.composer, entry.work, title) : title,
+        artist: credits
+          ? credits.performer ?? releaseArtist
+          : formatArtistCredit(
+              entry.artists?.length || variousArtists ? entry.artists : data.artists,
+              artistCredit,
+              entry.extraArtists
+            ) ?? releaseArtist,
+        durationSec: entry.durationSec,
+        ...parseDiscogsPosition(position),
         index,
       };
-    });
+    }
+  );
 
   return {
     id: String(data.id ?? ""),
     title: data.title ?? "Untitled",
     artist: releaseArtist,
+    albumArtist: releaseArtist,
+    ...(compilation ? { compilation } : {}),
     year: Number.isFinite(data.year) ? (data.year as number) : null,
     coverUrl: resolveCoverUrl(data.images),
     tracks,
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { NormalizedRelease } from "../domain/release.js";
+import { normalizeDiscogsRelease } from "./discogsRelease.js";
+import { fillMissingDurations, hasMissingDurations } from "./masterDurations.js";
+import mainReleaseFixture from "./fixtures/discogs-main-release.json";
+import masterFixture from "./fixtures/discogs-master.json";
+import pressingFixture from "./fixtures/discogs-release-no-durations.json";
+
+const pressing = normalizeDiscogsRelease(pressingFixture);
+const master = normalizeDiscogsRelease(masterFixture);
+const mainRelease = normalizeDiscogsRelease(mainReleaseFixture);
+
+describe("hasMissingDurations", () => {
+  it("spots a release with untimed tracks", () => {
+    expect(hasMissingDurations(pressing)).toBe(true);
+    expect(hasMissingDurations(mainRelease)).toBe(false);
+  });
+});
+
+describe("fillMissingDurations", () => {
+  const filled = fillMissingDurations(pressing, [master, mainRelease]);
+  const durationOf = (title: string) => filled.tracks.find((track) => track.title === title);
+
+  it("takes durations from the master before its main release", () => {
+    expect(durationOf("On The Run")).toMatchObject({ durationSec: 216, durationSource: "master" });
+  });
+
+  it("matches main release tracks at other positions by title", () => {
+    expect(durationOf("Us And Them")).toMatchObject({ durationSec: 469, durationSource: "master" });
+    expect(durationOf("Eclipse")).toMatchObject({ durationSec: 123, durationSource: "master" });
+  });
+
+  it("ignores bracketed notes when comparing titles", () => {
+    expect(durationOf("Any Colour You Like")?.durationSec).toBe(206);
+  });
+
+  it("keeps durations the release lists itself", () => {
+    expect(durationOf("Time")).toEqual(expect.objectContaining({ durationSec: 425 }));
+    expect(durationOf("Time")).not.toHaveProperty("durationSource");
+  });
+
+  it("leaves tracks with no match untimed", () => {
+    expect(durationOf("Speak To Me")?.durationSec).toBeNull();
+    expect(durationOf("Breathe")?.durationSec).toBeNull();
+  });
+
+  it("does not guess between tracks sharing a title at other positions", () => {
+    const release: NormalizedRelease = {
+      ...pressing,
+      tracks: [{ index: 0, position: "A1", title: "Untitled", artist: "Pink Floyd", durationSec: null, side: "A" }],
+    };
+    const source: NormalizedRelease = {
+      ...mainRelease,
+      tracks: [
+        { index: 0, position: "1", title: "Untitled", artist: "Pink Floyd", durationSec: 60, side: null },
+        { index: 1, position: "2", title: "Untitled", artist: "Pink Floyd", durationSec: 90, side: null },
+      ],
+    };
+
+    expect(fillMissingDurations(release, [source]).tracks[0]?.durationSec).toBeNull();
+  });
+});
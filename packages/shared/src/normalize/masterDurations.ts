@@ -0,0 +1,68 @@
+/**
+ * Filling in track durations a release does not list.
+ *
+ * Pressings often come without timings while their master release, or the
+ * master's main release, has them. Tracks are matched by position and
+ * normalized title, so a CD main release ("1", "2") still lines up with a
+ * vinyl pressing ("A1", "A2") when the titles agree.
+ */
+
+import type { NormalizedRelease, NormalizedTrack } from "../domain/release.js";
+
+/** Lowercased title without bracketed notes, accents or punctuation. */
+function normalizeTrackTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * The timed source track for `track`: the one at the same position with the
+ * same title, otherwise the only one with the same title.
+ */
+function findTimedTrack(track: NormalizedTrack, sourceTracks: NormalizedTrack[]): NormalizedTrack | undefined {
+  const title = normalizeTrackTitle(track.title);
+  const sameTitle = sourceTracks.filter(
+    (source) => source.durationSec !== null && normalizeTrackTitle(source.title) === title
+  );
+
+  const samePosition = sameTitle.find(
+    (source) => source.position.toUpperCase() === track.position.toUpperCase()
+  );
+  return samePosition ?? (sameTitle.length === 1 ? sameTitle[0] : undefined);
+}
+
+/** Whether any track on the release has no duration. */
+export function hasMissingDurations(release: NormalizedRelease): boolean {
+  return release.tracks.some((track) => track.durationSec === null);
+}
+
+/**
+ * Fill in missing durations from `sources` (the master release, then its main
+ * release), marking each filled track with `durationSource: "master"`.
+ * Durations the release lists itself are never replaced.
+ */
+export function fillMissingDurations(
+  release: NormalizedRelease,
+  sources: NormalizedRelease[]
+): NormalizedRelease {
+  const tracks = release.tracks.map((track) => {
+    if (track.durationSec !== null) {
+      return track;
+    }
+
+    for (const source of sources) {
+      const match = findTimedTrack(track, source.tracks);
+      if (match) {
+        return { ...track, durationSec: match.durationSec, durationSource: "master" as const };
+      }
+    }
+    return track;
+  });
+
+  return { ...release, tracks };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import type { ScrobbleFields, ScrobbleRule } from "../domain/scrobbleRule.js";
+import { applyScrobbleRules, canBacktrackCatastrophically, previewScrobbleRules } from "./scrobbleRules.js";
+
+const fields: ScrobbleFields = {
+  artist: "The Beatles",
+  title: "Come Together (Remastered 2009)",
+  album: "Abbey Road (Remastered 2009)",
+  albumArtist: "The Beatles",
+};
+
+function rule(id: string, overrides: Partial<ScrobbleRule> = {}): ScrobbleRule {
+  return { id, match: "literal", find: "", replace: "", fields: ["title"], ...overrides };
+}
+
+describe("applyScrobbleRules", () => {
+  it("replaces literal text in the fields a rule is scoped to", () => {
+    const rules = [rule("strip", { find: "(Remastered 2009)", fields: ["title"] })];
+
+    expect(applyScrobbleRules(fields, rules, null)).toEqual({
+      ...fields,
+      title: "Come Together",
+    });
+  });
+
+  it("rewrites the album artist along with the artist", () => {
+    const rules = [rule("beatles", { find: "The Beatles", replace: "Beatles, The", fields: ["artist"] })];
+
+    expect(applyScrobbleRules(fields, rules, null)).toMatchObject({
+      artist: "Beatles, The",
+      albumArtist: "Beatles, The",
+    });
+  });
+
+  it("replaces regex matches with capture groups", () => {
+    const rules = [
+      rule("remaster", { match: "regex", find: "\\s*\\(Remastered (\\d{4})\\)", replace: " [$1]", fields: ["title", "album"] }),
+    ];
+
+    expect(applyScrobbleRules(fields, rules, null)).toMatchObject({
+      title: "Come Together [2009]",
+      album: "Abbey Road [2009]",
+    });
+  });
+
+  it("treats regex characters in literal rules as plain text", () => {
+    const rules = [rule("dots", { find: "...", replace: "…" })];
+
+    expect(applyScrobbleRules({ ...fields, title: "Wait... For It" }, rules, null).title).toBe("Wait… For It");
+    expect(applyScrobbleRules({ ...fields, title: "Wait For It" }, rules, null).title).toBe("Wait For It");
+  });
+
+  it("leaves a field as it was when a rule would empty it", () => {
+    const rules = [rule("untitled", { match: "regex", find: "^Untitled$", replace: "" })];
+
+    expect(applyScrobbleRules({ ...fields, title: "Untitled" }, rules, null).title).toBe("Untitled");
+  });
+
+  it("skips regex rules that do not compile", () => {
+    const rules = [rule("broken", { match: "regex", find: "(unclosed" }), rule("strip", { find: " (Remastered 2009)" })];
+
+    expect(applyScrobbleRules(fields, rules, null).title).toBe("Come Together");
+  });
+
+  it("skips regex rules that nest quantifiers", () => {
+    const rules = [rule("slow", { match: "regex", find: "(\\w+\\s?)+$", replace: "x" })];
+
+    expect(applyScrobbleRules(fields, rules, null)).toEqual(fields);
+  });
+
+  it("only applies release rules to their release", () => {
+    const rules = [rule("jam", { match: "regex", find: "^Untitled$", replace: "Side A Jam", releaseId: "42" })];
+    const untitled = { ...fields, title: "Untitled" };
+
+    expect(applyScrobbleRules(untitled, rules, "42").title).toBe("Side A Jam");
+    expect(applyScrobbleRules(untitled, rules, "7").title).toBe("Untitled");
+    expect(applyScrobbleRules(untitled, rules, null).title).toBe("Untitled");
+  });
+});
+
+describe("previewScrobbleRules evaluation order", () => {
+  it("runs rules in saved order, each seeing the previous rule's output", () => {
+    const rules = [
+      rule("strip", { find: " (Remastered 2009)" }),
+      rule("suffix", { match: "regex", find: "^Come Together$", replace: "Come Together (Live)" }),
+    ];
+
+    expect(previewScrobbleRules(fields, rules, null)).toEqual({
+      fields: { ...fields, title: "Come Together (Live)", album: fields.album },
+      appliedRuleIds: ["strip", "suffix"],
+    });
+
+    // Reversed, the second rule no longer matches when it runs first
+    expect(previewScrobbleRules(fields, [...rules].reverse(), null)).toMatchObject({
+      fields: { title: "Come Together" },
+      appliedRuleIds: ["strip"],
+    });
+  });
+
+  it("runs global rules before release rules, whatever order they were saved in", () => {
+    const rules = [
+      rule("release", { find: "Come Together", replace: "Come Together (Abbey Road)", releaseId: "42" }),
+      rule("global", { find: " (Remastered 2009)" }),
+    ];
+
+    expect(previewScrobbleRules(fields, rules, "42")).toMatchObject({
+      fields: { title: "Come Together (Abbey Road)" },
+      appliedRuleIds: ["global", "release"],
+    });
+  });
+
+  it("lists only the rules that changed something", () => {
+    const rules = [rule("miss", { find: "Something" }), rule("hit", { find: " (Remastered 2009)" })];
+
+    expect(previewScrobbleRules(fields, rules, null).appliedRuleIds).toEqual(["hit"]);
+  });
+});
+
+describe("canBacktrackCatastrophically", () => {
+  it.each([
+    "(a+)+",
+    "(a*)*b",
+    "(\\w+\\s?)*$",
+    "((ab)+c)+",
+    "(?:x{2,})+",
+    "(a+){3}",
+    "(a+)?$",
+    "(a|a)*",
+    "(a|aa)+$",
+    "(?:x|y){2,}",
+    "((a|b)c)*",
+  ])("flags %s", (pattern) => {
+    expect(canBacktrackCatastrophically(pattern)).toBe(true);
+  });
+
+  it.each([
+    "^Untitled$",
+    "\\s*\\(Remastered (\\d{4})\\)",
+    "(ab)+",
+    "[(+)]+",
+    "\\(a+\\)+",
+    "(a|b)?",
+    " \\((Remastered|Remaster)\\)$",
+    "[a|b]+",
+  ])(
+    "allows %s",
+    (pattern) => {
+      expect(canBacktrackCatastrophically(pattern)).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,159 @@
+import type { ScrobbleFields, ScrobbleRule, ScrobbleRuleField } from "../domain/scrobbleRule.js";
+
+export interface ScrobbleRulesPreview {
+  fields: ScrobbleFields;
+  /** Ids of the rules that changed a field, in the order they ran */
+  appliedRuleIds: string[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whether a quantifier (`*`, `+` or `{n,m}`) starts at `index`. */
+function isQuantifierAt(pattern: string, index: number): boolean {
+  const ch = pattern[index];
+  return ch === "*" || ch === "+" || (ch === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(index)));
+}
+
+interface GroupShape {
+  /** Something inside the group is quantified */
+  quantified: boolean;
+  /** The group, or a group inside it, has alternatives */
+  alternation: boolean;
+}
+
+/**
+ * Whether a regex has a shape known to backtrack exponentially on input
+ * that almost matches, so it is refused:
+ *
+ * - a quantified group that itself contains a quantifier, as in `(a+)+`,
+ *   `(\w*\s?)*` or `(a+)?`;
+ * - a repeated group with alternatives, as in `(a|a)*` or `(a|aa)+`.
+ */
+export function canBacktrackCatastrophically(pattern: string): boolean {
+  // One entry per open group
+  const groups: GroupShape[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const parent = groups[groups.length - 1];
+    if (ch === "\\") {
+      i++;
+    } else if (inClass) {
+      inClass = ch !== "]";
+    } else if (ch === "[") {
+      inClass = true;
+    } else if (ch === "(") {
+      groups.push({ quantified: false, alternation: false });
+    } else if (ch === "|") {
+      if (parent) {
+        parent.alternation = true;
+      }
+    } else if (ch === ")") {
+      const inner = groups.pop() ?? { quantified: false, alternation: false };
+      const repeated = isQuantifierAt(pattern, i + 1);
+      const quantified = repeated || pattern[i + 1] === "?";
+      if ((quantified && inner.quantified) || (repeated && inner.alternation)) {
+        return true;
+      }
+      const outer = groups[groups.length - 1];
+      if (outer) {
+        outer.quantified ||= quantified || inner.quantified;
+        outer.alternation ||= inner.alternation;
+      }
+    } else if (isQuantifierAt(pattern, i) && parent) {
+      parent.quantified = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * A rule's pattern, or null when a regex rule does not compile or could
+ * backtrack catastrophically.
+ */
+function toPattern(rule: ScrobbleRule): RegExp | null {
+  if (rule.match === "regex" && canBacktrackCatastrophically(rule.find)) {
+    return null;
+  }
+  try {
+    return new RegExp(rule.match === "regex" ? rule.find : escapeRegExp(rule.find), "g");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite one value. Whitespace left behind by stripped text is collapsed;
+ * a rule that would empty the value leaves it as it was.
+ */
+function rewrite(value: string, pattern: RegExp, rule: ScrobbleRule): string {
+  const replaced =
+    rule.match === "regex" ? value.replace(pattern, rule.replace) : value.replace(pattern, () => rule.replace);
+  if (replaced === value) {
+    return value;
+  }
+  const tidied = replaced.replace(/\s{2,}/g, " ").trim();
+  return tidied || value;
+}
+
+/**
+ * The rules that apply to a release, in evaluation order: global rules
+ * first, then the release's own, each in the order they were saved. Later
+ * rules see the output of earlier ones, so release rules can refine what
+ * global rules produced.
+ */
+function orderRules(rules: ScrobbleRule[], releaseId: string | null): ScrobbleRule[] {
+  return [
+    ...rules.filter((rule) => !rule.releaseId),
+    ...rules.filter((rule) => rule.releaseId !== undefined && rule.releaseId === releaseId),
+  ];
+}
+
+/**
+ * Run correction rules over scrobble fields and report which rules fired.
+ * Regex rules that do not compile or could backtrack catastrophically are
+ * skipped.
+ */
+export function previewScrobbleRules(
+  fields: ScrobbleFields,
+  rules: ScrobbleRule[],
+  releaseId: string | null
+): ScrobbleRulesPreview {
+  return orderRules(rules, releaseId).reduce<ScrobbleRulesPreview>(
+    (preview, rule) => {
+      const pattern = toPattern(rule);
+      if (!pattern || !rule.find) {
+        return preview;
+      }
+
+      const updated: ScrobbleFields = { ...preview.fields };
+      const targets = rule.fields.flatMap((field: ScrobbleRuleField): Array<keyof ScrobbleFields> =>
+        field === "artist" ? ["artist", "albumArtist"] : [field]
+      );
+      for (const target of targets) {
+        const value = updated[target];
+        if (value !== undefined) {
+          updated[target] = rewrite(value, pattern, rule);
+        }
+      }
+
+      const changed = targets.some((target) => updated[target] !== preview.fields[target]);
+      return changed ? { fields: updated, appliedRuleIds: [...preview.appliedRuleIds, rule.id] } : preview;
+    },
+    { fields, appliedRuleIds: [] }
+  );
+}
+
+/**
+ * Apply correction rules to the fields about to be sent to Last.fm.
+ */
+export function applyScrobbleRules(
+  fields: ScrobbleFields,
+  rules: ScrobbleRule[],
+  releaseId: string | null
+): ScrobbleFields {
+  return previewScrobbleRules(fields, rules, releaseId).fields;
+}
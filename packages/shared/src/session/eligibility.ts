@@ -1,57 +1,86 @@
 /**
  * Scrobble eligibility calculation
- * 
+ *
  * Last.fm's scrobbling guidelines:
  * - Track must be at least 30 seconds long
  * - Must be played for at least half its duration, or 4 minutes (whichever occurs earlier)
- * 
- * For configurable threshold: use percentage of duration when known,
- * fallback to 30 seconds minimum when unknown
+ *
+ * A ScrobblePolicy captures these rules with a configurable percentage.
+ * When the duration is unknown, the minimum track length doubles as the
+ * required play time.
  */
 
-const MINIMUM_SCROBBLE_DURATION_MS = 30_000; // 30 seconds
+/**
+ * Rules deciding when a playing track may be scrobbled.
+ */
+export interface ScrobblePolicy {
+  /** Percentage of track duration that must be played (0-100) */
+  thresholdPercent: number;
+  /** Play time after which any track is eligible, however long it is (milliseconds) */
+  maxThresholdMs: number;
+  /** Tracks shorter than this are never scrobbled (milliseconds) */
+  minTrackDurationMs: number;
+}
+
+export const DEFAULT_SCROBBLE_POLICY: ScrobblePolicy = {
+  thresholdPercent: 50,
+  maxThresholdMs: 240_000, // 4 minutes
+  minTrackDurationMs: 30_000, // 30 seconds
+};
+
+/**
+ * Build a policy from the user's threshold percentage, keeping Last.fm's
+ * 4 minute cap and 30 second minimum length.
+ */
+export function createScrobblePolicy(thresholdPercent: number): ScrobblePolicy {
+  return { ...DEFAULT_SCROBBLE_POLICY, thresholdPercent };
+}
 
 /**
  * Check if a track is eligible to scrobble based on elapsed time
- * 
- * @param elapsedMs - How long the track has been playing (milliseconds)
+ *
+ * @param elapsedMs - Time since the track started (milliseconds)
  * @param durationMs - Track duration (milliseconds), or null if unknown
- * @param thresholdPercent - Percentage of track duration required (0-100)
+ * @param policy - Scrobble rules to apply
+ * @param pausedMs - Part of elapsedMs the track spent paused (milliseconds)
  * @returns true if track has been played long enough to scrobble
  */
 export function isEligibleToScrobble(
   elapsedMs: number,
   durationMs: number | null,
-  thresholdPercent: number
+  policy: ScrobblePolicy,
+  pausedMs = 0
 ): boolean {
   if (elapsedMs < 0) {
     return false;
   }
 
-  // If duration is known, use percentage threshold
-  if (durationMs !== null && durationMs > 0) {
-    const thresholdMs = (durationMs * thresholdPercent) / 100;
-    return elapsedMs >= thresholdMs;
+  const thresholdMs = getScrobbleThresholdMs(durationMs, policy);
+  if (thresholdMs === null) {
+    return false;
   }
 
-  // If duration is unknown, fall back to minimum time threshold
-  return elapsedMs >= MINIMUM_SCROBBLE_DURATION_MS;
+  return elapsedMs - pausedMs >= thresholdMs;
 }
 
 /**
- * Calculate when a track becomes eligible to scrobble
- * 
+ * Calculate how long a track must play before it is eligible to scrobble
+ *
  * @param durationMs - Track duration (milliseconds), or null if unknown
- * @param thresholdPercent - Percentage of track duration required (0-100)
- * @returns Milliseconds until track is eligible, or null if unknown
+ * @param policy - Scrobble rules to apply
+ * @returns Required play time in milliseconds, or null if the track is too
+ *   short to ever be scrobbled
  */
 export function getScrobbleThresholdMs(
   durationMs: number | null,
-  thresholdPercent: number
+  policy: ScrobblePolicy
 ): number | null {
   if (durationMs !== null && durationMs > 0) {
-    return (durationMs * thresholdPercent) / 100;
+    if (durationMs < policy.minTrackDurationMs) {
+      return null;
+    }
+    return Math.min((durationMs * policy.thresholdPercent) / 100, policy.maxThresholdMs);
   }
   // If duration unknown, use minimum threshold
-  return MINIMUM_SCROBBLE_DURATION_MS;
+  return policy.minTrackDurationMs;
 }
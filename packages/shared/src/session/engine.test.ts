@@ -1,6 +1,20 @@
 import { describe, expect, it } from "vitest";
 import type { NormalizedRelease } from "../domain/release.js";
-import { advanceSession, createSession, endSession, pauseSession, resumeSession } from "./engine.js";
+import {
+  advanceSession,
+  createSession,
+  endSession,
+  flipSide,
+  pauseSession,
+  reanchorSideTrack,
+  resumeSession,
+  recordSessionEvent,
+  rewindSession,
+  setScrobbleResponse,
+  setScrobbleRetryStatus,
+  setTrackDuration,
+  skipTrack,
+} from "./engine.js";
 
 const release: NormalizedRelease = {
   id: "123",
@@ -50,7 +64,7 @@ describe("session engine", () => {
       startedAt: 1000,
     });
 
-    const paused = pauseSession(session);
+    const paused = pauseSession(session, 1500);
     expect(paused.state).toBe("paused");
 
     const resumed = resumeSession(paused, 1200);
@@ -73,6 +87,19 @@ describe("session engine", () => {
     expect(advanced.tracks[1]?.startedAt).toBe(1600);
   });
 
+  it("starts the next track after the needle-drop gap", () => {
+    const session = createSession({
+      sessionId: "sess-gap",
+      userId: "user-gap",
+      release,
+      startedAt: 1000,
+      trackGapSec: 4,
+    });
+
+    expect(advanceSession(session, 181_000).tracks[1]?.startedAt).toBe(185_000);
+    expect(skipTrack(session, 60_000).tracks[1]?.startedAt).toBe(64_000);
+  });
+
   it("ends the session after the last track", () => {
     const session = createSession({
       sessionId: "sess-4",
@@ -160,8 +187,8 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const paused1 = pauseSession(session);
-      const paused2 = pauseSession(paused1);
+      const paused1 = pauseSession(session, 1500);
+      const paused2 = pauseSession(paused1, 1500);
 
       expect(paused2.state).toBe("paused");
       expect(paused2.tracks).toEqual(paused1.tracks);
@@ -191,13 +218,13 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const paused1 = pauseSession(session);
+      const paused1 = pauseSession(session, 1500);
       expect(paused1.state).toBe("paused");
 
       const resumed1 = resumeSession(paused1, 1200);
       expect(resumed1.state).toBe("running");
 
-      const paused2 = pauseSession(resumed1);
+      const paused2 = pauseSession(resumed1, 1500);
       expect(paused2.state).toBe("paused");
 
       const resumed2 = resumeSession(paused2, 1400);
@@ -276,7 +303,7 @@ describe("session engine", () => {
 
       expect(session.tracks[0]?.startedAt).toBe(5000);
 
-      const paused = pauseSession(session);
+      const paused = pauseSession(session, 1500);
       const resumed = resumeSession(paused, 6000);
 
       // Original start time should be preserved
@@ -347,7 +374,7 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const paused = pauseSession(session);
+      const paused = pauseSession(session, 1500);
 
       expect(paused.state).toBe("paused");
       expect(paused.currentIndex).toBe(0);
@@ -383,7 +410,7 @@ describe("session engine", () => {
       const advanced = advanceSession(session, 1200);
       expect(advanced.tracks[0]?.scrobbledAt).toBe(1200);
 
-      const paused = pauseSession(advanced);
+      const paused = pauseSession(advanced, 1500);
       const resumed = resumeSession(paused, 1500);
 
       expect(resumed.tracks[0]?.scrobbledAt).toBe(1200);
@@ -415,7 +442,7 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const paused1 = pauseSession(session1);
+      const paused1 = pauseSession(session1, 1500);
 
       // Create second session
       const session2 = createSession({
@@ -444,7 +471,7 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const ended = endSession(session);
+      const ended = endSession(session, { endedAt: 2000 });
       expect(ended.state).toBe("ended");
     });
 
@@ -456,8 +483,8 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const paused = pauseSession(session);
-      const ended = endSession(paused);
+      const paused = pauseSession(session, 1500);
+      const ended = endSession(paused, { endedAt: 2000 });
       expect(ended.state).toBe("ended");
     });
 
@@ -469,8 +496,8 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const ended1 = endSession(session);
-      const ended2 = endSession(ended1);
+      const ended1 = endSession(session, { endedAt: 2000 });
+      const ended2 = endSession(ended1, { endedAt: 2000 });
       expect(ended2.state).toBe("ended");
       expect(ended2).toBe(ended1); // same reference returned
     });
@@ -484,7 +511,7 @@ describe("session engine", () => {
       });
 
       const advanced = advanceSession(session, 1300);
-      const ended = endSession(advanced);
+      const ended = endSession(advanced, { endedAt: 2000 });
 
       expect(ended.id).toBe("end-data");
       expect(ended.userId).toBe("user-end4");
@@ -501,9 +528,765 @@ describe("session engine", () => {
         startedAt: 1000,
       });
 
-      const ended = endSession(session);
+      const ended = endSession(session, { endedAt: 2000 });
       expect(ended.tracks[0]?.status).toBe("pending");
       expect(ended.tracks[0]?.scrobbledAt).toBeNull();
     });
+
+    it("leaves tracks pending in discard mode", () => {
+      const session = createSession({
+        sessionId: "end-discard",
+        userId: "user-end6",
+        release,
+        startedAt: 1000,
+      });
+
+      const ended = endSession(session, { endMode: "discard", endedAt: 5000 });
+      expect(ended.state).toBe("ended");
+      expect(ended.tracks.map((track) => track.status)).toEqual(["pending", "pending"]);
+    });
+
+    it("marks current and remaining tracks skipped in skip-remaining mode", () => {
+      const session = createSession({
+        sessionId: "end-skip",
+        userId: "user-end7",
+        release,
+        startedAt: 1000,
+      });
+
+      const ended = endSession(session, { endMode: "skip-remaining", endedAt: 5000 });
+      expect(ended.state).toBe("ended");
+      expect(ended.tracks.map((track) => track.status)).toEqual(["skipped", "skipped"]);
+      expect(ended.tracks[0]?.scrobbledAt).toBeNull();
+    });
+
+    it("scrobbles remaining tracks back to back from the current track start", () => {
+      const session = createSession({
+        sessionId: "end-scrobble",
+        userId: "user-end8",
+        release,
+        startedAt: 1000,
+      });
+
+      const endedAt = 1000 + 380_000 + 5000;
+      const ended = endSession(session, { endMode: "scrobble-remaining", endedAt });
+
+      expect(ended.state).toBe("ended");
+      expect(ended.tracks[0]).toMatchObject({ status: "scrobbled", startedAt: 1000, scrobbledAt: endedAt });
+      expect(ended.tracks[1]).toMatchObject({ status: "scrobbled", startedAt: 181_000, scrobbledAt: endedAt });
+    });
+
+    it("shifts backfilled timestamps so none lie after the end time", () => {
+      const session = createSession({
+        sessionId: "end-scrobble-early",
+        userId: "user-end9",
+        release,
+        startedAt: 1_000_000,
+      });
+
+      const ended = endSession(session, { endMode: "scrobble-remaining", endedAt: 1_100_000 });
+
+      expect(ended.tracks[0]?.startedAt).toBe(720_000);
+      expect(ended.tracks[1]?.startedAt).toBe(900_000);
+    });
+
+    it("keeps already scrobbled tracks untouched when scrobbling remaining", () => {
+      const session = createSession({
+        sessionId: "end-scrobble-partial",
+        userId: "user-end10",
+        release,
+        startedAt: 1000,
+      });
+
+      const advanced = advanceSession(session, 181_000);
+      const ended = endSession(advanced, { endMode: "scrobble-remaining", endedAt: 400_000 });
+
+      expect(ended.tracks[0]).toEqual(advanced.tracks[0]);
+      expect(ended.tracks[1]).toMatchObject({ status: "scrobbled", startedAt: 181_000, scrobbledAt: 400_000 });
+    });
+
+    it("starts the backfill after a current track that was already scrobbled", () => {
+      const session = createSession({
+        sessionId: "end-scrobble-after-current",
+        userId: "user-end12",
+        release,
+        startedAt: 1000,
+      });
+      session.tracks[0] = { ...session.tracks[0]!, status: "scrobbled", scrobbledAt: 91_000 };
+
+      const ended = endSession(session, { endMode: "scrobble-remaining", endedAt: 121_000 });
+
+      expect(ended.tracks[0]).toEqual(session.tracks[0]);
+      expect(ended.tracks[1]).toMatchObject({ status: "scrobbled", startedAt: 121_000 });
+    });
+
+    it("times remaining tracks without a duration by the session's default length", () => {
+      const session = createSession({
+        sessionId: "end-scrobble-default",
+        userId: "user-end13",
+        release: { ...release, tracks: release.tracks.map((track) => ({ ...track, durationSec: null })) },
+        startedAt: 1000,
+        defaultTrackSec: 240,
+      });
+
+      const ended = endSession(session, { endMode: "scrobble-remaining", endedAt: 600_000 });
+
+      expect(ended.tracks[0]?.startedAt).toBe(1000);
+      expect(ended.tracks[1]?.startedAt).toBe(241_000);
+    });
+
+    it("skips remaining tracks too short to scrobble", () => {
+      const session = createSession({
+        sessionId: "end-scrobble-short",
+        userId: "user-end11",
+        release: {
+          ...release,
+          tracks: release.tracks.map((track) =>
+            track.index === 0 ? { ...track, durationSec: 20 } : track
+          ),
+        },
+        startedAt: 1000,
+      });
+
+      const ended = endSession(session, { endMode: "scrobble-remaining", endedAt: 300_000 });
+
+      expect(ended.tracks[0]).toMatchObject({ status: "skipped", startedAt: 1000, scrobbledAt: null });
+      expect(ended.tracks[1]).toMatchObject({ status: "scrobbled", startedAt: 21_000 });
+    });
+  });
+
+  describe("skipTrack", () => {
+    it("marks the current track skipped and moves on", () => {
+      const session = createSession({
+        sessionId: "skip-1",
+        userId: "user-skip",
+        release,
+        startedAt: 1000,
+      });
+
+      const skipped = skipTrack(session, 1300);
+
+      expect(skipped.currentIndex).toBe(1);
+      expect(skipped.tracks[0]?.status).toBe("skipped");
+      expect(skipped.tracks[0]?.scrobbledAt).toBeNull();
+      expect(skipped.tracks[1]?.startedAt).toBe(1300);
+      expect(skipped.state).toBe("running");
+    });
+
+    it("ends the session when skipping the last track", () => {
+      const session = createSession({
+        sessionId: "skip-2",
+        userId: "user-skip",
+        release,
+        startedAt: 1000,
+      });
+
+      const skipped = skipTrack(advanceSession(session, 1300), 1500);
+
+      expect(skipped.state).toBe("ended");
+      expect(skipped.tracks[1]?.status).toBe("skipped");
+    });
+
+    it("keeps an already scrobbled track scrobbled", () => {
+      const session = createSession({
+        sessionId: "skip-3",
+        userId: "user-skip",
+        release,
+        startedAt: 1000,
+      });
+      session.tracks[0] = { ...session.tracks[0]!, status: "scrobbled", scrobbledAt: 1200 };
+
+      const skipped = skipTrack(session, 1300);
+
+      expect(skipped.tracks[0]?.status).toBe("scrobbled");
+      expect(skipped.tracks[0]?.scrobbledAt).toBe(1200);
+      expect(skipped.currentIndex).toBe(1);
+    });
+
+    it("ends an empty session", () => {
+      const session = createSession({
+        sessionId: "skip-4",
+        userId: "user-skip",
+        release: { ...release, tracks: [] },
+        startedAt: 1000,
+      });
+
+      expect(skipTrack(session, 1100).state).toBe("ended");
+    });
+  });
+
+  describe("rewindSession", () => {
+    it("moves back to the previous track and restarts it", () => {
+      const session = createSession({
+        sessionId: "rewind-1",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const advanced = advanceSession(session, 1600);
+      const rewound = rewindSession(advanced, 1700);
+
+      expect(rewound.currentIndex).toBe(0);
+      expect(rewound.state).toBe("running");
+      expect(rewound.tracks[0]?.startedAt).toBe(1700);
+    });
+
+    it("keeps the scrobbled status of the track it returns to", () => {
+      const session = createSession({
+        sessionId: "rewind-2",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const advanced = advanceSession(session, 1600);
+      const rewound = rewindSession(advanced, 1700);
+
+      expect(rewound.tracks[0]?.status).toBe("scrobbled");
+      expect(rewound.tracks[0]?.scrobbledAt).toBe(1600);
+    });
+
+    it("clears the start of a pending track it leaves", () => {
+      const session = createSession({
+        sessionId: "rewind-3",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const advanced = advanceSession(session, 1600);
+      const rewound = rewindSession(advanced, 1700);
+
+      expect(rewound.tracks[1]?.status).toBe("pending");
+      expect(rewound.tracks[1]?.startedAt).toBeNull();
+
+      const readvanced = advanceSession(rewound, 2000);
+      expect(readvanced.tracks[1]?.startedAt).toBe(2000);
+    });
+
+    it("keeps an already scrobbled track it leaves scrobbled", () => {
+      const session = createSession({
+        sessionId: "rewind-4",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const advanced = advanceSession(session, 1600);
+      advanced.tracks[1] = { ...advanced.tracks[1]!, status: "scrobbled", scrobbledAt: 1700 };
+
+      const rewound = rewindSession(advanced, 1800);
+
+      expect(rewound.tracks[1]?.status).toBe("scrobbled");
+      expect(rewound.tracks[1]?.scrobbledAt).toBe(1700);
+    });
+
+    it("does nothing on the first track", () => {
+      const session = createSession({
+        sessionId: "rewind-5",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      expect(rewindSession(session, 1200)).toBe(session);
+    });
+
+    it("does nothing on an ended session", () => {
+      const session = createSession({
+        sessionId: "rewind-6",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const ended = endSession(advanceSession(session, 1600), { endedAt: 2000 });
+      expect(rewindSession(ended, 1700)).toBe(ended);
+    });
+
+    it("preserves paused state", () => {
+      const session = createSession({
+        sessionId: "rewind-7",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const paused = pauseSession(advanceSession(session, 1600), 1700);
+      const rewound = rewindSession(paused, 1700);
+
+      expect(rewound.state).toBe("paused");
+      expect(rewound.currentIndex).toBe(0);
+    });
+
+    it("keeps a restarted track paused until the session resumes", () => {
+      const session = createSession({
+        sessionId: "rewind-8",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const paused = pauseSession(advanceSession(session, 1600), 1700);
+      const rewound = rewindSession(paused, 1800);
+
+      expect(rewound.tracks[0]?.startedAt).toBe(1800);
+      expect(rewound.tracks[0]?.pauses).toEqual([{ pausedAt: 1800, resumedAt: null }]);
+
+      const resumed = resumeSession(rewound, 5000);
+      expect(resumed.tracks[0]?.pauses).toEqual([{ pausedAt: 1800, resumedAt: 5000 }]);
+    });
+
+    it("returns a skipped track to pending so it is scrobbled when replayed", () => {
+      const session = createSession({
+        sessionId: "rewind-9",
+        userId: "user-rewind",
+        release,
+        startedAt: 1000,
+      });
+
+      const rewound = rewindSession(skipTrack(session, 1600), 1700);
+
+      expect(rewound.tracks[0]?.status).toBe("pending");
+      expect(advanceSession(rewound, 2000).tracks[0]).toMatchObject({ status: "scrobbled", scrobbledAt: 2000 });
+    });
+  });
+
+  describe("setTrackDuration", () => {
+    it("overrides the duration of a single track", () => {
+      const session = createSession({
+        sessionId: "duration-one",
+        userId: "user-duration",
+        release,
+        startedAt: 1000,
+      });
+
+      const updated = setTrackDuration(session, 1, 240, 2000);
+
+      expect(updated.release.tracks[0]?.durationSec).toBe(180);
+      expect(updated.release.tracks[1]?.durationSec).toBe(240);
+      expect(session.release.tracks[1]?.durationSec).toBe(200);
+    });
+
+    it("applies the duration to every track with scope all", () => {
+      const session = createSession({
+        sessionId: "duration-all",
+        userId: "user-duration2",
+        release,
+        startedAt: 1000,
+      });
+
+      const updated = setTrackDuration(session, 0, 300, 2000, "all");
+
+      expect(updated.release.tracks.map((track) => track.durationSec)).toEqual([300, 300]);
+    });
+
+    it("keeps playback state untouched", () => {
+      const session = createSession({
+        sessionId: "duration-state",
+        userId: "user-duration3",
+        release,
+        startedAt: 1000,
+      });
+
+      const updated = setTrackDuration(session, 0, 90, 2000);
+
+      expect(updated.tracks).toEqual(session.tracks);
+      expect(updated.currentIndex).toBe(0);
+      expect(updated.state).toBe("running");
+    });
+
+    it("returns the session unchanged for an unknown track", () => {
+      const session = createSession({
+        sessionId: "duration-missing",
+        userId: "user-duration4",
+        release,
+        startedAt: 1000,
+      });
+
+      expect(setTrackDuration(session, 5, 90, 2000)).toBe(session);
+    });
+
+    it("returns the session unchanged once ended", () => {
+      const session = endSession(
+        createSession({
+          sessionId: "duration-ended",
+          userId: "user-duration5",
+          release,
+          startedAt: 1000,
+        }),
+        { endedAt: 2000 }
+      );
+
+      expect(setTrackDuration(session, 0, 90, 2000)).toBe(session);
+    });
+  });
+
+  describe("setScrobbleRetryStatus", () => {
+    it("clears the scrobble time while a track is retried", () => {
+      const session = advanceSession(
+        createSession({ sessionId: "retry-queued", userId: "user-retry", release, startedAt: 1000 }),
+        200_000
+      );
+
+      const updated = setScrobbleRetryStatus(session, 0, "retrying", 200_000);
+
+      expect(updated.tracks[0]).toMatchObject({ status: "retrying", scrobbledAt: null });
+      expect(updated.currentIndex).toBe(1);
+    });
+
+    it("records when a retry is accepted, even after the session ended", () => {
+      const session = endSession(
+        setScrobbleRetryStatus(
+          advanceSession(
+            createSession({ sessionId: "retry-accepted", userId: "user-retry2", release, startedAt: 1000 }),
+            200_000
+          ),
+          0,
+          "failed",
+          200_000
+        ),
+        { endedAt: 300_000 }
+      );
+
+      const updated = setScrobbleRetryStatus(session, 0, "scrobbled", 400_000);
+
+      expect(updated.tracks[0]).toMatchObject({ status: "scrobbled", scrobbledAt: 400_000 });
+      expect(updated.state).toBe("ended");
+    });
+
+    it("returns the session unchanged for an unknown track", () => {
+      const session = createSession({ sessionId: "retry-missing", userId: "user-retry3", release, startedAt: 1000 });
+
+      expect(setScrobbleRetryStatus(session, 5, "failed", 2000)).toBe(session);
+    });
+  });
+
+  describe("setScrobbleResponse", () => {
+    it("keeps Last.fm's response on the track", () => {
+      const session = createSession({ sessionId: "response", userId: "user-response", release, startedAt: 1000 });
+      const response = {
+        accepted: false,
+        ignoredReason: "timestamp-too-old" as const,
+        ignoredMessage: "Timestamp was too old",
+        corrected: { artist: null, track: null, album: null },
+      };
+
+      const updated = setScrobbleResponse(session, 0, response);
+
+      expect(updated.tracks[0]?.scrobbleResponse).toEqual(response);
+      expect(updated.tracks[0]?.status).toBe(session.tracks[0]?.status);
+    });
+
+    it("returns the session unchanged for an unknown track", () => {
+      const session = createSession({ sessionId: "response-missing", userId: "user-response2", release, startedAt: 1000 });
+
+      expect(
+        setScrobbleResponse(session, 5, {
+          accepted: true,
+          ignoredReason: null,
+          ignoredMessage: null,
+          corrected: { artist: null, track: null, album: null },
+        })
+      ).toBe(session);
+    });
+  });
+
+  describe("event log", () => {
+    it("records a start event when the session is created", () => {
+      const session = createSession({
+        sessionId: "events-start",
+        userId: "user-events",
+        release,
+        startedAt: 1000,
+      });
+
+      expect(session.events).toEqual([{ type: "start", at: 1000 }]);
+    });
+
+    it("appends an event for each transition in order", () => {
+      const session = createSession({
+        sessionId: "events-flow",
+        userId: "user-events2",
+        release,
+        startedAt: 1000,
+      });
+
+      const paused = pauseSession(session, 2000);
+      const resumed = resumeSession(paused, 3000);
+      const skipped = skipTrack(resumed, 4000);
+      const rewound = rewindSession(skipped, 5000);
+      const edited = setTrackDuration(rewound, 0, 240, 6000);
+      const advanced = advanceSession(edited, 7000);
+      const ended = endSession(advanced, { endedAt: 8000, endMode: "skip-remaining" });
+
+      expect(ended.events).toEqual([
+        { type: "start", at: 1000 },
+        { type: "pause", at: 2000, trackIndex: 0 },
+        { type: "resume", at: 3000, trackIndex: 0 },
+        { type: "skip", at: 4000, fromIndex: 0, toIndex: 1 },
+        { type: "prev", at: 5000, fromIndex: 1, toIndex: 0 },
+        { type: "duration-edit", at: 6000, trackIndex: 0, durationSec: 240, scope: "track" },
+        { type: "next", at: 7000, fromIndex: 0, toIndex: 1 },
+        { type: "end", at: 8000, endMode: "skip-remaining" },
+      ]);
+    });
+
+    it("records a null target when advancing past the last track", () => {
+      const session = createSession({
+        sessionId: "events-last",
+        userId: "user-events3",
+        release,
+        startedAt: 1000,
+      });
+
+      const ended = advanceSession(advanceSession(session, 2000), 3000);
+
+      expect(ended.events.at(-1)).toEqual({ type: "next", at: 3000, fromIndex: 1, toIndex: null });
+    });
+
+    it("does not record no-op transitions", () => {
+      const session = createSession({
+        sessionId: "events-noop",
+        userId: "user-events4",
+        release,
+        startedAt: 1000,
+      });
+
+      const paused = pauseSession(session, 2000);
+      expect(pauseSession(paused, 2500).events).toHaveLength(2);
+      expect(resumeSession(session, 2500).events).toHaveLength(1);
+      expect(rewindSession(session, 2500).events).toHaveLength(1);
+    });
+
+    it("appends arbitrary events without touching other state", () => {
+      const session = createSession({
+        sessionId: "events-record",
+        userId: "user-events5",
+        release,
+        startedAt: 1000,
+      });
+
+      const recorded = recordSessionEvent(session, {
+        type: "scrobble-result",
+        at: 2000,
+        trackIndex: 0,
+        ok: false,
+        message: "Invalid session key",
+      });
+
+      expect(recorded.events).toHaveLength(2);
+      expect(recorded.tracks).toEqual(session.tracks);
+      expect(session.events).toHaveLength(1);
+    });
+  });
+
+  describe("pause intervals", () => {
+    it("opens a pause on the current track and closes it on resume", () => {
+      const session = createSession({
+        sessionId: "pause-interval",
+        userId: "user-pause",
+        release,
+        startedAt: 1000,
+      });
+
+      const paused = pauseSession(session, 31_000);
+      expect(paused.tracks[0]?.pauses).toEqual([{ pausedAt: 31_000, resumedAt: null }]);
+
+      const resumed = resumeSession(paused, 1_231_000);
+      expect(resumed.tracks[0]?.pauses).toEqual([{ pausedAt: 31_000, resumedAt: 1_231_000 }]);
+      expect(resumed.tracks[0]?.startedAt).toBe(1000);
+    });
+
+    it("closes an open pause when advancing from a paused track", () => {
+      const session = createSession({
+        sessionId: "pause-advance",
+        userId: "user-pause2",
+        release,
+        startedAt: 1000,
+      });
+
+      const advanced = advanceSession(pauseSession(session, 31_000), 60_000);
+      expect(advanced.tracks[0]?.pauses).toEqual([{ pausedAt: 31_000, resumedAt: 60_000 }]);
+      expect(advanced.tracks[1]?.pauses).toEqual([]);
+    });
+
+    it("clears pauses on tracks restarted by a rewind", () => {
+      const session = createSession({
+        sessionId: "pause-rewind",
+        userId: "user-pause3",
+        release,
+        startedAt: 1000,
+      });
+
+      const onSecond = advanceSession(pauseSession(session, 31_000), 60_000);
+      const paused = resumeSession(pauseSession(onSecond, 70_000), 80_000);
+      const rewound = rewindSession(paused, 90_000);
+
+      expect(rewound.tracks[0]?.pauses).toEqual([]);
+      expect(rewound.tracks[1]?.pauses).toEqual([]);
+    });
+
+    it("shifts backfilled scrobble timestamps by the current track's pauses", () => {
+      const session = createSession({
+        sessionId: "pause-end",
+        userId: "user-pause4",
+        release,
+        startedAt: 1000,
+      });
+
+      const resumed = resumeSession(pauseSession(session, 31_000), 1_231_000);
+      const endedAt = 2_000_000;
+      const ended = endSession(resumed, { endMode: "scrobble-remaining", endedAt });
+
+      expect(ended.tracks[0]?.startedAt).toBe(1_201_000);
+      expect(ended.tracks[1]?.startedAt).toBe(1_381_000);
+    });
+  });
+
+  describe("side mode", () => {
+    const sideRelease: NormalizedRelease = {
+      ...release,
+      tracks: [
+        ...release.tracks,
+        { index: 2, position: "A3", title: "Third", artist: "Test Artist", durationSec: 220, side: "A" },
+        { index: 3, position: "B1", title: "Fourth", artist: "Test Artist", durationSec: 240, side: "B" },
+      ],
+    };
+
+    function createSideSession() {
+      return createSession({
+        sessionId: "side",
+        userId: "user-side",
+        release: sideRelease,
+        startedAt: 0,
+        timerMode: "side",
+      });
+    }
+
+    it("starts with each track's length inferred", () => {
+      const session = createSideSession();
+
+      expect(session.timerMode).toBe("side");
+      expect(session.sideDurationsMs).toEqual([180_000, 200_000, 220_000, 240_000]);
+    });
+
+    it("shares the side time left across the rest of the side when the track changes", () => {
+      const session = advanceSession(createSideSession(), 180_000);
+
+      // The second track changed 100s early, leaving 520s of side A for the third
+      const reanchored = reanchorSideTrack(session, 280_000);
+
+      expect(reanchored.sideDurationsMs).toEqual([180_000, 100_000, 320_000, 240_000]);
+      expect(reanchored.currentIndex).toBe(1);
+      expect(reanchored.events.at(-1)).toEqual({
+        type: "track-changed",
+        at: 280_000,
+        trackIndex: 1,
+        playedMs: 100_000,
+      });
+    });
+
+    it("keeps the remaining lengths once the side has overrun", () => {
+      const session = advanceSession(createSideSession(), 180_000);
+
+      const reanchored = reanchorSideTrack(session, 700_000);
+
+      expect(reanchored.sideDurationsMs).toEqual([180_000, 520_000, 220_000, 240_000]);
+    });
+
+    it("leaves the needle-drop gap to the caller", () => {
+      const session = createSession({
+        sessionId: "side-gap",
+        userId: "user-side",
+        release: sideRelease,
+        startedAt: 0,
+        timerMode: "side",
+        trackGapSec: 4,
+      });
+
+      expect(advanceSession(session, 184_000).tracks[1]?.startedAt).toBe(184_000);
+    });
+
+    it("leaves sessions in track mode unchanged", () => {
+      const session = createSession({ sessionId: "track", userId: "user-track", release, startedAt: 0 });
+
+      expect(reanchorSideTrack(session, 60_000)).toBe(session);
+    });
+
+    it("infers the lengths of the current track and those to come after a duration edit", () => {
+      const session = advanceSession(createSideSession(), 180_000);
+
+      const updated = setTrackDuration(session, 0, 300, 200_000, "all");
+
+      expect(updated.sideDurationsMs).toEqual([180_000, 300_000, 300_000, 300_000]);
+    });
+
+    it("times the current track by its edited length", () => {
+      const session = advanceSession(createSideSession(), 180_000);
+
+      const updated = setTrackDuration(session, 1, 150, 200_000);
+
+      expect(updated.sideDurationsMs?.[1]).toBe(150_000);
+    });
+  });
+
+  describe("side flips", () => {
+    const flipRelease: NormalizedRelease = {
+      ...release,
+      tracks: [
+        ...release.tracks,
+        { index: 2, position: "B1", title: "Third", artist: "Test Artist", durationSec: 240, side: "B" },
+      ],
+    };
+
+    function createFlipSession() {
+      return createSession({
+        sessionId: "flip",
+        userId: "user-flip",
+        release: flipRelease,
+        startedAt: 0,
+        pauseAtSideEnd: true,
+      });
+    }
+
+    it("waits for a flip after the last track of a side", () => {
+      const session = advanceSession(advanceSession(createFlipSession(), 180_000), 380_000);
+
+      expect(session.state).toBe("awaiting-flip");
+      expect(session.currentIndex).toBe(2);
+      expect(session.tracks[1]?.status).toBe("scrobbled");
+      expect(session.tracks[2]?.startedAt).toBeNull();
+    });
+
+    it("starts the next side when flipped", () => {
+      const waiting = advanceSession(advanceSession(createFlipSession(), 180_000), 380_000);
+
+      const flipped = flipSide(waiting, 500_000);
+
+      expect(flipped.state).toBe("running");
+      expect(flipped.tracks[2]?.startedAt).toBe(500_000);
+      expect(flipped.events.at(-1)).toEqual({ type: "flip", at: 500_000, trackIndex: 2 });
+      expect(resumeSession(waiting, 500_000)).toEqual(flipped);
+    });
+
+    it("returns to the side that was playing on rewind", () => {
+      const waiting = advanceSession(advanceSession(createFlipSession(), 180_000), 380_000);
+
+      const rewound = rewindSession(waiting, 400_000);
+
+      expect(rewound.state).toBe("running");
+      expect(rewound.currentIndex).toBe(1);
+    });
+
+    it("plays straight through when not pausing at side ends", () => {
+      const session = createSession({ sessionId: "flip", userId: "user-flip", release: flipRelease, startedAt: 0 });
+
+      const advanced = advanceSession(advanceSession(session, 180_000), 380_000);
+
+      expect(advanced.state).toBe("running");
+      expect(advanced.tracks[2]?.startedAt).toBe(380_000);
+    });
   });
 });
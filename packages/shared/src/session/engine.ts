@@ -1,19 +1,51 @@
 import type { NormalizedRelease } from "../domain/release.js";
-import type { Session, SessionTrackState } from "../domain/session.js";
+import type {
+  ScrobbleResponse,
+  Session,
+  SessionDurationScope,
+  SessionEndMode,
+  SessionEvent,
+  SessionTimerMode,
+  SessionTrackState,
+} from "../domain/session.js";
+import {
+  DEFAULT_SCROBBLE_POLICY,
+  getScrobbleThresholdMs,
+  type ScrobblePolicy,
+} from "./eligibility.js";
+import {
+  DEFAULT_TRACK_SEC,
+  getSessionTrackDurationMs,
+  getSideTrackIndexes,
+  inferSideDurationsMs,
+  isSideEnd,
+} from "./side.js";
+import { getPlayedMs, getScrobbleStartedAt } from "./timing.js";
 
 interface CreateSessionInput {
   sessionId: string;
   userId: string;
   release: NormalizedRelease;
   startedAt: number;
+  /** Track mode unless given */
+  timerMode?: SessionTimerMode | undefined;
+  /** Wait for a flip after each side */
+  pauseAtSideEnd?: boolean | undefined;
+  /** Length assumed for tracks without a duration */
+  defaultTrackSec?: number | undefined;
+  /** Gap between one track ending and the next starting */
+  trackGapSec?: number | undefined;
 }
 
 export function createSession(input: CreateSessionInput): Session {
+  const defaultTrackMs = input.defaultTrackSec ? input.defaultTrackSec * 1000 : undefined;
+
   const tracks: SessionTrackState[] = input.release.tracks.map((track) => ({
     index: track.index,
     startedAt: null,
     status: "pending" as const,
     scrobbledAt: null,
+    pauses: [],
   }));
 
   // Set startedAt for first track if it exists
@@ -29,74 +61,417 @@ export function createSession(input: CreateSessionInput): Session {
     currentIndex: 0,
     startedAt: input.startedAt,
     tracks,
+    events: [{ type: "start", at: input.startedAt }],
+    version: 0,
+    ...(input.pauseAtSideEnd ? { pauseAtSideEnd: true } : {}),
+    ...(defaultTrackMs ? { defaultTrackMs } : {}),
+    ...(input.trackGapSec ? { trackGapMs: input.trackGapSec * 1000 } : {}),
+    ...(input.timerMode === "side"
+      ? { timerMode: "side" as const, sideDurationsMs: inferSideDurationsMs(input.release, defaultTrackMs) }
+      : {}),
   };
 }
 
-export function pauseSession(session: Session): Session {
+/**
+ * Close the track's open pause, if any, at `resumedAt`.
+ */
+function closePause(track: SessionTrackState, resumedAt: number): SessionTrackState {
+  if (!track.pauses.some((pause) => pause.resumedAt === null)) {
+    return track;
+  }
+  return {
+    ...track,
+    pauses: track.pauses.map((pause) =>
+      pause.resumedAt === null ? { ...pause, resumedAt } : pause
+    ),
+  };
+}
+
+/**
+ * Append an event to the session's log.
+ */
+export function recordSessionEvent(session: Session, event: SessionEvent): Session {
+  return { ...session, events: [...session.events, event] };
+}
+
+export function pauseSession(session: Session, pausedAt: number): Session {
   if (session.state !== "running") {
     return session;
   }
 
-  return { ...session, state: "paused" };
+  const tracks = [...session.tracks];
+  const current = tracks[session.currentIndex];
+  if (current && current.startedAt !== null) {
+    tracks[session.currentIndex] = {
+      ...current,
+      pauses: [...current.pauses, { pausedAt, resumedAt: null }],
+    };
+  }
+
+  return recordSessionEvent(
+    { ...session, state: "paused", tracks },
+    { type: "pause", at: pausedAt, trackIndex: session.currentIndex }
+  );
 }
 
+/**
+ * Resume playback. A session waiting on a flip starts the next side.
+ */
 export function resumeSession(session: Session, resumedAt: number): Session {
   if (session.state === "ended") {
     return session;
   }
+  if (session.state === "awaiting-flip") {
+    return flipSide(session, resumedAt);
+  }
 
   const tracks = [...session.tracks];
   const current = tracks[session.currentIndex];
   if (current && current.startedAt === null) {
     tracks[session.currentIndex] = { ...current, startedAt: resumedAt };
+  } else if (current) {
+    tracks[session.currentIndex] = closePause(current, resumedAt);
+  }
+
+  const resumed: Session = { ...session, state: "running", tracks };
+  if (session.state !== "paused") {
+    return resumed;
   }
 
-  return { ...session, state: "running", tracks };
+  return recordSessionEvent(resumed, {
+    type: "resume",
+    at: resumedAt,
+    trackIndex: session.currentIndex,
+  });
+}
+
+interface EndSessionOptions {
+  endedAt: number;
+  endMode?: SessionEndMode;
+  policy?: ScrobblePolicy;
 }
 
-export function endSession(session: Session): Session {
+/**
+ * End the session, applying the end mode to the current and remaining tracks.
+ *
+ * - `discard` leaves unplayed tracks pending (the default).
+ * - `skip-remaining` marks every pending track from the current one onwards
+ *   as skipped.
+ * - `scrobble-remaining` marks them scrobbled as if they had been played
+ *   back to back from the current track's start. If that would run past
+ *   `endedAt`, the run is shifted back so the last track finishes at
+ *   `endedAt`, but never into the time a current track that was already
+ *   scrobbled played for. Each track's `startedAt` holds the backfilled
+ *   timestamp. Tracks too short for the scrobble policy are marked skipped
+ *   instead.
+ */
+export function endSession(session: Session, options: EndSessionOptions): Session {
   if (session.state === "ended") {
     return session;
   }
-  return { ...session, state: "ended" };
+
+  const { endedAt, endMode = "discard", policy = DEFAULT_SCROBBLE_POLICY } = options;
+  const tracks = [...session.tracks];
+  const remaining = tracks
+    .slice(session.currentIndex)
+    .filter((track) => track.status === "pending");
+
+  if (endMode === "skip-remaining") {
+    for (const track of remaining) {
+      tracks[track.index] = { ...track, status: "skipped" };
+    }
+  }
+
+  if (endMode === "scrobble-remaining") {
+    // Unknown lengths already fall back to the session's default track length
+    const durationsMs = remaining.map(
+      (track) => getSessionTrackDurationMs(session, track.index) ?? DEFAULT_TRACK_SEC * 1000
+    );
+    const totalMs = durationsMs.reduce((sum, ms) => sum + ms, 0);
+    const first = remaining[0];
+    const firstStartedAt =
+      first?.startedAt != null ? getScrobbleStartedAt(first, endedAt) : endedAt - totalMs;
+    // A current track that was already scrobbled really played until now
+    const current = tracks[session.currentIndex];
+    const notBefore =
+      current && current.status !== "pending" && current.startedAt !== null
+        ? getScrobbleStartedAt(current, endedAt) + getPlayedMs(current, endedAt)
+        : -Infinity;
+    let startedAt = Math.max(notBefore, Math.min(firstStartedAt, endedAt - totalMs));
+
+    remaining.forEach((track, i) => {
+      const durationMs = getSessionTrackDurationMs(session, track.index);
+      tracks[track.index] =
+        getScrobbleThresholdMs(durationMs, policy) === null
+          ? { ...track, startedAt, status: "skipped" }
+          : { ...track, startedAt, status: "scrobbled", scrobbledAt: endedAt };
+      startedAt += durationsMs[i] ?? 0;
+    });
+  }
+
+  return recordSessionEvent(
+    { ...session, state: "ended", tracks },
+    { type: "end", at: endedAt, endMode }
+  );
 }
 
-export function advanceSession(session: Session, advancedAt: number): Session {
+/**
+ * Leave the current track with the given outcome and start the next one.
+ * A track that was already scrobbled keeps its status. In track mode the
+ * next track starts after the session's needle-drop gap; side mode times its
+ * boundaries, gap included, itself.
+ */
+function leaveCurrentTrack(
+  session: Session,
+  leftAt: number,
+  outcome: "scrobbled" | "skipped"
+): Session {
+  const eventType = outcome === "scrobbled" ? "next" : "skip";
+  const fromIndex = session.currentIndex;
+
   if (session.tracks.length === 0) {
-    return { ...session, state: "ended" };
+    return recordSessionEvent(
+      { ...session, state: "ended" },
+      { type: eventType, at: leftAt, fromIndex, toIndex: null }
+    );
   }
 
   const tracks = [...session.tracks];
-  const currentIndex = session.currentIndex;
-  const current = tracks[currentIndex];
+  const current = tracks[fromIndex];
 
-  if (current && current.status === "pending") {
-    tracks[currentIndex] = {
-      ...current,
-      status: "scrobbled",
-      scrobbledAt: advancedAt,
-    };
-  }
-
-  const nextIndex = currentIndex + 1;
-  if (nextIndex >= tracks.length) {
-    return { ...session, state: "ended", tracks };
+  if (current) {
+    // Leaving a paused track ends its pause
+    const left = closePause(current, leftAt);
+    if (left.status !== "pending") {
+      tracks[fromIndex] = left;
+    } else if (outcome === "scrobbled") {
+      tracks[fromIndex] = { ...left, status: "scrobbled", scrobbledAt: leftAt };
+    } else {
+      tracks[fromIndex] = { ...left, status: "skipped" };
+    }
   }
 
+  const nextIndex = fromIndex + 1;
   const nextTrack = tracks[nextIndex];
   if (!nextTrack) {
-    return { ...session, state: "ended", tracks };
+    return recordSessionEvent(
+      { ...session, state: "ended", tracks },
+      { type: eventType, at: leftAt, fromIndex, toIndex: null }
+    );
+  }
+
+  // The next side starts once the record has been flipped
+  if (isSideEnd(session, fromIndex)) {
+    return recordSessionEvent(
+      { ...session, currentIndex: nextIndex, state: "awaiting-flip", tracks },
+      { type: eventType, at: leftAt, fromIndex, toIndex: nextIndex }
+    );
   }
 
+  const gapMs = session.timerMode === "side" ? 0 : (session.trackGapMs ?? 0);
   tracks[nextIndex] = {
     ...nextTrack,
-    startedAt: nextTrack.startedAt ?? advancedAt,
+    startedAt: nextTrack.startedAt ?? leftAt + gapMs,
   };
 
-  return {
-    ...session,
-    currentIndex: nextIndex,
-    state: "running",
-    tracks,
+  return recordSessionEvent(
+    {
+      ...session,
+      currentIndex: nextIndex,
+      state: "running",
+      tracks,
+    },
+    { type: eventType, at: leftAt, fromIndex, toIndex: nextIndex }
+  );
+}
+
+/**
+ * Leave the current track as played and start the next one, or wait for a
+ * flip if that finished a side.
+ */
+export function advanceSession(session: Session, advancedAt: number): Session {
+  return leaveCurrentTrack(session, advancedAt, "scrobbled");
+}
+
+/**
+ * Move on to the next track without scrobbling the current one.
+ */
+export function skipTrack(session: Session, skippedAt: number): Session {
+  return leaveCurrentTrack(session, skippedAt, "skipped");
+}
+
+/**
+ * Start the side the session is waiting on, now that the record has been
+ * flipped.
+ */
+export function flipSide(session: Session, flippedAt: number): Session {
+  if (session.state !== "awaiting-flip") {
+    return session;
+  }
+
+  const tracks = [...session.tracks];
+  const current = tracks[session.currentIndex];
+  if (current) {
+    tracks[session.currentIndex] = { ...current, startedAt: flippedAt, pauses: [] };
+  }
+
+  return recordSessionEvent(
+    { ...session, state: "running", tracks },
+    { type: "flip", at: flippedAt, trackIndex: session.currentIndex }
+  );
+}
+
+/**
+ * Move back to the previous track, restarting it at `rewoundAt`.
+ *
+ * A track that was already scrobbled stays scrobbled, so neither the track
+ * we leave nor the one we return to is submitted to Last.fm a second time.
+ * A skipped track we return to is pending again, as it is being played. A
+ * paused session stays paused, with the restarted track paused from
+ * `rewoundAt` so no time counts as played until it resumes.
+ */
+export function rewindSession(session: Session, rewoundAt: number): Session {
+  if (session.state === "ended" || session.currentIndex <= 0) {
+    return session;
+  }
+
+  const tracks = [...session.tracks];
+  const currentIndex = session.currentIndex;
+  const previousIndex = currentIndex - 1;
+  const current = tracks[currentIndex];
+  const previous = tracks[previousIndex];
+
+  if (!previous) {
+    return session;
+  }
+
+  // The track we leave has not finished playing; clear its start so it gets a
+  // fresh one when we advance into it again.
+  if (current && current.status === "pending") {
+    tracks[currentIndex] = { ...current, startedAt: null, pauses: [] };
+  }
+
+  tracks[previousIndex] = {
+    ...previous,
+    status: previous.status === "skipped" ? "pending" : previous.status,
+    startedAt: rewoundAt,
+    pauses: session.state === "paused" ? [{ pausedAt: rewoundAt, resumedAt: null }] : [],
   };
+
+  return recordSessionEvent(
+    {
+      ...session,
+      // Going back from a flip returns to the side that was playing
+      state: session.state === "awaiting-flip" ? "running" : session.state,
+      currentIndex: previousIndex,
+      tracks,
+    },
+    { type: "prev", at: rewoundAt, fromIndex: currentIndex, toIndex: previousIndex }
+  );
+}
+
+/**
+ * Side mode: the current track changed at `changedAt`. The current track's
+ * inferred length becomes the time it actually played, and the side time
+ * left is shared out across the rest of the side in proportion to their
+ * inferred lengths. If the side has already overrun, the rest keep their
+ * lengths. Moving on to the next track is left to the caller.
+ */
+export function reanchorSideTrack(session: Session, changedAt: number): Session {
+  const current = session.tracks[session.currentIndex];
+  if (session.timerMode !== "side" || !session.sideDurationsMs || session.state === "ended" || !current) {
+    return session;
+  }
+
+  const currentIndex = session.currentIndex;
+  const durations = [...session.sideDurationsMs];
+  const playedMs = getPlayedMs(current, changedAt);
+  const following = getSideTrackIndexes(session.release, currentIndex).filter((index) => index > currentIndex);
+  const followingMs = following.reduce((sum, index) => sum + (durations[index] ?? 0), 0);
+  const remainingMs = followingMs + (durations[currentIndex] ?? 0) - playedMs;
+
+  durations[currentIndex] = playedMs;
+  if (remainingMs > 0 && followingMs > 0) {
+    for (const index of following) {
+      durations[index] = Math.round(((durations[index] ?? 0) * remainingMs) / followingMs);
+    }
+  }
+
+  return recordSessionEvent(
+    { ...session, sideDurationsMs: durations },
+    { type: "track-changed", at: changedAt, trackIndex: currentIndex, playedMs }
+  );
+}
+
+/**
+ * Override a track's duration for this session only. With `scope: "all"` the
+ * duration is applied to every track on the release. In side mode the
+ * lengths of the current track and those still to come are inferred again.
+ */
+export function setTrackDuration(
+  session: Session,
+  trackIndex: number,
+  durationSec: number,
+  editedAt: number,
+  scope: SessionDurationScope = "track"
+): Session {
+  if (session.state === "ended" || !session.release.tracks[trackIndex]) {
+    return session;
+  }
+
+  const tracks = session.release.tracks.map((track) =>
+    scope === "all" || track.index === trackIndex ? { ...track, durationSec } : track
+  );
+  const release = { ...session.release, tracks };
+  const sideDurationsMs = session.sideDurationsMs
+    ? inferSideDurationsMs(release, session.defaultTrackMs).map((durationMs, index) =>
+        index >= session.currentIndex ? durationMs : (session.sideDurationsMs?.[index] ?? durationMs)
+      )
+    : undefined;
+
+  return recordSessionEvent(
+    { ...session, release, ...(sideDurationsMs ? { sideDurationsMs } : {}) },
+    { type: "duration-edit", at: editedAt, trackIndex, durationSec, scope }
+  );
+}
+
+/**
+ * Move a track whose scrobble Last.fm did not accept through the retry queue:
+ * `retrying` while queued, `failed` once retries run out and `scrobbled` when
+ * a retry is accepted at `at`. Applies to ended sessions too, since retries
+ * can finish after the session does.
+ */
+export function setScrobbleRetryStatus(
+  session: Session,
+  trackIndex: number,
+  status: "scrobbled" | "retrying" | "failed",
+  at: number
+): Session {
+  const track = session.tracks[trackIndex];
+  if (!track) {
+    return session;
+  }
+
+  const tracks = [...session.tracks];
+  tracks[trackIndex] = { ...track, status, scrobbledAt: status === "scrobbled" ? at : null };
+  return { ...session, tracks };
+}
+
+/**
+ * Keep Last.fm's response to a track's scrobble on the track, so listens it
+ * ignored or corrected can be shown as such.
+ */
+export function setScrobbleResponse(
+  session: Session,
+  trackIndex: number,
+  response: ScrobbleResponse
+): Session {
+  const track = session.tracks[trackIndex];
+  if (!track) {
+    return session;
+  }
+
+  const tracks = [...session.tracks];
+  tracks[trackIndex] = { ...track, scrobbleResponse: response };
+  return { ...session, tracks };
 }
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { NormalizedRelease } from "../domain/release.js";
+import { createRetroSession, planRetroScrobbles, RETRO_MAX_AGE_MS } from "./retro.js";
+
+const release: NormalizedRelease = {
+  id: "123",
+  title: "Test Release",
+  artist: "Test Artist",
+  year: 2024,
+  coverUrl: null,
+  tracks: [
+    { index: 0, position: "A1", title: "First", artist: "Test Artist", durationSec: 180, side: "A" },
+    { index: 1, position: "A2", title: "Interlude", artist: "Test Artist", durationSec: 20, side: "A" },
+    { index: 2, position: "B1", title: "Unknown", artist: "Test Artist", durationSec: null, side: "B" },
+    { index: 3, position: "B2", title: "Last", artist: "Test Artist", durationSec: 240, side: "B" },
+  ],
+};
+
+const now = 1_700_000_000_000;
+
+describe("planRetroScrobbles", () => {
+  it("lays tracks end to end from the start of the listen", () => {
+    const start = now - 3_600_000;
+
+    const plan = planRetroScrobbles({ release, anchor: "started", at: start }, now);
+
+    expect(plan).toEqual({
+      ok: true,
+      startedAt: start,
+      endedAt: start + 620_000,
+      tracks: [
+        { trackIndex: 0, startedAt: start },
+        { trackIndex: 1, startedAt: start + 180_000 },
+        { trackIndex: 2, startedAt: start + 200_000 },
+        { trackIndex: 3, startedAt: start + 380_000 },
+      ],
+      scrobbles: [
+        { trackIndex: 0, startedAt: start, estimated: false },
+        { trackIndex: 2, startedAt: start + 200_000, estimated: true },
+        { trackIndex: 3, startedAt: start + 380_000, estimated: false },
+      ],
+    });
+  });
+
+  it("works back from the end of the listen", () => {
+    const plan = planRetroScrobbles({ release, anchor: "finished", at: now }, now);
+
+    expect(plan.ok && plan.startedAt).toBe(now - 620_000);
+    expect(plan.ok && plan.scrobbles.at(-1)?.startedAt).toBe(now - 240_000);
+  });
+
+  it("uses the given length for tracks without a duration", () => {
+    const plan = planRetroScrobbles(
+      { release, anchor: "finished", at: now, trackIndexes: [2, 3], defaultTrackSec: 300 },
+      now
+    );
+
+    expect(plan.ok && plan.tracks).toEqual([
+      { trackIndex: 2, startedAt: now - 540_000 },
+      { trackIndex: 3, startedAt: now - 240_000 },
+    ]);
+  });
+
+  it("rejects a listen that has not finished yet", () => {
+    expect(planRetroScrobbles({ release, anchor: "started", at: now - 60_000 }, now)).toEqual({
+      ok: false,
+      reason: "not-finished",
+    });
+  });
+
+  it("rejects a listen older than Last.fm accepts", () => {
+    expect(planRetroScrobbles({ release, anchor: "started", at: now - RETRO_MAX_AGE_MS - 1 }, now)).toEqual({
+      ok: false,
+      reason: "too-old",
+    });
+  });
+
+  it("rejects a listen with no tracks from the release", () => {
+    expect(planRetroScrobbles({ release, anchor: "finished", at: now, trackIndexes: [9] }, now)).toEqual({
+      ok: false,
+      reason: "no-tracks",
+    });
+  });
+});
+
+describe("createRetroSession", () => {
+  it("builds an ended session with the planned scrobbles", () => {
+    const plan = planRetroScrobbles({ release, anchor: "finished", at: now, trackIndexes: [0, 1] }, now);
+    if (!plan.ok) {
+      throw new Error("Expected a plan");
+    }
+
+    const session = createRetroSession({ sessionId: "retro", userId: "user-retro", release, plan, loggedAt: now });
+
+    expect(session).toMatchObject({ state: "ended", currentIndex: 1, startedAt: now - 200_000 });
+    expect(session.tracks.map((track) => track.status)).toEqual(["scrobbled", "skipped", "skipped", "skipped"]);
+    expect(session.tracks[0]).toMatchObject({ startedAt: now - 200_000, scrobbledAt: now });
+    expect(session.tracks[1]?.startedAt).toBe(now - 20_000);
+    expect(session.tracks[2]?.startedAt).toBeNull();
+    expect(session.events.map((event) => event.type)).toEqual(["start", "end"]);
+  });
+
+  it("keeps the length assumed for tracks without a duration", () => {
+    const plan = planRetroScrobbles({ release, anchor: "finished", at: now, defaultTrackSec: 240 }, now);
+    if (!plan.ok) {
+      throw new Error("Expected a plan");
+    }
+
+    const session = createRetroSession({
+      sessionId: "retro",
+      userId: "user-retro",
+      release,
+      plan,
+      loggedAt: now,
+      defaultTrackSec: 240,
+    });
+
+    expect(session.defaultTrackMs).toBe(240_000);
+    expect(session.tracks[2]?.startedAt).toBe(now - 480_000);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Retroactive scrobbling.
+ *
+ * A record played without the app open can be logged afterwards from when
+ * it started or finished. Tracks are laid end to end from their durations to
+ * back-date each scrobble, within the window Last.fm accepts.
+ */
+
+import type { NormalizedRelease } from "../domain/release.js";
+import type { Session, SessionTrackState } from "../domain/session.js";
+import {
+  DEFAULT_SCROBBLE_POLICY,
+  getScrobbleThresholdMs,
+  type ScrobblePolicy,
+} from "./eligibility.js";
+import { DEFAULT_TRACK_SEC } from "./side.js";
+
+/** Oldest listen Last.fm accepts a scrobble for: 14 days. */
+export const RETRO_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the listen time given for a retro plan is when it started or when
+ * it finished.
+ */
+export type RetroAnchor = "started" | "finished";
+
+export interface RetroPlanInput {
+  release: NormalizedRelease;
+  anchor: RetroAnchor;
+  /** When the listen started or finished, per `anchor` (epoch ms) */
+  at: number;
+  /** Tracks that were played, in release order; all of them by default */
+  trackIndexes?: number[] | undefined;
+  /** Length assumed for tracks without a duration */
+  defaultTrackSec?: number | undefined;
+  policy?: ScrobblePolicy | undefined;
+}
+
+/**
+ * One back-dated scrobble in a retro plan.
+ */
+export interface RetroScrobble {
+  trackIndex: number;
+  /** Back-dated start time (epoch ms) */
+  startedAt: number;
+  /** Whether the default length stood in for a missing duration */
+  estimated: boolean;
+}
+
+/**
+ * Back-dated timings for a listen, or why it cannot be logged.
+ * Tracks too short to scrobble take up time but get no scrobble.
+ */
+export type RetroPlan =
+  | {
+      ok: true;
+      /** Start of the first track (epoch ms) */
+      startedAt: number;
+      /** End of the last track (epoch ms) */
+      endedAt: number;
+      /** Played tracks in order, with their back-dated start times */
+      tracks: { trackIndex: number; startedAt: number }[];
+      scrobbles: RetroScrobble[];
+    }
+  | { ok: false; reason: "no-tracks" | "too-old" | "not-finished" };
+
+/**
+ * Lay the played tracks end to end from `at` and check the result falls in
+ * the window Last.fm accepts: the listen must have finished by `now`, and
+ * the first track must have started within the last 14 days.
+ */
+export function planRetroScrobbles(input: RetroPlanInput, now: number): RetroPlan {
+  const defaultTrackSec = input.defaultTrackSec ?? DEFAULT_TRACK_SEC;
+  const policy = input.policy ?? DEFAULT_SCROBBLE_POLICY;
+  const played = input.trackIndexes
+    ? input.release.tracks.filter((track) => input.trackIndexes?.includes(track.index))
+    : input.release.tracks;
+  if (played.length === 0) {
+    return { ok: false, reason: "no-tracks" };
+  }
+
+  const durationsMs = played.map((track) => (track.durationSec ?? defaultTrackSec) * 1000);
+  const totalMs = durationsMs.reduce((sum, ms) => sum + ms, 0);
+  const startedAt = input.anchor === "started" ? input.at : input.at - totalMs;
+  const endedAt = startedAt + totalMs;
+
+  if (endedAt > now) {
+    return { ok: false, reason: "not-finished" };
+  }
+  if (startedAt < now - RETRO_MAX_AGE_MS) {
+    return { ok: false, reason: "too-old" };
+  }
+
+  const tracks: { trackIndex: number; startedAt: number }[] = [];
+  const scrobbles: RetroScrobble[] = [];
+  let trackStartedAt = startedAt;
+  played.forEach((track, i) => {
+    tracks.push({ trackIndex: track.index, startedAt: trackStartedAt });
+    const durationMs = track.durationSec !== null ? track.durationSec * 1000 : null;
+    if (getScrobbleThresholdMs(durationMs, policy) !== null) {
+      scrobbles.push({
+        trackIndex: track.index,
+        startedAt: trackStartedAt,
+        estimated: track.durationSec === null,
+      });
+    }
+    trackStartedAt += durationsMs[i] ?? 0;
+  });
+
+  return { ok: true, startedAt, endedAt, tracks, scrobbles };
+}
+
+interface CreateRetroSessionInput {
+  sessionId: string;
+  userId: string;
+  release: NormalizedRelease;
+  plan: Extract<RetroPlan, { ok: true }>;
+  /** When the listen was logged (epoch ms) */
+  loggedAt: number;
+  /** Length the plan assumed for tracks without a duration */
+  defaultTrackSec?: number | undefined;
+}
+
+/**
+ * Build the ended session a retro plan describes: planned scrobbles marked
+ * scrobbled at `loggedAt`, other played tracks and unplayed ones skipped.
+ */
+export function createRetroSession(input: CreateRetroSessionInput): Session {
+  const { plan, loggedAt } = input;
+  const tracks: SessionTrackState[] = input.release.tracks.map((track) => {
+    const played = plan.tracks.find((entry) => entry.trackIndex === track.index);
+    const scrobbled = plan.scrobbles.some((scrobble) => scrobble.trackIndex === track.index);
+    return {
+      index: track.index,
+      startedAt: played?.startedAt ?? null,
+      status: scrobbled ? "scrobbled" : "skipped",
+      scrobbledAt: scrobbled ? loggedAt : null,
+      pauses: [],
+    };
+  });
+
+  return {
+    id: input.sessionId,
+    userId: input.userId,
+    release: input.release,
+    state: "ended",
+    currentIndex: plan.tracks[plan.tracks.length - 1]?.trackIndex ?? 0,
+    startedAt: plan.startedAt,
+    tracks,
+    events: [
+      { type: "start", at: loggedAt },
+      { type: "end", at: loggedAt, endMode: "scrobble-remaining" },
+    ],
+    version: 0,
+    ...(input.defaultTrackSec ? { defaultTrackMs: input.defaultTrackSec * 1000 } : {}),
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { NormalizedRelease } from "../domain/release.js";
+import { advanceSession, createSession } from "./engine.js";
+import {
+  getSessionTrackDurationMs,
+  getSideTimer,
+  getSideTrackIndexes,
+  inferSideDurationsMs,
+} from "./side.js";
+
+const release: NormalizedRelease = {
+  id: "123",
+  title: "Test Release",
+  artist: "Test Artist",
+  year: 2024,
+  coverUrl: null,
+  tracks: [
+    { index: 0, position: "A1", title: "First", artist: "Test Artist", durationSec: 200, side: "A" },
+    { index: 1, position: "A2", title: "Second", artist: "Test Artist", durationSec: null, side: "A" },
+    { index: 2, position: "A3", title: "Third", artist: "Test Artist", durationSec: 300, side: "A" },
+    { index: 3, position: "B1", title: "Fourth", artist: "Test Artist", durationSec: null, side: "B" },
+  ],
+};
+
+describe("getSideTrackIndexes", () => {
+  it("lists the tracks sharing a side", () => {
+    expect(getSideTrackIndexes(release, 1)).toEqual([0, 1, 2]);
+    expect(getSideTrackIndexes(release, 3)).toEqual([3]);
+  });
+});
+
+describe("inferSideDurationsMs", () => {
+  it("estimates missing lengths from the rest of the side", () => {
+    expect(inferSideDurationsMs(release)).toEqual([200_000, 250_000, 300_000, 180_000]);
+  });
+
+  it("falls back to the given length for a side with no known durations", () => {
+    expect(inferSideDurationsMs(release, 240_000)[3]).toBe(240_000);
+  });
+});
+
+describe("getSessionTrackDurationMs", () => {
+  it("uses the inferred length in side mode", () => {
+    const session = createSession({ sessionId: "s", userId: "u", release, startedAt: 0, timerMode: "side" });
+
+    expect(getSessionTrackDurationMs(session, 1)).toBe(250_000);
+  });
+
+  it("uses the track duration in track mode", () => {
+    const session = createSession({ sessionId: "s", userId: "u", release, startedAt: 0 });
+
+    expect(getSessionTrackDurationMs(session, 0)).toBe(200_000);
+    expect(getSessionTrackDurationMs(session, 1)).toBeNull();
+  });
+
+  it("uses the session's default length for tracks without a duration", () => {
+    const session = createSession({ sessionId: "s", userId: "u", release, startedAt: 0, defaultTrackSec: 240 });
+
+    expect(session.defaultTrackMs).toBe(240_000);
+    expect(getSessionTrackDurationMs(session, 0)).toBe(200_000);
+    expect(getSessionTrackDurationMs(session, 1)).toBe(240_000);
+  });
+});
+
+describe("getSideTimer", () => {
+  it("places the current track within its side", () => {
+    const session = advanceSession(
+      createSession({ sessionId: "s", userId: "u", release, startedAt: 0, timerMode: "side" }),
+      200_000
+    );
+
+    expect(getSideTimer(session)).toEqual({ offsetMs: 200_000, lengthMs: 750_000 });
+  });
+});
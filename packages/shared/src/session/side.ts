@@ -0,0 +1,92 @@
+/**
+ * Side-level timing.
+ *
+ * Per-track durations on Discogs are often wrong, but a record plays a side
+ * at a time and side lengths are usually right. In side mode one timer runs
+ * for the whole side, and each track's boundary follows from the lengths
+ * inferred for the tracks before it on that side.
+ */
+
+import type { NormalizedRelease } from "../domain/release.js";
+import type { Session } from "../domain/session.js";
+
+/**
+ * Length assumed for a track without a duration, when the session has no
+ * default of its own and, in side mode, nothing else on its side has one.
+ */
+export const DEFAULT_TRACK_SEC = 180;
+
+/**
+ * Indexes of the tracks on the same side as `trackIndex`, in release order.
+ * Releases without sides are treated as one side.
+ */
+export function getSideTrackIndexes(release: NormalizedRelease, trackIndex: number): number[] {
+  const side = release.tracks[trackIndex]?.side ?? null;
+  return release.tracks.filter((track) => track.side === side).map((track) => track.index);
+}
+
+/**
+ * Whether moving on from `trackIndex` finishes a side the session should
+ * wait to be flipped: the next track is on another side and the session
+ * pauses at side ends.
+ */
+export function isSideEnd(session: Session, trackIndex: number): boolean {
+  const side = session.release.tracks[trackIndex]?.side ?? null;
+  const nextSide = session.release.tracks[trackIndex + 1]?.side ?? null;
+  return session.pauseAtSideEnd === true && side !== null && nextSide !== null && side !== nextSide;
+}
+
+/**
+ * Infer every track's length for side mode (milliseconds, by track index).
+ * Known durations are kept; tracks without one get the average of the known
+ * durations on their side, or `defaultTrackMs` when the side has none.
+ */
+export function inferSideDurationsMs(
+  release: NormalizedRelease,
+  defaultTrackMs = DEFAULT_TRACK_SEC * 1000
+): number[] {
+  return release.tracks.map((track) => {
+    if (track.durationSec !== null && track.durationSec > 0) {
+      return track.durationSec * 1000;
+    }
+
+    const knownSec = getSideTrackIndexes(release, track.index)
+      .map((index) => release.tracks[index]?.durationSec ?? null)
+      .filter((durationSec): durationSec is number => durationSec !== null && durationSec > 0);
+    if (knownSec.length === 0) {
+      return defaultTrackMs;
+    }
+    return Math.round((knownSec.reduce((sum, durationSec) => sum + durationSec, 0) / knownSec.length) * 1000);
+  });
+}
+
+/**
+ * How long a track runs in this session: its inferred length in side mode,
+ * otherwise its duration or the session's default length, or null when
+ * neither is known.
+ */
+export function getSessionTrackDurationMs(session: Session, trackIndex: number): number | null {
+  if (session.timerMode === "side" && session.sideDurationsMs) {
+    return session.sideDurationsMs[trackIndex] ?? null;
+  }
+
+  const durationSec = session.release.tracks[trackIndex]?.durationSec;
+  return durationSec ? durationSec * 1000 : (session.defaultTrackMs ?? null);
+}
+
+/**
+ * Where the current track starts within its side and how long the side runs
+ * (milliseconds). The side timer reads the offset plus the current track's
+ * played time.
+ */
+export function getSideTimer(session: Session): { offsetMs: number; lengthMs: number } {
+  const lengthOf = (index: number) => getSessionTrackDurationMs(session, index) ?? 0;
+  const sideIndexes = getSideTrackIndexes(session.release, session.currentIndex);
+
+  return {
+    offsetMs: sideIndexes
+      .filter((index) => index < session.currentIndex)
+      .reduce((sum, index) => sum + lengthOf(index), 0),
+    lengthMs: sideIndexes.reduce((sum, index) => sum + lengthOf(index), 0),
+  };
+}
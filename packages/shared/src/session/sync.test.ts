@@ -1,7 +1,8 @@
 import { describe, expect, it } from "vitest";
 import type { NormalizedRelease } from "../domain/release.js";
 import type { Session } from "../domain/session.js";
-import { createSession, pauseSession, endSession } from "./engine.js";
+import { createSession, pauseSession, endSession, resumeSession } from "./engine.js";
+import { DEFAULT_SCROBBLE_POLICY, createScrobblePolicy } from "./eligibility.js";
 import { syncSession } from "./sync.js";
 
 const release: NormalizedRelease = {
@@ -50,16 +51,16 @@ function makeSession(overrides?: Partial<Parameters<typeof createSession>[0]>):
 
 describe("syncSession", () => {
   it("returns no actions when session is paused", () => {
-    const session = pauseSession(makeSession());
-    const result = syncSession(session, 500_000, 50);
+    const session = pauseSession(makeSession(), 1500);
+    const result = syncSession(session, 500_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(0);
     expect(result.session).toBe(session);
   });
 
   it("returns no actions when session is ended", () => {
-    const session = endSession(makeSession());
-    const result = syncSession(session, 500_000, 50);
+    const session = endSession(makeSession(), { endedAt: 2000 });
+    const result = syncSession(session, 500_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(0);
     expect(result.session).toBe(session);
@@ -67,7 +68,7 @@ describe("syncSession", () => {
 
   it("returns no actions when current track has not reached threshold", () => {
     const session = makeSession({ startedAt: 1000 });
-    const result = syncSession(session, 50_000, 50);
+    const result = syncSession(session, 50_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(0);
     expect(result.session.currentIndex).toBe(0);
@@ -78,7 +79,7 @@ describe("syncSession", () => {
     const session = makeSession({ startedAt: 1000 });
     // track 0: 180s = 180_000ms, threshold 50% = 90_000ms
     // syncAt = 1000 + 91_000 = 92_000 → elapsed = 91_000 > 90_000
-    const result = syncSession(session, 92_000, 50);
+    const result = syncSession(session, 92_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(1);
     expect(result.scrobbleActions[0]).toEqual({
@@ -95,7 +96,7 @@ describe("syncSession", () => {
   it("scrobbles at exact threshold boundary", () => {
     const session = makeSession({ startedAt: 1000 });
     // exactly 90_000ms elapsed = threshold
-    const result = syncSession(session, 91_000, 50);
+    const result = syncSession(session, 91_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(1);
     expect(result.scrobbleActions[0]?.trackIndex).toBe(0);
@@ -107,7 +108,7 @@ describe("syncSession", () => {
     // Total duration: 530s = 530_000ms
     // syncAt far enough to cover all tracks
     const syncAt = 1000 + 600_000;
-    const result = syncSession(session, syncAt, 50);
+    const result = syncSession(session, syncAt, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(3);
     expect(result.scrobbleActions[0]?.trackIndex).toBe(0);
@@ -121,7 +122,7 @@ describe("syncSession", () => {
     // Track 0: starts at 1000, duration 180_000ms → ends at 181_000
     // Track 1: should get startedAt = 181_000
     const syncAt = 1000 + 200_000;
-    const result = syncSession(session, syncAt, 50);
+    const result = syncSession(session, syncAt, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions.length).toBeGreaterThanOrEqual(1);
     expect(result.session.tracks[1]?.startedAt).toBe(1000 + 180_000);
@@ -133,7 +134,7 @@ describe("syncSession", () => {
     // Track 1: starts at 181_000, 200s, threshold 50% = 100s → needs 281_000
     // syncAt covers track 0 and just the start of track 1
     const syncAt = 1000 + 185_000;
-    const result = syncSession(session, syncAt, 50);
+    const result = syncSession(session, syncAt, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(1);
     expect(result.scrobbleActions[0]?.trackIndex).toBe(0);
@@ -149,11 +150,35 @@ describe("syncSession", () => {
         i === 0 ? { ...t, status: "scrobbled" as const, scrobbledAt: 50_000 } : t
       ),
     };
-    const result = syncSession(withScrobbled, 500_000, 50);
+    const result = syncSession(withScrobbled, 500_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(0);
   });
 
+  it("leaves a current track waiting in the retry queue alone", () => {
+    const session = makeSession({ startedAt: 1000 });
+    const withRetrying: Session = {
+      ...session,
+      tracks: session.tracks.map((t, i) => (i === 0 ? { ...t, status: "retrying" as const } : t)),
+    };
+    const result = syncSession(withRetrying, 500_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.scrobbleActions).toHaveLength(0);
+    expect(result.session.tracks[0]?.status).toBe("retrying");
+  });
+
+  it("does not scrobble a current track that was already skipped", () => {
+    const session = makeSession({ startedAt: 1000 });
+    const withSkipped: Session = {
+      ...session,
+      tracks: session.tracks.map((t, i) => (i === 0 ? { ...t, status: "skipped" as const } : t)),
+    };
+    const result = syncSession(withSkipped, 500_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.scrobbleActions).toHaveLength(0);
+    expect(result.session.tracks[0]?.status).toBe("skipped");
+  });
+
   it("handles unknown duration tracks with 30s fallback", () => {
     const unknownDurationRelease: NormalizedRelease = {
       ...release,
@@ -167,7 +192,7 @@ describe("syncSession", () => {
     });
 
     // 30s fallback threshold; elapsed = 31_000 > 30_000
-    const result = syncSession(session, 32_000, 50);
+    const result = syncSession(session, 32_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(1);
     expect(result.scrobbleActions[0]?.trackIndex).toBe(0);
@@ -186,7 +211,7 @@ describe("syncSession", () => {
     });
 
     const syncAt = 100_000;
-    const result = syncSession(session, syncAt, 50);
+    const result = syncSession(session, syncAt, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions.length).toBeGreaterThanOrEqual(1);
     // With unknown duration, next track startedAt falls back to syncAt
@@ -203,7 +228,7 @@ describe("syncSession", () => {
         i === 0 ? { ...t, startedAt: null } : t
       ),
     };
-    const result = syncSession(withNullStart, 500_000, 50);
+    const result = syncSession(withNullStart, 500_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(0);
   });
@@ -221,7 +246,7 @@ describe("syncSession", () => {
     });
 
     const syncAt = 1000 + 500_000;
-    const result = syncSession(session, syncAt, 50);
+    const result = syncSession(session, syncAt, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(2);
     expect(result.session.state).toBe("ended");
@@ -229,7 +254,7 @@ describe("syncSession", () => {
 
   it("preserves release data through sync", () => {
     const session = makeSession({ startedAt: 1000 });
-    const result = syncSession(session, 500_000, 50);
+    const result = syncSession(session, 500_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.session.release).toEqual(release);
     expect(result.session.id).toBe("sess-sync");
@@ -249,7 +274,7 @@ describe("syncSession", () => {
     });
 
     const syncAt = 1000 + 200_000;
-    const result = syncSession(session, syncAt, 50);
+    const result = syncSession(session, syncAt, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(1);
     expect(result.session.state).toBe("ended");
@@ -267,7 +292,7 @@ describe("syncSession", () => {
       startedAt: 1000,
     });
 
-    const result = syncSession(session, 500_000, 50);
+    const result = syncSession(session, 500_000, DEFAULT_SCROBBLE_POLICY);
 
     expect(result.scrobbleActions).toHaveLength(0);
   });
@@ -276,9 +301,149 @@ describe("syncSession", () => {
     const session = makeSession({ startedAt: 1000 });
     // Track 0: 180s = 180_000ms, threshold 90% = 162_000ms
     // elapsed = 100_000 < 162_000 → not eligible
-    const result = syncSession(session, 101_000, 90);
+    const result = syncSession(session, 101_000, createScrobblePolicy(90));
 
     expect(result.scrobbleActions).toHaveLength(0);
     expect(result.session.currentIndex).toBe(0);
   });
+
+  it("records a sync catch-up event listing the scrobbled tracks", () => {
+    const session = makeSession({ startedAt: 1000 });
+    const result = syncSession(session, 300_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.session.events.at(-1)).toEqual({
+      type: "sync-catch-up",
+      at: 300_000,
+      trackIndexes: [0, 1],
+    });
+  });
+
+  it("records no event when nothing was scrobbled", () => {
+    const session = makeSession({ startedAt: 1000 });
+    const result = syncSession(session, 10_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.session.events).toEqual(session.events);
+  });
+
+  describe("scrobble policy", () => {
+    it("caps the threshold at 4 minutes for long tracks", () => {
+      const longRelease: NormalizedRelease = {
+        ...release,
+        tracks: release.tracks.map((track) =>
+          track.index === 0 ? { ...track, durationSec: 1200 } : track
+        ),
+      };
+      const session = makeSession({ release: longRelease, startedAt: 1000 });
+      const result = syncSession(session, 241_000, DEFAULT_SCROBBLE_POLICY);
+
+      expect(result.scrobbleActions.map((action) => action.trackIndex)).toEqual([0]);
+    });
+
+    it("skips tracks shorter than 30 seconds once they have played through", () => {
+      const interludeRelease: NormalizedRelease = {
+        ...release,
+        tracks: release.tracks.map((track) =>
+          track.index === 0 ? { ...track, durationSec: 20 } : track
+        ),
+      };
+      const session = makeSession({ release: interludeRelease, startedAt: 1000 });
+
+      const midway = syncSession(session, 15_000, DEFAULT_SCROBBLE_POLICY);
+      expect(midway.session.currentIndex).toBe(0);
+      expect(midway.session.tracks[0]?.status).toBe("pending");
+
+      // Interlude ends at 21_000, track 1 (200s) is eligible at 121_000
+      const result = syncSession(session, 121_000, DEFAULT_SCROBBLE_POLICY);
+      expect(result.session.tracks[0]?.status).toBe("skipped");
+      expect(result.session.tracks[1]?.startedAt).toBe(21_000);
+      expect(result.scrobbleActions.map((action) => action.trackIndex)).toEqual([1]);
+    });
+  });
+
+  describe("long pauses", () => {
+    it("does not scrobble a track whose wall-clock time was mostly paused", () => {
+      // 30s played, 20 minutes paused, 30s played again
+      const session = resumeSession(pauseSession(makeSession({ startedAt: 1000 }), 31_000), 1_231_000);
+      const result = syncSession(session, 1_261_000, DEFAULT_SCROBBLE_POLICY);
+
+      expect(result.scrobbleActions).toHaveLength(0);
+      expect(result.session.currentIndex).toBe(0);
+    });
+
+    it("scrobbles once played time meets the threshold, shifting the timestamp", () => {
+      const session = resumeSession(pauseSession(makeSession({ startedAt: 1000 }), 31_000), 1_231_000);
+      const result = syncSession(session, 1_300_000, DEFAULT_SCROBBLE_POLICY);
+
+      expect(result.scrobbleActions).toHaveLength(1);
+      expect(result.scrobbleActions[0]?.startedAt).toBe(1_201_000);
+    });
+
+    it("derives the next track's start from the pause-shifted end time", () => {
+      const session = resumeSession(pauseSession(makeSession({ startedAt: 1000 }), 31_000), 1_231_000);
+      const result = syncSession(session, 1_400_000, DEFAULT_SCROBBLE_POLICY);
+
+      // Track 0 played 180s from its shifted start of 1_201_000
+      expect(result.session.tracks[1]?.startedAt).toBe(1_381_000);
+    });
+  });
+
+  it("follows the inferred track lengths in side mode", () => {
+    const session = makeSession({
+      release: {
+        ...release,
+        tracks: release.tracks.map((track) => (track.index === 1 ? { ...track, durationSec: null } : track)),
+      },
+      timerMode: "side",
+    });
+
+    // The second track's length is estimated from the first: 180s
+    const result = syncSession(session, 1000 + 360_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.scrobbleActions.map((action) => action.trackIndex)).toEqual([0, 1]);
+    expect(result.session.tracks[2]?.startedAt).toBe(1000 + 360_000);
+  });
+
+  it("waits for a flip at the end of a side", () => {
+    const session = makeSession({ pauseAtSideEnd: true });
+
+    const result = syncSession(session, 1000 + 600_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.scrobbleActions.map((action) => action.trackIndex)).toEqual([0, 1]);
+    expect(result.session.state).toBe("awaiting-flip");
+    expect(result.session.currentIndex).toBe(2);
+  });
+
+  it("returns no actions while awaiting a flip", () => {
+    const waiting = syncSession(makeSession({ pauseAtSideEnd: true }), 1000 + 600_000, DEFAULT_SCROBBLE_POLICY).session;
+
+    const result = syncSession(waiting, 1000 + 900_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.scrobbleActions).toEqual([]);
+    expect(result.session).toBe(waiting);
+  });
+
+  it("leaves the needle-drop gap before the next track", () => {
+    const session = makeSession({ trackGapSec: 5 });
+
+    const result = syncSession(session, 1000 + 200_000, DEFAULT_SCROBBLE_POLICY);
+
+    expect(result.session.tracks[1]?.startedAt).toBe(1000 + 185_000);
+  });
+
+  it("times unknown durations with the session's default length", () => {
+    const session = makeSession({
+      release: {
+        ...release,
+        tracks: release.tracks.map((track) => (track.index === 0 ? { ...track, durationSec: null } : track)),
+      },
+      defaultTrackSec: 240,
+    });
+
+    // Not yet half of the assumed 4 minutes
+    expect(syncSession(session, 1000 + 100_000, DEFAULT_SCROBBLE_POLICY).scrobbleActions).toEqual([]);
+
+    const result = syncSession(session, 1000 + 300_000, DEFAULT_SCROBBLE_POLICY);
+    expect(result.scrobbleActions.map((action) => action.trackIndex)).toEqual([0]);
+    expect(result.session.tracks[1]?.startedAt).toBe(1000 + 240_000);
+  });
 });
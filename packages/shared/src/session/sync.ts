@@ -7,7 +7,10 @@
  */
 
 import type { Session, SessionTrackState } from "../domain/session.js";
-import { isEligibleToScrobble } from "./eligibility.js";
+import { getScrobbleThresholdMs, type ScrobblePolicy } from "./eligibility.js";
+import { recordSessionEvent } from "./engine.js";
+import { getSessionTrackDurationMs, isSideEnd } from "./side.js";
+import { getPausedMs } from "./timing.js";
 
 export interface SyncScrobbleAction {
   trackIndex: number;
@@ -22,20 +25,26 @@ export interface SyncSessionResult {
 
 /**
  * Walk forward from the current track, scrobbling each track whose
- * wall-clock elapsed time (syncAt − track.startedAt) meets the threshold.
+ * played time (syncAt − track.startedAt, less any time spent paused) meets
+ * the threshold.
  *
  * Handles multi-track catch-up: if the app was backgrounded longer than
  * one track's duration, subsequent tracks get their startedAt derived from
- * the previous track's end time (startedAt + durationMs).
+ * the previous track's end time (startedAt + pausedMs + durationMs).
+ * Tracks too short for the policy to scrobble are marked skipped once
+ * they have played through. In side mode the inferred track lengths set
+ * the boundaries.
+ *
+ * Records a sync-catch-up event when any track was scrobbled.
  *
  * Pure — caller is responsible for Last.fm API calls.
  */
 export function syncSession(
   session: Session,
   syncAt: number,
-  thresholdPercent: number
+  policy: ScrobblePolicy
 ): SyncSessionResult {
-  if (session.state === "ended" || session.state === "paused") {
+  if (session.state !== "running") {
     return { session, scrobbleActions: [] };
   }
 
@@ -47,33 +56,41 @@ export function syncSession(
     const track = currentSession.tracks[currentIndex];
 
     if (!track) break;
-    if (track.status === "scrobbled") break;
+    // Already submitted, skipped, or waiting in the retry queue
+    if (track.status !== "pending") break;
     if (track.startedAt === null) break;
 
     const elapsedMs = syncAt - track.startedAt;
+    const pausedMs = getPausedMs(track, syncAt);
 
-    const releaseTrack = currentSession.release.tracks[currentIndex];
-    const durationMs =
-      releaseTrack?.durationSec != null && releaseTrack.durationSec > 0
-        ? releaseTrack.durationSec * 1000
-        : null;
+    const durationMs = getSessionTrackDurationMs(currentSession, currentIndex);
 
-    if (!isEligibleToScrobble(elapsedMs, durationMs, thresholdPercent)) {
+    const playedMs = elapsedMs - pausedMs;
+    const thresholdMs = getScrobbleThresholdMs(durationMs, policy);
+    // A track too short to scrobble only moves on once it has played through
+    const requiredMs = thresholdMs ?? durationMs ?? 0;
+    if (elapsedMs < 0 || playedMs < requiredMs) {
       break;
     }
 
-    scrobbleActions.push({
-      trackIndex: currentIndex,
-      elapsedMs,
-      startedAt: track.startedAt,
-    });
-
+    // Shift the start by the time spent paused, as if it played without a break
+    const scrobbleStartedAt = track.startedAt + pausedMs;
     const updatedTracks: SessionTrackState[] = [...currentSession.tracks];
-    updatedTracks[currentIndex] = {
-      ...track,
-      status: "scrobbled",
-      scrobbledAt: syncAt,
-    };
+
+    if (thresholdMs === null) {
+      updatedTracks[currentIndex] = { ...track, status: "skipped" };
+    } else {
+      scrobbleActions.push({
+        trackIndex: currentIndex,
+        elapsedMs,
+        startedAt: scrobbleStartedAt,
+      });
+      updatedTracks[currentIndex] = {
+        ...track,
+        status: "scrobbled",
+        scrobbledAt: syncAt,
+      };
+    }
 
     const nextIndex = currentIndex + 1;
     if (nextIndex >= currentSession.tracks.length) {
@@ -86,17 +103,29 @@ export function syncSession(
     }
 
     // Derive next track's startedAt from when the previous track would have
-    // ended (startedAt + durationMs), falling back to syncAt if unknown.
+    // ended (startedAt + durationMs) plus the needle-drop gap, falling back to
+    // syncAt if unknown.
     const nextTrack = updatedTracks[nextIndex];
     if (nextTrack) {
       const trackEndTime =
-        durationMs !== null ? track.startedAt + durationMs : syncAt;
+        durationMs !== null ? scrobbleStartedAt + durationMs + (currentSession.trackGapMs ?? 0) : syncAt;
       updatedTracks[nextIndex] = {
         ...nextTrack,
         startedAt: nextTrack.startedAt ?? trackEndTime,
       };
     }
 
+    // Stop at the end of a side until the record is flipped
+    if (isSideEnd(currentSession, currentIndex)) {
+      currentSession = {
+        ...currentSession,
+        currentIndex: nextIndex,
+        tracks: updatedTracks,
+        state: "awaiting-flip",
+      };
+      break;
+    }
+
     currentSession = {
       ...currentSession,
       currentIndex: nextIndex,
@@ -105,5 +134,13 @@ export function syncSession(
     };
   }
 
+  if (scrobbleActions.length > 0) {
+    currentSession = recordSessionEvent(currentSession, {
+      type: "sync-catch-up",
+      at: syncAt,
+      trackIndexes: scrobbleActions.map((action) => action.trackIndex),
+    });
+  }
+
   return { session: currentSession, scrobbleActions };
 }
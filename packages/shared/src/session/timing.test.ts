@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { SessionTrackState } from "../domain/session.js";
+import { getPausedMs, getPlayedMs, getScrobbleStartedAt } from "./timing.js";
+
+function makeTrack(overrides?: Partial<SessionTrackState>): SessionTrackState {
+  return {
+    index: 0,
+    startedAt: 1000,
+    status: "pending",
+    scrobbledAt: null,
+    pauses: [],
+    ...overrides,
+  };
+}
+
+describe("getPausedMs", () => {
+  it("returns 0 without pauses", () => {
+    expect(getPausedMs(makeTrack(), 50_000)).toBe(0);
+  });
+
+  it("sums closed pauses", () => {
+    const track = makeTrack({
+      pauses: [
+        { pausedAt: 10_000, resumedAt: 20_000 },
+        { pausedAt: 30_000, resumedAt: 35_000 },
+      ],
+    });
+
+    expect(getPausedMs(track, 50_000)).toBe(15_000);
+  });
+
+  it("counts an open pause up to the given time", () => {
+    const track = makeTrack({ pauses: [{ pausedAt: 10_000, resumedAt: null }] });
+
+    expect(getPausedMs(track, 25_000)).toBe(15_000);
+  });
+
+  it("ignores the part of a pause after the given time", () => {
+    const track = makeTrack({ pauses: [{ pausedAt: 10_000, resumedAt: 40_000 }] });
+
+    expect(getPausedMs(track, 25_000)).toBe(15_000);
+    expect(getPausedMs(track, 5_000)).toBe(0);
+  });
+});
+
+describe("getPlayedMs", () => {
+  it("subtracts paused time from wall-clock time", () => {
+    const track = makeTrack({ pauses: [{ pausedAt: 31_000, resumedAt: 1_231_000 }] });
+
+    expect(getPlayedMs(track, 1_261_000)).toBe(60_000);
+  });
+
+  it("returns 0 for a track that has not started", () => {
+    expect(getPlayedMs(makeTrack({ startedAt: null }), 50_000)).toBe(0);
+  });
+});
+
+describe("getScrobbleStartedAt", () => {
+  it("shifts the start forward by the time spent paused", () => {
+    const track = makeTrack({ pauses: [{ pausedAt: 31_000, resumedAt: 1_231_000 }] });
+
+    expect(getScrobbleStartedAt(track, 1_300_000)).toBe(1_201_000);
+  });
+
+  it("returns the start unchanged without pauses", () => {
+    expect(getScrobbleStartedAt(makeTrack(), 90_000)).toBe(1000);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Pause-aware track timing.
+ *
+ * Wall-clock time since a track started overstates how much of it was heard
+ * when the session was paused in between. These helpers subtract the paused
+ * intervals recorded on the track.
+ */
+
+import type { SessionTrackState } from "../domain/session.js";
+
+/**
+ * Total time the track spent paused up to `at`. A pause that is still open
+ * counts until `at`.
+ */
+export function getPausedMs(track: SessionTrackState, at: number): number {
+  return track.pauses.reduce((total, pause) => {
+    const end = Math.min(pause.resumedAt ?? at, at);
+    return total + Math.max(0, end - pause.pausedAt);
+  }, 0);
+}
+
+/**
+ * How long the track has actually been playing at `at`, or 0 if it has not
+ * started.
+ */
+export function getPlayedMs(track: SessionTrackState, at: number): number {
+  if (track.startedAt === null) {
+    return 0;
+  }
+  return Math.max(0, at - track.startedAt - getPausedMs(track, at));
+}
+
+/**
+ * Start timestamp to submit to Last.fm for a scrobble at `at`: the track's
+ * start shifted forward by the time it spent paused, as if it had played
+ * without interruption.
+ */
+export function getScrobbleStartedAt(track: SessionTrackState, at: number): number {
+  return (track.startedAt ?? at) + getPausedMs(track, at);
+}
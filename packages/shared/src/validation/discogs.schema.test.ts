@@ -4,6 +4,7 @@ import {
   DiscogsSearchQuerySchema,
   DiscogsReleaseIdSchema,
   DiscogsReleaseParamSchema,
+  DiscogsReleaseQuerySchema,
 } from "./discogs.schema.js";
 
 describe("DiscogsCollectionQuerySchema", () => {
@@ -142,3 +143,30 @@ describe("DiscogsReleaseParamSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("DiscogsReleaseQuerySchema", () => {
+  it("defaults to crediting every artist", () => {
+    const result = DiscogsReleaseQuerySchema.safeParse({});
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.artists).toBe("full");
+    }
+  });
+
+  it("accepts each artist credit policy", () => {
+    for (const artists of ["full", "primary", "feat"]) {
+      expect(DiscogsReleaseQuerySchema.safeParse({ artists }).success).toBe(true);
+    }
+  });
+
+  it("rejects unknown policies", () => {
+    expect(DiscogsReleaseQuerySchema.safeParse({ artists: "all" }).success).toBe(false);
+  });
+
+  it("defaults to the standard profile and accepts the classical one", () => {
+    const result = DiscogsReleaseQuerySchema.safeParse({ profile: "classical" });
+    expect(result.success && result.data.profile).toBe("classical");
+    expect(DiscogsReleaseQuerySchema.parse({}).profile).toBe("standard");
+    expect(DiscogsReleaseQuerySchema.safeParse({ profile: "jazz" }).success).toBe(false);
+  });
+});
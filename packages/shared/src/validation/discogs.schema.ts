@@ -52,3 +52,26 @@ export const DiscogsReleaseParamSchema = z.object({
 });
 
 export type DiscogsReleaseParam = z.infer<typeof DiscogsReleaseParamSchema>;
+
+/**
+ * How releases with several credited artists are named.
+ * See `ArtistCreditPolicy` for what each value produces.
+ */
+export const DiscogsArtistCreditSchema = z.enum(["full", "primary", "feat"]);
+
+/**
+ * How release tracks are titled and credited.
+ * See `DiscogsReleaseProfile` for what each value produces.
+ */
+export const DiscogsReleaseProfileSchema = z.enum(["standard", "classical"]);
+
+/**
+ * Release query parameters.
+ * Used for routes like /discogs/release/:id?artists=feat&profile=classical
+ */
+export const DiscogsReleaseQuerySchema = z.object({
+  artists: DiscogsArtistCreditSchema.default("full"),
+  profile: DiscogsReleaseProfileSchema.default("standard"),
+});
+
+export type DiscogsReleaseQuery = z.infer<typeof DiscogsReleaseQuerySchema>;
@@ -17,18 +17,34 @@ export {
   DiscogsSearchQuerySchema,
   DiscogsReleaseIdSchema,
   DiscogsReleaseParamSchema,
+  DiscogsReleaseQuerySchema,
   type DiscogsCollectionQuery,
   type DiscogsSearchQuery,
   type DiscogsReleaseId,
   type DiscogsReleaseParam,
+  type DiscogsReleaseQuery,
 } from "./discogs.schema.js";
 
 export {
   SessionStartRequestSchema,
   SessionIdSchema,
   SessionParamSchema,
+  SessionTrackParamSchema,
   SessionScrobbleCurrentRequestSchema,
+  SessionEndRequestSchema,
+  SessionTrackDurationRequestSchema,
+  SessionRetroRequestSchema,
   type SessionId,
   type SessionParam,
+  type SessionTrackParam,
   type SessionScrobbleCurrentRequest,
+  type SessionEndRequest,
+  type SessionTrackDurationRequest,
+  type SessionRetroRequest,
 } from "./session.schema.js";
+
+export {
+  ScrobbleRuleSchema,
+  ScrobbleRulesRequestSchema,
+  type ScrobbleRulesRequest,
+} from "./rules.schema.js";
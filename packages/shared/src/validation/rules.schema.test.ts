@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ScrobbleRuleSchema, ScrobbleRulesRequestSchema } from "./rules.schema.js";
+
+const validRule = { id: "rule-1", match: "literal", find: "(Remastered)", replace: "", fields: ["title"] };
+
+describe("ScrobbleRuleSchema", () => {
+  it("accepts a literal rule", () => {
+    expect(ScrobbleRuleSchema.safeParse(validRule).success).toBe(true);
+  });
+
+  it("accepts a release-scoped regex rule", () => {
+    const result = ScrobbleRuleSchema.safeParse({
+      ...validRule,
+      match: "regex",
+      find: "^Untitled$",
+      replace: "Side A Jam",
+      releaseId: "12345",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a regex that does not compile", () => {
+    const result = ScrobbleRuleSchema.safeParse({ ...validRule, match: "regex", find: "(unclosed" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.path).toEqual(["find"]);
+    }
+  });
+
+  it("rejects a regex that nests quantifiers", () => {
+    const result = ScrobbleRuleSchema.safeParse({ ...validRule, match: "regex", find: "(a+)+$" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]?.path).toEqual(["find"]);
+    }
+  });
+
+  it("rejects a regex that repeats alternatives", () => {
+    expect(ScrobbleRuleSchema.safeParse({ ...validRule, match: "regex", find: "(a|aa)+$" }).success).toBe(false);
+  });
+
+  it("rejects empty find text, no fields and unknown fields", () => {
+    expect(ScrobbleRuleSchema.safeParse({ ...validRule, find: "" }).success).toBe(false);
+    expect(ScrobbleRuleSchema.safeParse({ ...validRule, fields: [] }).success).toBe(false);
+    expect(ScrobbleRuleSchema.safeParse({ ...validRule, fields: ["year"] }).success).toBe(false);
+  });
+
+  it("rejects non-numeric release IDs", () => {
+    expect(ScrobbleRuleSchema.safeParse({ ...validRule, releaseId: "abc" }).success).toBe(false);
+  });
+});
+
+describe("ScrobbleRulesRequestSchema", () => {
+  it("accepts an empty list", () => {
+    expect(ScrobbleRulesRequestSchema.safeParse({ rules: [] }).success).toBe(true);
+  });
+
+  it("rejects more than 100 rules", () => {
+    const rules = Array.from({ length: 101 }, (_, i) => ({ ...validRule, id: `rule-${i}` }));
+    expect(ScrobbleRulesRequestSchema.safeParse({ rules }).success).toBe(false);
+  });
+});
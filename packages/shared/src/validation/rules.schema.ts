@@ -0,0 +1,53 @@
+/**
+ * Scrobble correction rule validation schemas.
+ * Validates the rule list saved from Settings.
+ */
+
+import { z } from "zod";
+import { canBacktrackCatastrophically } from "../normalize/scrobbleRules.js";
+
+/** Most rules one user can save. */
+const MAX_SCROBBLE_RULES = 100;
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One correction rule.
+ * Regex rules must compile and must not nest quantifiers or repeat
+ * alternatives, which can backtrack catastrophically; release-scoped rules
+ * carry a numeric Discogs release ID.
+ */
+export const ScrobbleRuleSchema = z
+  .object({
+    id: z.string().trim().min(1, "Rule ID is required").max(64),
+    match: z.enum(["literal", "regex"]),
+    find: z.string().min(1, "Text to find is required").max(200),
+    replace: z.string().max(200),
+    fields: z.array(z.enum(["artist", "title", "album"])).min(1, "Pick at least one field"),
+    releaseId: z.string().trim().regex(/^[0-9]+$/, "Release ID must be numeric").optional(),
+  })
+  .refine((rule) => rule.match !== "regex" || isValidRegExp(rule.find), {
+    message: "Invalid regular expression",
+    path: ["find"],
+  })
+  .refine((rule) => rule.match !== "regex" || !canBacktrackCatastrophically(rule.find), {
+    message: "Regular expression repeats a group that can match the same text in many ways",
+    path: ["find"],
+  });
+
+/**
+ * Rules request body.
+ * Replaces the user's saved rules; their order is the evaluation order.
+ */
+export const ScrobbleRulesRequestSchema = z.object({
+  rules: z.array(ScrobbleRuleSchema).max(MAX_SCROBBLE_RULES, `At most ${MAX_SCROBBLE_RULES} rules can be saved`),
+});
+
+export type ScrobbleRulesRequest = z.infer<typeof ScrobbleRulesRequestSchema>;
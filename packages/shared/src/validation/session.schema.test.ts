@@ -3,6 +3,10 @@ import {
   SessionStartRequestSchema,
   SessionIdSchema,
   SessionParamSchema,
+  SessionEndRequestSchema,
+  SessionTrackParamSchema,
+  SessionTrackDurationRequestSchema,
+  SessionRetroRequestSchema,
 } from "./session.schema.js";
 
 describe("SessionStartRequestSchema", () => {
@@ -41,6 +45,37 @@ describe("SessionStartRequestSchema", () => {
     const result = SessionStartRequestSchema.safeParse({ releaseId: 123 });
     expect(result.success).toBe(false);
   });
+
+  it("defaults to track timing", () => {
+    const result = SessionStartRequestSchema.safeParse({ releaseId: "12345" });
+    expect(result.success && result.data.timerMode).toBe("track");
+  });
+
+  it("defaults to crediting every artist and rejects unknown artist policies", () => {
+    const result = SessionStartRequestSchema.safeParse({ releaseId: "12345" });
+    expect(result.success && result.data.artistCredit).toBe("full");
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", artistCredit: "feat" }).success).toBe(true);
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", artistCredit: "everyone" }).success).toBe(false);
+  });
+
+  it("accepts side timing and rejects unknown timer modes", () => {
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", timerMode: "side" }).success).toBe(true);
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", timerMode: "disc" }).success).toBe(false);
+  });
+
+  it("accepts a default track length and gap within range", () => {
+    expect(
+      SessionStartRequestSchema.safeParse({ releaseId: "12345", defaultTrackSec: 180, trackGapSec: 3 }).success
+    ).toBe(true);
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", defaultTrackSec: 10 }).success).toBe(false);
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", trackGapSec: -1 }).success).toBe(false);
+  });
+
+  it("plays through side ends unless asked to pause", () => {
+    const result = SessionStartRequestSchema.safeParse({ releaseId: "12345" });
+    expect(result.success && result.data.pauseAtSideEnd).toBe(false);
+    expect(SessionStartRequestSchema.safeParse({ releaseId: "12345", pauseAtSideEnd: "yes" }).success).toBe(false);
+  });
 });
 
 describe("SessionIdSchema", () => {
@@ -87,3 +122,80 @@ describe("SessionParamSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("SessionEndRequestSchema", () => {
+  it("defaults endMode to discard", () => {
+    const result = SessionEndRequestSchema.safeParse({});
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.endMode).toBe("discard");
+    }
+  });
+
+  it("accepts each end mode", () => {
+    for (const endMode of ["discard", "skip-remaining", "scrobble-remaining"]) {
+      const result = SessionEndRequestSchema.safeParse({ endMode });
+      expect(result.success).toBe(true);
+    }
+  });
+
+  it("rejects unknown end mode", () => {
+    const result = SessionEndRequestSchema.safeParse({ endMode: "scrobble-all" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("SessionTrackParamSchema", () => {
+  it("coerces the track index to a number", () => {
+    const result = SessionTrackParamSchema.safeParse({ id: "sess-123", index: "2" });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.index).toBe(2);
+    }
+  });
+
+  it("rejects negative or non-numeric track index", () => {
+    expect(SessionTrackParamSchema.safeParse({ id: "sess-123", index: "-1" }).success).toBe(false);
+    expect(SessionTrackParamSchema.safeParse({ id: "sess-123", index: "abc" }).success).toBe(false);
+  });
+});
+
+describe("SessionTrackDurationRequestSchema", () => {
+  it("defaults scope to track", () => {
+    const result = SessionTrackDurationRequestSchema.safeParse({ durationSec: 200 });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.scope).toBe("track");
+    }
+  });
+
+  it("accepts scope all", () => {
+    const result = SessionTrackDurationRequestSchema.safeParse({ durationSec: 200, scope: "all" });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects zero, fractional or missing duration", () => {
+    expect(SessionTrackDurationRequestSchema.safeParse({ durationSec: 0 }).success).toBe(false);
+    expect(SessionTrackDurationRequestSchema.safeParse({ durationSec: 1.5 }).success).toBe(false);
+    expect(SessionTrackDurationRequestSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("SessionRetroRequestSchema", () => {
+  it("accepts a listen anchored at its start or finish", () => {
+    const result = SessionRetroRequestSchema.safeParse({ releaseId: "123", anchor: "finished", at: 1_700_000_000_000 });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.thresholdPercent).toBe(50);
+      expect(result.data.trackIndexes).toBeUndefined();
+    }
+  });
+
+  it("rejects an unknown anchor, a missing time or an empty track list", () => {
+    expect(SessionRetroRequestSchema.safeParse({ releaseId: "123", anchor: "during", at: 1 }).success).toBe(false);
+    expect(SessionRetroRequestSchema.safeParse({ releaseId: "123", anchor: "started" }).success).toBe(false);
+    expect(
+      SessionRetroRequestSchema.safeParse({ releaseId: "123", anchor: "started", at: 1, trackIndexes: [] }).success
+    ).toBe(false);
+  });
+});
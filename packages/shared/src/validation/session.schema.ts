@@ -4,6 +4,7 @@
  */
 
 import { z } from "zod";
+import { DiscogsArtistCreditSchema, DiscogsReleaseProfileSchema } from "./discogs.schema.js";
 
 /**
  * Session start request body.
@@ -12,6 +13,12 @@ import { z } from "zod";
 export const SessionStartRequestSchema = z.object({
   releaseId: z.string().trim().min(1, "Release ID is required"),
   thresholdPercent: z.number().min(0).max(100).optional().default(50),
+  timerMode: z.enum(["track", "side"]).optional().default("track"),
+  pauseAtSideEnd: z.boolean().optional().default(false),
+  defaultTrackSec: z.number().int().min(30).max(1800).optional(),
+  trackGapSec: z.number().int().min(0).max(60).optional(),
+  artistCredit: DiscogsArtistCreditSchema.optional().default("full"),
+  profile: DiscogsReleaseProfileSchema.optional().default("standard"),
 });
 
 /**
@@ -32,14 +39,63 @@ export const SessionParamSchema = z.object({
 
 export type SessionParam = z.infer<typeof SessionParamSchema>;
 
+/**
+ * Session track path parameter validation.
+ * Used for routes like /session/:id/tracks/:index
+ */
+export const SessionTrackParamSchema = z.object({
+  id: SessionIdSchema,
+  index: z.coerce.number().int().min(0, "Track index must be non-negative"),
+});
+
+export type SessionTrackParam = z.infer<typeof SessionTrackParamSchema>;
+
 /**
  * Session scrobble-current request body.
- * Requires elapsed time to validate scrobble eligibility.
- * Threshold percent is optional and defaults to 50%.
+ * Requires elapsed time to validate scrobble eligibility against the
+ * session's stored policy.
  */
 export const SessionScrobbleCurrentRequestSchema = z.object({
   elapsedMs: z.number().min(0, "Elapsed time must be non-negative"),
-  thresholdPercent: z.number().min(0).max(100).optional().default(50),
 });
 
 export type SessionScrobbleCurrentRequest = z.infer<typeof SessionScrobbleCurrentRequestSchema>;
+
+/**
+ * Session end request body.
+ * The end mode decides what happens to the current and remaining tracks.
+ */
+export const SessionEndRequestSchema = z.object({
+  endMode: z.enum(["discard", "skip-remaining", "scrobble-remaining"]).optional().default("discard"),
+});
+
+export type SessionEndRequest = z.infer<typeof SessionEndRequestSchema>;
+
+/**
+ * Session track duration request body.
+ * Overrides the duration for this session only; scope "all" applies it to every track.
+ */
+export const SessionTrackDurationRequestSchema = z.object({
+  durationSec: z.number().int().min(1, "Duration must be at least 1 second").max(3600, "Duration must be at most an hour"),
+  scope: z.enum(["track", "all"]).optional().default("track"),
+});
+
+export type SessionTrackDurationRequest = z.infer<typeof SessionTrackDurationRequestSchema>;
+
+/**
+ * Retro listen request body.
+ * Logs a release played without a live session, from when it started or finished.
+ * Track indexes narrow the listen to the tracks that were played.
+ */
+export const SessionRetroRequestSchema = z.object({
+  releaseId: z.string().trim().min(1, "Release ID is required"),
+  anchor: z.enum(["started", "finished"]),
+  at: z.number().int().positive("Listen time is required"),
+  trackIndexes: z.array(z.number().int().min(0)).min(1, "Pick at least one track").optional(),
+  thresholdPercent: z.number().min(0).max(100).optional().default(50),
+  defaultTrackSec: z.number().int().min(30).max(1800).optional(),
+  artistCredit: DiscogsArtistCreditSchema.optional().default("full"),
+  profile: DiscogsReleaseProfileSchema.optional().default("standard"),
+});
+
+export type SessionRetroRequest = z.infer<typeof SessionRetroRequestSchema>;